@@ -15,5 +15,9 @@ export default defineConfig({
     command: 'npm run dev',
     url: 'http://localhost:3000',
     reuseExistingServer: !process.env.CI,
+    // Keep sessions in memory so the suite runs without a Redis server
+    env: {
+      SESSION_STORE: process.env.SESSION_STORE || 'memory',
+    },
   },
 });
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  revealWhenDue,
+  cancelAutoReveal,
+  getRevealedEvent,
+  toPublicSession,
+} from '@/lib/sessionManager';
+import { checkSessionAccess, handleSessionBusy } from '@/lib/apiErrors';
+import { broadcastSessionEvent } from '@/lib/realtime-server';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Anyone in the session may end or cancel the countdown, not just the facilitator
+const AUTO_REVEAL_ACCESS = { participant: true };
+
+/**
+ * Reveals the votes when the auto-reveal countdown has ended.
+ * Body: { participantId, participantToken }
+ */
+export const POST = handleSessionBusy(async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id: sessionId } = await params;
+  const { participantId, participantToken } = await request.json();
+
+  const denied = await checkSessionAccess(sessionId, { participantId, participantToken }, AUTO_REVEAL_ACCESS);
+  if (denied) return denied;
+
+  const session = await revealWhenDue(sessionId);
+  if (!session) {
+    return NextResponse.json({ error: 'No auto-reveal is due' }, { status: 400 });
+  }
+
+  // Broadcast what changed to all clients
+  await broadcastSessionEvent(session, getRevealedEvent(session));
+
+  return NextResponse.json(toPublicSession(session));
+});
+
+/**
+ * Cancels the auto-reveal countdown.
+ * Body: { participantId, participantToken }
+ */
+export const DELETE = handleSessionBusy(async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id: sessionId } = await params;
+  const { participantId, participantToken } = await request.json();
+
+  const denied = await checkSessionAccess(sessionId, { participantId, participantToken }, AUTO_REVEAL_ACCESS);
+  if (denied) return denied;
+
+  const session = await cancelAutoReveal(sessionId);
+  if (!session) {
+    return NextResponse.json({ error: 'No auto-reveal is running' }, { status: 400 });
+  }
+
+  // Broadcast what changed to all clients
+  await broadcastSessionEvent(session, { type: 'auto-reveal-cancelled' });
+
+  return NextResponse.json(toPublicSession(session));
+});
@@ -1,27 +1,35 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { updateAvatar, getSession } from '@/lib/sessionManager';
-import { pusher } from '@/lib/pusher-server';
+import { updateAvatar, getSession, isParticipant, toPublicSession } from '@/lib/sessionManager';
+import { handleSessionBusy } from '@/lib/apiErrors';
+import { broadcastSessionEvent } from '@/lib/realtime-server';
 
-export async function POST(
+export const POST = handleSessionBusy(async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id: sessionId } = await params;
-  const { participantId, avatar } = await request.json();
+  const { participantId, avatar, participantToken } = await request.json();
 
   if (!participantId || !avatar) {
     return NextResponse.json({ error: 'participantId and avatar are required' }, { status: 400 });
   }
 
-  const success = await updateAvatar(sessionId, participantId, avatar);
-  if (!success) {
-    return NextResponse.json({ error: 'Failed to update avatar' }, { status: 400 });
+  // Only the participant themselves (holding their token) can act as them
+  const current = await getSession(sessionId);
+  if (!current) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+  }
+  if (!isParticipant(current, participantId, participantToken)) {
+    return NextResponse.json({ error: 'Invalid participant token' }, { status: 403 });
   }
 
-  const session = await getSession(sessionId);
+  const session = await updateAvatar(sessionId, participantId, avatar);
+  if (!session) {
+    return NextResponse.json({ error: 'Failed to update avatar' }, { status: 400 });
+  }
 
-  // Broadcast updated state to all clients
-  await pusher.trigger(`session-${sessionId}`, 'session-state', session);
+  // Broadcast what changed to all clients
+  await broadcastSessionEvent(session, { type: 'avatar-changed', participantId, avatar });
 
-  return NextResponse.json(session);
-}
+  return NextResponse.json(toPublicSession(session));
+});
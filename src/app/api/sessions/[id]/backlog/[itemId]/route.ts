@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  moveBacklogItem,
+  setBacklogItemSkipped,
+  removeBacklogItem,
+  toPublicSession,
+} from '@/lib/sessionManager';
+import { checkSessionAccess, handleSessionBusy } from '@/lib/apiErrors';
+import { broadcastSessionEvent } from '@/lib/realtime-server';
+
+type RouteContext = { params: Promise<{ id: string; itemId: string }> };
+
+const BACKLOG_ACCESS = { facilitatorAction: 'change the backlog' };
+
+/**
+ * Moves an item, or skips it (or puts it back in the queue).
+ * Body: { index: number, ownerToken? } or { skipped: boolean, ownerToken? }
+ */
+export const PATCH = handleSessionBusy(async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id: sessionId, itemId } = await params;
+  const { index, skipped, ownerToken } = await request.json();
+
+  const isMove = Number.isInteger(index) && skipped === undefined;
+  const isSkip = typeof skipped === 'boolean' && index === undefined;
+  if (!isMove && !isSkip) {
+    return NextResponse.json({ error: 'Either index or skipped is required' }, { status: 400 });
+  }
+
+  const denied = await checkSessionAccess(sessionId, { ownerToken }, BACKLOG_ACCESS);
+  if (denied) return denied;
+
+  const session = isMove
+    ? await moveBacklogItem(sessionId, itemId, index)
+    : await setBacklogItemSkipped(sessionId, itemId, skipped);
+  if (!session) {
+    return NextResponse.json({ error: 'Backlog item not found' }, { status: 404 });
+  }
+
+  // Broadcast what changed to all clients
+  await broadcastSessionEvent(session, isMove
+    ? { type: 'backlog-item-moved', itemId, index }
+    : { type: 'backlog-item-skipped', itemId, skipped });
+
+  return NextResponse.json(toPublicSession(session));
+});
+
+export const DELETE = handleSessionBusy(async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id: sessionId, itemId } = await params;
+  // Body is optional: it only carries the owner token
+  const { ownerToken } = await request.json().catch(() => ({}));
+
+  const denied = await checkSessionAccess(sessionId, { ownerToken }, BACKLOG_ACCESS);
+  if (denied) return denied;
+
+  const session = await removeBacklogItem(sessionId, itemId);
+  if (!session) {
+    return NextResponse.json({ error: 'Backlog item not found' }, { status: 404 });
+  }
+
+  // Broadcast what changed to all clients
+  await broadcastSessionEvent(session, { type: 'backlog-item-removed', itemId });
+
+  return NextResponse.json(toPublicSession(session));
+});
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { startBacklogItem, getSession, canControlRound, toPublicSession } from '@/lib/sessionManager';
+import { handleSessionBusy } from '@/lib/apiErrors';
+import { broadcastSessionEvent } from '@/lib/realtime-server';
+
+/**
+ * Starts a new round on a backlog item, out of queue order.
+ */
+export const POST = handleSessionBusy(async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; itemId: string }> }
+) {
+  const { id: sessionId, itemId } = await params;
+  // Body is optional: it only carries the owner token
+  const { ownerToken } = await request.json().catch(() => ({}));
+
+  const current = await getSession(sessionId);
+  if (!current) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+  }
+  if (!canControlRound(current, ownerToken)) {
+    return NextResponse.json({ error: 'Only the facilitator can start a new round' }, { status: 403 });
+  }
+
+  const session = await startBacklogItem(sessionId, itemId);
+  if (!session) {
+    return NextResponse.json({ error: 'Backlog item not found' }, { status: 404 });
+  }
+
+  // Broadcast what changed to all clients
+  await broadcastSessionEvent(session, { type: 'backlog-item-started', itemId });
+
+  return NextResponse.json(toPublicSession(session));
+});
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { addBacklogItems, getSession, canControlRound } from '@/lib/sessionManager';
+import { handleSessionBusy } from '@/lib/apiErrors';
+import { MAX_BACKLOG_ITEMS } from '@/lib/backlog';
+import { parseBacklogImport, type ImportFormat, type ImportReport } from '@/lib/backlogImport';
+import { broadcastSessionEvent } from '@/lib/realtime-server';
+
+// Big enough for a few hundred tickets with descriptions
+const MAX_IMPORT_SIZE = 1_000_000;
+
+const FORMATS: ImportFormat[] = ['csv', 'json'];
+
+/**
+ * Imports stories exported from a tracker into the session's backlog.
+ * Body: { content: string, format?: 'csv' | 'json', ownerToken? }
+ *
+ * Valid rows are added even if others are rejected; the response lists the
+ * rejected rows with the reason, so the user can fix and re-import them,
+ * and how many valid stories didn't fit in the backlog (overLimit).
+ */
+export const POST = handleSessionBusy(async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: sessionId } = await params;
+  const { content, format, ownerToken } = await request.json();
+
+  if (typeof content !== 'string' || !content.trim()) {
+    return NextResponse.json({ error: 'Content is required' }, { status: 400 });
+  }
+  if (content.length > MAX_IMPORT_SIZE) {
+    return NextResponse.json({ error: 'The file is too large to import' }, { status: 400 });
+  }
+  if (format !== undefined && !FORMATS.includes(format)) {
+    return NextResponse.json({ error: 'Format must be csv or json' }, { status: 400 });
+  }
+
+  const current = await getSession(sessionId);
+  if (!current) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+  }
+  if (!canControlRound(current, ownerToken)) {
+    return NextResponse.json({ error: 'Only the facilitator can change the backlog' }, { status: 403 });
+  }
+
+  const { items, rejected, error } = parseBacklogImport(content, format);
+  if (error) {
+    return NextResponse.json<ImportReport>({ error, imported: 0, rejected, overLimit: 0 }, { status: 400 });
+  }
+
+  // Stories past the backlog limit are left out rather than failing the whole import
+  const space = Math.max(0, MAX_BACKLOG_ITEMS - (current.backlog?.length ?? 0));
+  const accepted = items.slice(0, space);
+  const overLimit = items.length - accepted.length;
+  if (accepted.length === 0) {
+    return NextResponse.json<ImportReport>(
+      { error: 'No stories could be imported', imported: 0, rejected, overLimit },
+      { status: 400 }
+    );
+  }
+
+  const session = await addBacklogItems(sessionId, accepted);
+  if (!session) {
+    return NextResponse.json<ImportReport>(
+      { error: `A backlog can hold at most ${MAX_BACKLOG_ITEMS} stories`, imported: 0, rejected, overLimit },
+      { status: 400 }
+    );
+  }
+
+  // An import can add hundreds of stories with long descriptions, far more
+  // than an event can carry, so clients are told to fetch the backlog instead
+  await broadcastSessionEvent(session, { type: 'resync' });
+
+  return NextResponse.json<ImportReport>({ imported: accepted.length, rejected, overLimit });
+});
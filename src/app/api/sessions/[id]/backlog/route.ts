@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { addBacklogItems, getSession, canControlRound, toPublicSession } from '@/lib/sessionManager';
+import { handleSessionBusy } from '@/lib/apiErrors';
+import { MAX_BACKLOG_ITEMS, MAX_BACKLOG_TITLE_LENGTH } from '@/lib/backlog';
+import { broadcastSessionEvent } from '@/lib/realtime-server';
+
+/**
+ * Adds stories to the end of the session's backlog.
+ * Body: { titles: string[], ownerToken? }
+ */
+export const POST = handleSessionBusy(async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: sessionId } = await params;
+  const { titles, ownerToken } = await request.json();
+
+  const isValidTitle = (title: unknown) =>
+    typeof title === 'string' && title.trim() !== '' && title.trim().length <= MAX_BACKLOG_TITLE_LENGTH;
+  if (!Array.isArray(titles) || titles.length === 0 || !titles.every(isValidTitle)) {
+    return NextResponse.json(
+      { error: `Titles must be a list of 1-${MAX_BACKLOG_TITLE_LENGTH} character stories` },
+      { status: 400 }
+    );
+  }
+
+  const current = await getSession(sessionId);
+  if (!current) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+  }
+  if (!canControlRound(current, ownerToken)) {
+    return NextResponse.json({ error: 'Only the facilitator can change the backlog' }, { status: 403 });
+  }
+
+  const session = await addBacklogItems(sessionId, titles.map((title: string) => ({ title: title.trim() })));
+  if (!session) {
+    return NextResponse.json({ error: `A backlog can hold at most ${MAX_BACKLOG_ITEMS} stories` }, { status: 400 });
+  }
+
+  // Broadcast what changed to all clients (the new items are the last ones)
+  const items = session.backlog!.slice(-titles.length);
+  await broadcastSessionEvent(session, { type: 'backlog-items-added', items });
+
+  return NextResponse.json(toPublicSession(session));
+});
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { pusher } from '@/lib/pusher-server';
+import { broadcast } from '@/lib/realtime-server';
+import type { BellEvent } from '@/lib/realtime';
 
 export async function POST(
   request: NextRequest,
@@ -9,10 +10,8 @@ export async function POST(
   const { participantName } = await request.json();
 
   // Broadcast bell event to all clients
-  await pusher.trigger(`session-${sessionId}`, 'bell', {
-    from: participantName,
-    timestamp: Date.now(),
-  });
+  const bell: BellEvent = { from: participantName, timestamp: Date.now() };
+  await broadcast(sessionId, 'bell', bell);
 
   return NextResponse.json({ success: true });
 }
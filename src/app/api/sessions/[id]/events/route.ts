@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRealtimeTransport, sessionChannel } from '@/lib/realtime';
+import { subscribe } from '@/lib/sse-hub';
+import { createEventStream } from '@/lib/sse-stream';
+
+// Streams must never be cached or pre-rendered
+export const dynamic = 'force-dynamic';
+
+/**
+ * Server-Sent Events stream of a session's realtime events.
+ * Only available when NEXT_PUBLIC_REALTIME_TRANSPORT=sse.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (getRealtimeTransport() !== 'sse') {
+    return NextResponse.json({ error: 'SSE transport is not enabled' }, { status: 404 });
+  }
+
+  const { id: sessionId } = await params;
+
+  return createEventStream(request.signal, (send) =>
+    subscribe(sessionChannel(sessionId), send)
+  );
+}
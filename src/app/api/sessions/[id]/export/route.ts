@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/sessionManager';
+import { renderExport, getExportFileName, isExportFormat } from '@/lib/export';
+
+// Always render the latest results
+export const dynamic = 'force-dynamic';
+
+/**
+ * Downloads the session's estimated stories.
+ * Query: ?format=csv|json|md (default csv)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: sessionId } = await params;
+  const format = request.nextUrl.searchParams.get('format') ?? 'csv';
+
+  if (!isExportFormat(format)) {
+    return NextResponse.json({ error: 'Format must be csv, json or md' }, { status: 400 });
+  }
+
+  const session = await getSession(sessionId);
+  if (!session) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+  }
+
+  const { body, contentType, extension } = renderExport(session, format);
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="${getExportFileName(session.name, extension)}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
@@ -1,27 +1,36 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { updateHeartbeat, getSession } from '@/lib/sessionManager';
-import { pusher } from '@/lib/pusher-server';
+import { updateHeartbeat, getSession, isParticipant } from '@/lib/sessionManager';
+import { handleSessionBusy } from '@/lib/apiErrors';
+import { broadcastSessionEvent } from '@/lib/realtime-server';
 
-export async function POST(
+export const POST = handleSessionBusy(async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id: sessionId } = await params;
-  const { participantId } = await request.json();
+  const { participantId, participantToken } = await request.json();
 
   if (!participantId) {
     return NextResponse.json({ error: 'participantId is required' }, { status: 400 });
   }
 
-  const success = await updateHeartbeat(sessionId, participantId);
-  if (!success) {
-    return NextResponse.json({ error: 'Failed to update heartbeat' }, { status: 400 });
+  // Only the participant themselves (holding their token) can act as them
+  const current = await getSession(sessionId);
+  if (!current) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+  }
+  if (!isParticipant(current, participantId, participantToken)) {
+    return NextResponse.json({ error: 'Invalid participant token' }, { status: 403 });
   }
 
-  const session = await getSession(sessionId);
+  const session = await updateHeartbeat(sessionId, participantId);
+  if (!session) {
+    return NextResponse.json({ error: 'Failed to update heartbeat' }, { status: 400 });
+  }
 
-  // Broadcast updated state to all clients
-  await pusher.trigger(`session-${sessionId}`, 'session-state', session);
+  // Just the timestamp - sending the whole session every heartbeat is far too much traffic
+  const { lastHeartbeat } = session.participants.find(p => p.id === participantId) ?? {};
+  await broadcastSessionEvent(session, { type: 'heartbeat', participantId, lastHeartbeat });
 
   return NextResponse.json({ success: true });
-}
+});
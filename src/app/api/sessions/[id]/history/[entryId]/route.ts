@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { updateHistoryEntry, deleteHistoryEntry } from '@/lib/sessionManager';
+import { checkSessionAccess, handleSessionBusy } from '@/lib/apiErrors';
+import { broadcastSessionEvent } from '@/lib/realtime-server';
+
+type RouteContext = { params: Promise<{ id: string; entryId: string }> };
+
+// Only participants of the session can change the history (only the
+// facilitator, in facilitator-only sessions)
+const HISTORY_ACCESS = { participant: true, facilitatorAction: 'change the history' };
+
+export const PATCH = handleSessionBusy(async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id: sessionId, entryId } = await params;
+  const body = await request.json().catch(() => null);
+  if (!body) {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+  const { story, vote } = body;
+
+  // Each field is optional, but if present it can't be blank
+  const isValid = (value: unknown) => value === undefined || (typeof value === 'string' && value.trim() !== '');
+  if (!isValid(story) || !isValid(vote) || (story === undefined && vote === undefined)) {
+    return NextResponse.json({ error: 'Story or vote is required' }, { status: 400 });
+  }
+
+  const denied = await checkSessionAccess(sessionId, body, HISTORY_ACCESS);
+  if (denied) return denied;
+
+  const session = await updateHistoryEntry(sessionId, entryId, {
+    story: story?.trim(),
+    vote: vote?.trim(),
+  });
+  const entry = session?.history?.find(e => e.id === entryId);
+  if (!session || !entry) {
+    return NextResponse.json({ error: 'History entry not found' }, { status: 404 });
+  }
+
+  // Broadcast what changed to all clients
+  await broadcastSessionEvent(session, { type: 'history-entry-updated', entry });
+
+  return NextResponse.json({ success: true });
+});
+
+export const DELETE = handleSessionBusy(async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id: sessionId, entryId } = await params;
+  const body = await request.json().catch(() => null);
+  if (!body) {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  const denied = await checkSessionAccess(sessionId, body, HISTORY_ACCESS);
+  if (denied) return denied;
+
+  const session = await deleteHistoryEntry(sessionId, entryId);
+  if (!session) {
+    return NextResponse.json({ error: 'History entry not found' }, { status: 404 });
+  }
+
+  // Broadcast what changed to all clients
+  await broadcastSessionEvent(session, { type: 'history-entry-deleted', entryId });
+
+  return NextResponse.json({ success: true });
+});
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { addHistoryEntry, canControlRound, getSession, isParticipant } from '@/lib/sessionManager';
+import { handleSessionBusy } from '@/lib/apiErrors';
+import { broadcastSessionEvent } from '@/lib/realtime-server';
+
+export const POST = handleSessionBusy(async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: sessionId } = await params;
+  const body = await request.json().catch(() => null);
+  if (!body) {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+  const { story, vote, participantId, participantToken, ownerToken } = body;
+
+  if (typeof story !== 'string' || !story.trim() || typeof vote !== 'string' || !vote.trim()) {
+    return NextResponse.json({ error: 'Story and vote are required' }, { status: 400 });
+  }
+
+  // Only participants of the session can save results (only the facilitator,
+  // in facilitator-only sessions)
+  const current = await getSession(sessionId);
+  if (!current) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+  }
+  if (!isParticipant(current, participantId, participantToken)) {
+    return NextResponse.json({ error: 'Invalid participant token' }, { status: 403 });
+  }
+  if (!canControlRound(current, ownerToken)) {
+    return NextResponse.json({ error: 'Only the facilitator can save results' }, { status: 403 });
+  }
+
+  const result = await addHistoryEntry(sessionId, story.trim(), vote.trim());
+  if (!result) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+  }
+  const { session, entry } = result;
+
+  // Broadcast what changed to all clients
+  await broadcastSessionEvent(session, { type: 'history-entry-saved', entry });
+
+  return NextResponse.json(entry);
+});
@@ -1,23 +1,50 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { addParticipant, getSession } from '@/lib/sessionManager';
-import { pusher } from '@/lib/pusher-server';
+import { addParticipant, areVotesVisible, getSession, isFacilitator, toPublicParticipant, toPublicSession } from '@/lib/sessionManager';
+import { handleSessionBusy } from '@/lib/apiErrors';
+import { broadcastSessionEvent } from '@/lib/realtime-server';
+import { generateToken } from '@/lib/tokens';
 
-export async function POST(
+const ROLES = ['voter', 'observer', 'facilitator'];
+
+export const POST = handleSessionBusy(async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id: sessionId } = await params;
-  const { participantId, name, role, avatar } = await request.json();
+  const { participantId, name, role = 'voter', avatar, ownerToken, participantToken } = await request.json();
 
   if (!name || !participantId) {
     return NextResponse.json({ error: 'Name and participantId are required' }, { status: 400 });
   }
+  if (!ROLES.includes(role)) {
+    return NextResponse.json({ error: 'Invalid role' }, { status: 400 });
+  }
+
+  // Only the session creator (holding the owner token) can join as facilitator
+  if (role === 'facilitator') {
+    const current = await getSession(sessionId);
+    if (!current || !isFacilitator(current, ownerToken)) {
+      return NextResponse.json({ error: 'Only the session owner can join as facilitator' }, { status: 403 });
+    }
+  }
+
+  // Rejoining participants send back the token they were given; everyone else gets a new one
+  const token = typeof participantToken === 'string' && participantToken ? participantToken : generateToken();
 
-  await addParticipant(sessionId, participantId, name, role || 'voter', avatar || 'chicken');
-  const session = await getSession(sessionId);
+  const session = await addParticipant(sessionId, participantId, name, role, avatar || 'chicken', token, ownerToken);
+  const participant = session?.participants.find(p => p.id === participantId);
+  if (!session || !participant) {
+    return NextResponse.json({ error: 'Invalid participant token' }, { status: 403 });
+  }
 
-  // Broadcast updated state to all clients
-  await pusher.trigger(`session-${sessionId}`, 'session-state', session);
+  // Broadcast what changed to all clients
+  await broadcastSessionEvent(session, {
+    type: 'participant-joined',
+    participant: toPublicParticipant(participant, areVotesVisible(session)),
+  });
 
-  return NextResponse.json(session);
-}
+  // The token is only ever sent here, to the participant it belongs to - and
+  // so is their own vote, hidden in the session until reveal, so a rejoin
+  // can show which card they picked
+  return NextResponse.json({ session: toPublicSession(session), participantToken: token, vote: participant.vote });
+});
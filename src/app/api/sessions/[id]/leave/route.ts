@@ -1,27 +1,35 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { removeParticipant, getSession } from '@/lib/sessionManager';
-import { pusher } from '@/lib/pusher-server';
+import { removeParticipant, getSession, isParticipant } from '@/lib/sessionManager';
+import { handleSessionBusy } from '@/lib/apiErrors';
+import { broadcastSessionEvent } from '@/lib/realtime-server';
 
-export async function POST(
+export const POST = handleSessionBusy(async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id: sessionId } = await params;
-  const { participantId } = await request.json();
+  const { participantId, participantToken } = await request.json();
 
   if (!participantId) {
     return NextResponse.json({ error: 'participantId is required' }, { status: 400 });
   }
 
-  const success = await removeParticipant(sessionId, participantId);
-  if (!success) {
-    return NextResponse.json({ error: 'Failed to leave session' }, { status: 400 });
+  // Only the participant themselves (holding their token) can act as them
+  const current = await getSession(sessionId);
+  if (!current) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+  }
+  if (!isParticipant(current, participantId, participantToken)) {
+    return NextResponse.json({ error: 'Invalid participant token' }, { status: 403 });
   }
 
-  const session = await getSession(sessionId);
+  const session = await removeParticipant(sessionId, participantId);
+  if (!session) {
+    return NextResponse.json({ error: 'Failed to leave session' }, { status: 400 });
+  }
 
-  // Broadcast updated state to all clients
-  await pusher.trigger(`session-${sessionId}`, 'session-state', session);
+  // Broadcast what changed to all clients
+  await broadcastSessionEvent(session, { type: 'participant-left', participantId });
 
   return NextResponse.json({ success: true });
-}
+});
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { addVoteNote, getSession, isParticipant, toPublicSession } from '@/lib/sessionManager';
+import { handleSessionBusy } from '@/lib/apiErrors';
+import { broadcastSessionEvent } from '@/lib/realtime-server';
+import { MAX_NOTE_LENGTH } from '@/types/poker';
+
+export const POST = handleSessionBusy(async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: sessionId } = await params;
+  const { participantId, participantToken, text } = await request.json();
+
+  if (!participantId) {
+    return NextResponse.json({ error: 'ParticipantId is required' }, { status: 400 });
+  }
+  if (typeof text !== 'string' || text.trim() === '' || text.trim().length > MAX_NOTE_LENGTH) {
+    return NextResponse.json({ error: `Notes must be 1-${MAX_NOTE_LENGTH} characters` }, { status: 400 });
+  }
+
+  // Only the participant themselves (holding their token) can explain their vote
+  const current = await getSession(sessionId);
+  if (!current) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+  }
+  if (!isParticipant(current, participantId, participantToken)) {
+    return NextResponse.json({ error: 'Invalid participant token' }, { status: 403 });
+  }
+
+  const session = await addVoteNote(sessionId, participantId, text.trim());
+  if (!session) {
+    return NextResponse.json(
+      { error: 'Only the lowest and highest voters of the revealed round can explain their vote' },
+      { status: 400 }
+    );
+  }
+
+  // Broadcast what changed to all clients
+  const round = session.rounds?.find(r => r.id === session.currentRoundId);
+  if (round) {
+    await broadcastSessionEvent(session, { type: 'note-added', roundId: round.id, notes: round.notes ?? [] });
+  }
+
+  return NextResponse.json(toPublicSession(session));
+});
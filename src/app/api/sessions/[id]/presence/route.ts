@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, isParticipant } from '@/lib/sessionManager';
+import { getRealtimeTransport, isPresenceEnabled, presenceChannel } from '@/lib/realtime';
+import { getPresentMembers, subscribe, trackPresence } from '@/lib/sse-hub';
+import { createEventStream } from '@/lib/sse-stream';
+
+// Streams must never be cached or pre-rendered
+export const dynamic = 'force-dynamic';
+
+/**
+ * Pusher presence channel authorization.
+ *
+ * pusher-js calls this before joining the session's presence channel. Only a
+ * participant holding their token may join, and they join as their own ID,
+ * so nobody can make someone else look online.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!isPresenceEnabled() || getRealtimeTransport() !== 'pusher') {
+    return NextResponse.json({ error: 'Pusher presence is not enabled' }, { status: 404 });
+  }
+
+  const { id: sessionId } = await params;
+  const { socketId, channelName, participantId, participantToken } = await request.json();
+
+  if (!socketId || channelName !== presenceChannel(sessionId)) {
+    return NextResponse.json({ error: 'Invalid presence channel' }, { status: 400 });
+  }
+
+  const session = await getSession(sessionId);
+  if (!session) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+  }
+  if (!isParticipant(session, participantId, participantToken)) {
+    return NextResponse.json({ error: 'Invalid participant token' }, { status: 403 });
+  }
+
+  // Loaded lazily so SSE-only deployments don't need Pusher credentials
+  const { pusher } = await import('@/lib/pusher-server');
+  return NextResponse.json(pusher.authorizeChannel(socketId, channelName, { user_id: participantId }));
+}
+
+/**
+ * Server-Sent Events presence stream for the self-hosted transport.
+ *
+ * A participant is online for as long as this stream is open. Every stream
+ * receives a 'presence' event with everyone online when someone comes or goes.
+ *
+ * NOTE: EventSource can't send headers or a body, so the participant's
+ * credentials come in the query string.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!isPresenceEnabled() || getRealtimeTransport() !== 'sse') {
+    return NextResponse.json({ error: 'SSE presence is not enabled' }, { status: 404 });
+  }
+
+  const { id: sessionId } = await params;
+  const participantId = request.nextUrl.searchParams.get('participantId');
+  const participantToken = request.nextUrl.searchParams.get('participantToken');
+
+  const session = await getSession(sessionId);
+  if (!session) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+  }
+  if (!participantId || !isParticipant(session, participantId, participantToken)) {
+    return NextResponse.json({ error: 'Invalid participant token' }, { status: 403 });
+  }
+
+  const channel = presenceChannel(sessionId);
+  return createEventStream(request.signal, (send) => {
+    const unsubscribe = subscribe(channel, send);
+    const untrack = trackPresence(channel, participantId);
+    // Tracking only announces new members - a second tab still needs the current list
+    send('presence', { online: getPresentMembers(channel) });
+
+    return () => {
+      untrack();
+      unsubscribe();
+    };
+  });
+}
@@ -1,22 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { reveal, getSession } from '@/lib/sessionManager';
-import { pusher } from '@/lib/pusher-server';
+import { reveal, getSession, canControlRound, getRevealedEvent, toPublicSession } from '@/lib/sessionManager';
+import { handleSessionBusy } from '@/lib/apiErrors';
+import { broadcastSessionEvent } from '@/lib/realtime-server';
 
-export async function POST(
+export const POST = handleSessionBusy(async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id: sessionId } = await params;
+  // Body is optional: it only carries the owner token
+  const { ownerToken } = await request.json().catch(() => ({}));
 
-  const success = await reveal(sessionId);
-  if (!success) {
+  const current = await getSession(sessionId);
+  if (!current) {
     return NextResponse.json({ error: 'Session not found' }, { status: 404 });
   }
+  if (!canControlRound(current, ownerToken)) {
+    return NextResponse.json({ error: 'Only the facilitator can reveal votes' }, { status: 403 });
+  }
 
-  const session = await getSession(sessionId);
+  const session = await reveal(sessionId);
+  if (!session) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+  }
 
-  // Broadcast updated state to all clients
-  await pusher.trigger(`session-${sessionId}`, 'session-state', session);
+  // Broadcast what changed to all clients
+  await broadcastSessionEvent(session, getRevealedEvent(session));
 
-  return NextResponse.json(session);
-}
+  return NextResponse.json(toPublicSession(session));
+});
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revote, getSession, canControlRound, toPublicSession } from '@/lib/sessionManager';
+import { handleSessionBusy } from '@/lib/apiErrors';
+import { broadcastSessionEvent } from '@/lib/realtime-server';
+
+export const POST = handleSessionBusy(async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: sessionId } = await params;
+  // Body is optional: it only carries the owner token
+  const { ownerToken } = await request.json().catch(() => ({}));
+
+  const current = await getSession(sessionId);
+  if (!current) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+  }
+  if (!canControlRound(current, ownerToken)) {
+    return NextResponse.json({ error: 'Only the facilitator can start a re-vote' }, { status: 403 });
+  }
+
+  const session = await revote(sessionId);
+  if (!session) {
+    return NextResponse.json({ error: 'Votes must be revealed before a re-vote' }, { status: 400 });
+  }
+
+  // Broadcast what changed to all clients
+  await broadcastSessionEvent(session, {
+    type: 'revote',
+    round: session.round ?? 1,
+  });
+
+  return NextResponse.json(toPublicSession(session));
+});
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { updateScale, addCustomScale, getSession, canControlRound, toPublicSession, type Session } from '@/lib/sessionManager';
+import { handleSessionBusy } from '@/lib/apiErrors';
+import { validateScaleDefinition } from '@/lib/scales';
+import { broadcastSessionEvent } from '@/lib/realtime-server';
+
+export const POST = handleSessionBusy(async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: sessionId } = await params;
+  const { scale, customScale, ownerToken } = await request.json();
+
+  const current = await getSession(sessionId);
+  if (!current) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+  }
+  if (!canControlRound(current, ownerToken)) {
+    return NextResponse.json({ error: 'Only the facilitator can change the scale' }, { status: 403 });
+  }
+
+  let session: Session | null;
+  if (customScale !== undefined) {
+    // Define a new scale and switch to it
+    const definition = validateScaleDefinition(customScale);
+    if (!definition) {
+      return NextResponse.json({ error: 'Invalid custom scale' }, { status: 400 });
+    }
+
+    session = await addCustomScale(sessionId, definition);
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    // Broadcast what changed to all clients
+    await broadcastSessionEvent(session, {
+      type: 'scale-changed',
+      votingScale: session.votingScale!,
+      customScale: definition,
+    });
+  } else {
+    if (typeof scale !== 'string') {
+      return NextResponse.json({ error: 'Scale is required' }, { status: 400 });
+    }
+
+    session = await updateScale(sessionId, scale);
+    if (!session) {
+      return NextResponse.json({ error: 'Failed to update scale' }, { status: 400 });
+    }
+
+    // Broadcast what changed to all clients
+    await broadcastSessionEvent(session, { type: 'scale-changed', votingScale: scale });
+  }
+
+  return NextResponse.json(toPublicSession(session));
+});
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { updateSettings, getSession, isFacilitator, canChangeAnonymity, toPublicSession } from '@/lib/sessionManager';
+import { handleSessionBusy } from '@/lib/apiErrors';
+import { broadcastSessionEvent } from '@/lib/realtime-server';
+import {
+  MAX_AUTO_REVEAL_COUNTDOWN,
+  SUGGESTION_BASES,
+  SUGGESTION_ROUNDINGS,
+  type SessionSettings,
+} from '@/types/poker';
+
+export const POST = handleSessionBusy(async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: sessionId } = await params;
+  const {
+    facilitatorOnly,
+    autoReveal,
+    autoRevealCountdown,
+    anonymous,
+    suggestionBasis,
+    suggestionRounding,
+    ownerToken,
+  } = await request.json();
+
+  // Only the settings given are changed
+  const changes: Partial<SessionSettings> = {};
+  if (facilitatorOnly !== undefined) {
+    if (typeof facilitatorOnly !== 'boolean') {
+      return NextResponse.json({ error: 'facilitatorOnly must be a boolean' }, { status: 400 });
+    }
+    changes.facilitatorOnly = facilitatorOnly;
+  }
+  if (autoReveal !== undefined) {
+    if (typeof autoReveal !== 'boolean') {
+      return NextResponse.json({ error: 'autoReveal must be a boolean' }, { status: 400 });
+    }
+    changes.autoReveal = autoReveal;
+  }
+  if (autoRevealCountdown !== undefined) {
+    if (!Number.isInteger(autoRevealCountdown) || autoRevealCountdown < 0 || autoRevealCountdown > MAX_AUTO_REVEAL_COUNTDOWN) {
+      return NextResponse.json(
+        { error: `autoRevealCountdown must be a whole number of seconds from 0 to ${MAX_AUTO_REVEAL_COUNTDOWN}` },
+        { status: 400 }
+      );
+    }
+    changes.autoRevealCountdown = autoRevealCountdown;
+  }
+  if (anonymous !== undefined) {
+    if (typeof anonymous !== 'boolean') {
+      return NextResponse.json({ error: 'anonymous must be a boolean' }, { status: 400 });
+    }
+    changes.anonymous = anonymous;
+  }
+  if (suggestionBasis !== undefined) {
+    if (!SUGGESTION_BASES.includes(suggestionBasis)) {
+      return NextResponse.json({ error: 'suggestionBasis must be median or mean' }, { status: 400 });
+    }
+    changes.suggestionBasis = suggestionBasis;
+  }
+  if (suggestionRounding !== undefined) {
+    if (!SUGGESTION_ROUNDINGS.includes(suggestionRounding)) {
+      return NextResponse.json({ error: 'suggestionRounding must be nearest or up' }, { status: 400 });
+    }
+    changes.suggestionRounding = suggestionRounding;
+  }
+  if (Object.keys(changes).length === 0) {
+    return NextResponse.json({ error: 'No settings to change' }, { status: 400 });
+  }
+
+  const current = await getSession(sessionId);
+  if (!current) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+  }
+  // Settings always belong to the facilitator, whatever they are set to
+  if (!isFacilitator(current, ownerToken)) {
+    return NextResponse.json({ error: 'Only the facilitator can change settings' }, { status: 403 });
+  }
+  if (changes.anonymous !== undefined
+    && changes.anonymous !== (current.settings?.anonymous ?? false)
+    && !canChangeAnonymity(current)) {
+    return NextResponse.json({ error: 'Anonymous voting can only be changed between rounds' }, { status: 400 });
+  }
+
+  const session = await updateSettings(sessionId, changes);
+  if (!session) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+  }
+
+  // Broadcast what changed to all clients
+  await broadcastSessionEvent(session, { type: 'settings-changed', settings: session.settings! });
+
+  return NextResponse.json(toPublicSession(session));
+});
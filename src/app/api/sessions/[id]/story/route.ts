@@ -1,27 +1,40 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { updateStory, getSession } from '@/lib/sessionManager';
-import { pusher } from '@/lib/pusher-server';
+import { updateStory, getSession, canControlRound, toPublicSession } from '@/lib/sessionManager';
+import { handleSessionBusy } from '@/lib/apiErrors';
+import { broadcastSessionEvent } from '@/lib/realtime-server';
 
-export async function POST(
+export const POST = handleSessionBusy(async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id: sessionId } = await params;
-  const { story, storyLocked } = await request.json();
+  const { story, storyLocked, ownerToken } = await request.json();
 
   if (typeof story !== 'string') {
     return NextResponse.json({ error: 'Story is required' }, { status: 400 });
   }
 
-  const success = await updateStory(sessionId, story, storyLocked ?? false);
-  if (!success) {
-    return NextResponse.json({ error: 'Failed to update story' }, { status: 400 });
+  const current = await getSession(sessionId);
+  if (!current) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+  }
+  if (!canControlRound(current, ownerToken)) {
+    return NextResponse.json({ error: 'Only the facilitator can change the story' }, { status: 403 });
   }
 
-  const session = await getSession(sessionId);
+  const session = await updateStory(sessionId, story, storyLocked ?? false);
+  if (!session) {
+    return NextResponse.json({ error: 'Failed to update story' }, { status: 400 });
+  }
 
-  // Broadcast updated state to all clients
-  await pusher.trigger(`session-${sessionId}`, 'session-state', session);
+  // Broadcast what changed to all clients
+  await broadcastSessionEvent(session, {
+    type: 'story-changed',
+    story: session.story,
+    storyLocked: session.storyLocked,
+    currentBacklogItemId: session.currentBacklogItemId,
+    round: session.round ?? 1,
+  });
 
-  return NextResponse.json(session);
-}
+  return NextResponse.json(toPublicSession(session));
+});
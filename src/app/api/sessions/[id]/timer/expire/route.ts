@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { expireTimer, getSession, isParticipant, getRevealedEvent, toPublicSession } from '@/lib/sessionManager';
+import { handleSessionBusy } from '@/lib/apiErrors';
+import { broadcast, broadcastSessionEvent } from '@/lib/realtime-server';
+import type { BellEvent } from '@/lib/realtime';
+
+/**
+ * Ends the voting timer when it has run out: reveals the votes or rings the
+ * bell, as the timer was set to. Every browser calls this when its countdown
+ * reaches zero; only the first call that the server agrees is due acts.
+ * Body: { participantId, participantToken }
+ */
+export const POST = handleSessionBusy(async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: sessionId } = await params;
+  const { participantId, participantToken } = await request.json();
+
+  const current = await getSession(sessionId);
+  if (!current) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+  }
+  if (!isParticipant(current, participantId, participantToken)) {
+    return NextResponse.json({ error: 'Invalid participant token' }, { status: 403 });
+  }
+
+  const result = await expireTimer(sessionId);
+  if (!result) {
+    return NextResponse.json({ error: 'No timer has run out' }, { status: 400 });
+  }
+  const { session, timer } = result;
+
+  // Broadcast what changed to all clients
+  if (timer.onExpire === 'reveal') {
+    await broadcastSessionEvent(session, getRevealedEvent(session));
+  } else {
+    await broadcastSessionEvent(session, { type: 'timer-changed' });
+    // The same event the bell button sends (see /api/sessions/[id]/bell)
+    const bell: BellEvent = { source: 'timer', timestamp: Date.now() };
+    await broadcast(sessionId, 'bell', bell);
+  }
+
+  return NextResponse.json(toPublicSession(session));
+});
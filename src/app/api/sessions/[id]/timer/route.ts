@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { startTimer, stopTimer, toPublicSession } from '@/lib/sessionManager';
+import { checkSessionAccess, handleSessionBusy } from '@/lib/apiErrors';
+import { broadcastSessionEvent } from '@/lib/realtime-server';
+import { MAX_TIMER_DURATION } from '@/types/poker';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const TIMER_ACCESS = { facilitatorAction: 'run the timer' };
+
+/**
+ * Starts the voting timer.
+ * Body: { duration: seconds, onExpire: 'reveal' | 'bell', ownerToken? }
+ */
+export const POST = handleSessionBusy(async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id: sessionId } = await params;
+  const { duration, onExpire, ownerToken } = await request.json();
+
+  if (!Number.isInteger(duration) || duration < 1 || duration > MAX_TIMER_DURATION) {
+    return NextResponse.json(
+      { error: `duration must be a whole number of seconds from 1 to ${MAX_TIMER_DURATION}` },
+      { status: 400 }
+    );
+  }
+  if (onExpire !== 'reveal' && onExpire !== 'bell') {
+    return NextResponse.json({ error: 'onExpire must be "reveal" or "bell"' }, { status: 400 });
+  }
+
+  const denied = await checkSessionAccess(sessionId, { ownerToken }, TIMER_ACCESS);
+  if (denied) return denied;
+
+  const session = await startTimer(sessionId, duration, onExpire);
+  if (!session) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+  }
+
+  // Broadcast what changed to all clients
+  await broadcastSessionEvent(session, { type: 'timer-changed', timer: session.timer });
+
+  return NextResponse.json(toPublicSession(session));
+});
+
+/**
+ * Stops the voting timer early.
+ * Body (optional): { ownerToken }
+ */
+export const DELETE = handleSessionBusy(async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id: sessionId } = await params;
+  // Body is optional: it only carries the owner token
+  const { ownerToken } = await request.json().catch(() => ({}));
+
+  const denied = await checkSessionAccess(sessionId, { ownerToken }, TIMER_ACCESS);
+  if (denied) return denied;
+
+  const session = await stopTimer(sessionId);
+  if (!session) {
+    return NextResponse.json({ error: 'No timer is running' }, { status: 400 });
+  }
+
+  // Broadcast what changed to all clients
+  await broadcastSessionEvent(session, { type: 'timer-changed' });
+
+  return NextResponse.json(toPublicSession(session));
+});
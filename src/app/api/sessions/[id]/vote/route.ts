@@ -1,27 +1,52 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { vote, getSession } from '@/lib/sessionManager';
-import { pusher } from '@/lib/pusher-server';
+import { vote, areVotesVisible, getRevealedEvent, getSession, isParticipant, toPublicSession } from '@/lib/sessionManager';
+import { handleSessionBusy } from '@/lib/apiErrors';
+import { broadcastSessionEvent, getPresentParticipantIds } from '@/lib/realtime-server';
+import { isPresenceEnabled } from '@/lib/realtime';
 
-export async function POST(
+export const POST = handleSessionBusy(async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id: sessionId } = await params;
-  const { participantId, vote: voteValue } = await request.json();
+  const { participantId, vote: voteValue, participantToken } = await request.json();
 
   if (!participantId) {
     return NextResponse.json({ error: 'ParticipantId is required' }, { status: 400 });
   }
 
-  const success = await vote(sessionId, participantId, voteValue);
-  if (!success) {
-    return NextResponse.json({ error: 'Failed to vote' }, { status: 400 });
+  // Only the participant themselves (holding their token) can act as them
+  const current = await getSession(sessionId);
+  if (!current) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+  }
+  if (!isParticipant(current, participantId, participantToken)) {
+    return NextResponse.json({ error: 'Invalid participant token' }, { status: 403 });
   }
 
-  const session = await getSession(sessionId);
+  // Auto-reveal waits for online voters: with presence on, that's who is connected
+  const onlineIds = isPresenceEnabled() ? await getPresentParticipantIds(sessionId) : undefined;
+
+  const session = await vote(sessionId, participantId, voteValue, onlineIds);
+  if (!session) {
+    return NextResponse.json({ error: 'Failed to vote' }, { status: 400 });
+  }
 
-  // Broadcast updated state to all clients
-  await pusher.trigger(`session-${sessionId}`, 'session-state', session);
+  if (session.revealed && !current.revealed) {
+    // This vote auto-revealed the round: broadcast the reveal to all
+    // clients (it carries this vote too)
+    await broadcastSessionEvent(session, getRevealedEvent(session));
+  } else {
+    // Broadcast what changed to all clients - the card itself only once
+    // revealed (and never in anonymous sessions), so nobody can anchor on it
+    await broadcastSessionEvent(session, {
+      type: 'vote-cast',
+      participantId,
+      hasVoted: (voteValue ?? null) !== null,
+      ...(areVotesVisible(session) && { vote: voteValue ?? null }),
+      autoRevealAt: session.autoRevealAt,
+    });
+  }
 
-  return NextResponse.json(session);
-}
+  return NextResponse.json(toPublicSession(session));
+});
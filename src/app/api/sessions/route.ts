@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createSession, getSession } from '@/lib/sessionManager';
+import { createSession, addCustomScale, getPublicSession } from '@/lib/sessionManager';
+import { validateScaleDefinition } from '@/lib/scales';
+import { generateToken, hashToken } from '@/lib/tokens';
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
@@ -9,7 +11,7 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: 'Session ID is required' }, { status: 400 });
   }
 
-  const session = await getSession(id);
+  const session = await getPublicSession(id);
   if (!session) {
     return NextResponse.json({ error: 'Session not found' }, { status: 404 });
   }
@@ -19,19 +21,45 @@ export async function GET(request: NextRequest) {
     name: session.name,
     participants: session.participants,
     revealed: session.revealed,
+    story: session.story,
+    storyLocked: session.storyLocked,
+    votingScale: session.votingScale,
+    customScales: session.customScales,
+    history: session.history ?? [],
+    rounds: session.rounds ?? [],
+    currentRoundId: session.currentRoundId,
+    backlog: session.backlog ?? [],
+    currentBacklogItemId: session.currentBacklogItemId,
+    round: session.round ?? 1,
+    autoRevealAt: session.autoRevealAt,
+    timer: session.timer,
+    settings: session.settings,
+    version: session.version,   // Lets clients resume applying session events from here
   });
 }
 
 export async function POST(request: NextRequest) {
   const body = await request.json();
-  const { name } = body;
+  const { name, customScale } = body;
 
   if (!name || typeof name !== 'string') {
     return NextResponse.json({ error: 'Session name is required' }, { status: 400 });
   }
 
+  // Optional custom scale to start the session with
+  const scale = customScale !== undefined ? validateScaleDefinition(customScale) : null;
+  if (customScale !== undefined && !scale) {
+    return NextResponse.json({ error: 'Invalid custom scale' }, { status: 400 });
+  }
+
+  // The creator becomes the facilitator. The token is only returned here,
+  // so the creator's browser has to keep it (see storeOwnerToken).
   const id = crypto.randomUUID();
-  await createSession(id, name);
+  const ownerToken = generateToken();
+  await createSession(id, name, hashToken(ownerToken));
+  if (scale) {
+    await addCustomScale(id, scale);
+  }
 
-  return NextResponse.json({ id, name });
+  return NextResponse.json({ id, name, ownerToken });
 }
@@ -2,6 +2,9 @@
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
+import { ScaleBuilder } from '@/components/ScaleBuilder';
+import { EMPTY_SCALE_DRAFT, parseScaleDraft, type ScaleDraft } from '@/lib/scales';
+import { storeOwnerToken } from '@/lib/storage';
 
 const jsonLd = {
   '@context': 'https://schema.org',
@@ -29,22 +32,29 @@ const jsonLd = {
 export default function Home() {
   const [sessionName, setSessionName] = useState('');
   const [isCreating, setIsCreating] = useState(false);
+  const [useCustomScale, setUseCustomScale] = useState(false);
+  const [scaleDraft, setScaleDraft] = useState<ScaleDraft>(EMPTY_SCALE_DRAFT);
   const router = useRouter();
 
+  const customScale = useCustomScale ? parseScaleDraft(scaleDraft) : null;
+
   const createSession = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!sessionName.trim()) return;
+    if (useCustomScale && !customScale) return;
 
     setIsCreating(true);
     try {
       const response = await fetch('/api/sessions', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ name: sessionName }),
+        body: JSON.stringify({ name: sessionName, ...(customScale && { customScale }) }),
       });
 
       if (response.ok) {
-        const { id } = await response.json();
+        const { id, ownerToken } = await response.json();
+        // Keep the owner token so this browser can join as facilitator
+        storeOwnerToken(id, ownerToken);
         router.push(`/session/${id}`);
       }
     } catch (error) {
@@ -84,9 +94,22 @@ export default function Home() {
               required
             />
           </div>
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium">
+              <input
+                type="checkbox"
+                checked={useCustomScale}
+                onChange={(e) => setUseCustomScale(e.target.checked)}
+              />
+              Use a custom voting scale
+            </label>
+          </div>
+          {useCustomScale && (
+            <ScaleBuilder draft={scaleDraft} onChange={setScaleDraft} idPrefix="new-scale" />
+          )}
           <button
             type="submit"
-            disabled={isCreating || !sessionName.trim()}
+            disabled={isCreating || !sessionName.trim() || (useCustomScale && !customScale)}
             className="w-full py-3 px-4 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-medium rounded-lg transition-colors"
           >
             {isCreating ? 'Creating...' : 'Create Session'}
@@ -1,20 +1,35 @@
 'use client';
 
-import { useEffect, useState, useCallback, useRef, useMemo } from 'react';
+import { useEffect, useState, useCallback, useRef } from 'react';
 import { useParams } from 'next/navigation';
-import { getPusherClient } from '@/lib/pusher-client';
-import { VOTING_SCALES, SCALE_ORDER, type VotingScale, type Participant, type SessionState, type HistoryEntry, type ParticipantRole } from '@/types/poker';
-import { getResultType, getConsensusVote, isParticipantOnline, getLastOccurrenceIds } from '@/lib/votingUtils';
-import { getStoredParticipant, storeParticipant, getStorageKey } from '@/lib/storage';
+import { subscribeToSession, subscribeToPresence, type RealtimeChannel } from '@/lib/realtime-client';
+import { isPresenceEnabled, type BellEvent } from '@/lib/realtime';
+import { applySessionEvent } from '@/lib/sessionEvents';
+import { DEFAULT_VOTING_SCALE, DEFAULT_SESSION_SETTINGS, type Participant, type SessionState, type SessionEvent, type SessionSettings, type ParticipantRole, type SuggestionBasis, type SuggestionRounding, type TimerExpiryAction } from '@/types/poker';
+import { getResultType, getPreviousRounds, getOutliers, hasVoted, isParticipantOnline } from '@/lib/votingUtils';
+import { getStoredParticipant, storeParticipant, removeStoredParticipant, getStorageKey, getOwnerToken } from '@/lib/storage';
 import { getRandomAvatar, getNextAvatar } from '@/lib/avatars';
-import { BellIcon, ExitIcon, CopyIcon, EyeIcon, ClipboardIcon } from '@/components/icons';
+import { getScale, getScaleOrder, parseScaleDraft, EMPTY_SCALE_DRAFT, type ScaleDraft } from '@/lib/scales';
+import { BellIcon, ExitIcon, CopyIcon, EyeIcon, ClipboardIcon, FlagIcon } from '@/components/icons';
 import { ParticipantCard } from '@/components/ParticipantCard';
 import { VoteSummary } from '@/components/VoteSummary';
-import type { Channel } from 'pusher-js';
+import { ScaleBuilder } from '@/components/ScaleBuilder';
+import { HistoryPanel } from '@/components/HistoryPanel';
+import { MeetingSummary } from '@/components/MeetingSummary';
+import { BacklogPanel } from '@/components/BacklogPanel';
+import { TimerControl } from '@/components/TimerControl';
+import { VoteNotes } from '@/components/VoteNotes';
+import { getNextBacklogItem, moveBacklogItem } from '@/lib/backlog';
+import type { ImportFormat, ImportReport } from '@/lib/backlogImport';
+import { EXPORT_FORMATS } from '@/lib/export';
+import { fetchWithRetry } from '@/lib/fetchWithRetry';
 
 // Heartbeat interval in ms (10 seconds)
 const HEARTBEAT_INTERVAL = 10000;
 
+// Countdowns the facilitator can pick for auto-reveal, in seconds
+const AUTO_REVEAL_COUNTDOWNS = [0, 3, 5, 10];
+
 export default function SessionPage() {
   const params = useParams();
   const sessionId = params.id as string;
@@ -23,6 +38,7 @@ export default function SessionPage() {
   const [participantName, setParticipantName] = useState('');
   const [selectedRole, setSelectedRole] = useState<ParticipantRole>('voter');
   const [joined, setJoined] = useState(false);
+  const [autoRevealSeconds, setAutoRevealSeconds] = useState<number | null>(null);  // Auto-reveal countdown, while one runs
   const [myId, setMyId] = useState<string | null>(null);
   const [myRole, setMyRole] = useState<ParticipantRole>('voter');
   const [selectedCard, setSelectedCard] = useState<string | null>(null);
@@ -30,116 +46,128 @@ export default function SessionPage() {
   const [isShaking, setIsShaking] = useState(false);
   const [story, setStory] = useState('');
   const [storyLocked, setStoryLocked] = useState(false);
-  const [history, setHistory] = useState<HistoryEntry[]>([]);
   const [customVote, setCustomVote] = useState('');
-  const [votingScale, setVotingScale] = useState<VotingScale>('fibonacci');
   const [linkCopied, setLinkCopied] = useState(false);
   const [myAvatar, setMyAvatar] = useState<string>('');
-  const channelRef = useRef<Channel | null>(null);
+  const [showScaleBuilder, setShowScaleBuilder] = useState(false);
+  const [scaleDraft, setScaleDraft] = useState<ScaleDraft>(EMPTY_SCALE_DRAFT);
+  const [ownerToken, setOwnerToken] = useState<string | null>(null);
+  const [onlineIds, setOnlineIds] = useState<ReadonlySet<string> | null>(null);  // Who's connected, when presence is live
+  const [presenceFailed, setPresenceFailed] = useState(false);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const sessionRef = useRef<SessionState | null>(null);  // Latest session, for applying events outside of render
+  const isResyncingRef = useRef(false);
   const hasAttemptedRejoin = useRef(false);
   const myIdRef = useRef<string | null>(null);
+  const participantTokenRef = useRef<string | null>(null);  // Proves to the API that we are myId
   const bellAudioRef = useRef<HTMLAudioElement | null>(null);
   const participantNameRef = useRef<string | null>(null);
   const myAvatarRef = useRef<string>('');
-  const storyRef = useRef<string>('');
-  const lastAutoSavedStoryRef = useRef<string>('');
 
-  // Keep storyRef in sync with story state
+  // The scale is shared by the whole session, so it comes from server state
+  const votingScale = session?.votingScale ?? DEFAULT_VOTING_SCALE;
+  const activeScale = getScale(votingScale, session?.customScales);
+
+  // History is stored on the session so everyone sees the same list
+  const history = session?.history ?? [];
+  const backlog = session?.backlog ?? [];
+
+  // Who held the lowest and highest cards of the revealed round (as the server recorded it)
+  const currentRound = session?.revealed ? session.rounds?.find(r => r.id === session.currentRoundId) : undefined;
+  const outliers = getOutliers(currentRound?.votes ?? [], activeScale);
+
+  // In anonymous sessions nobody's card is sent, even after the reveal:
+  // the results come from the round record, which has the cards without names
+  const isAnonymous = session?.settings?.anonymous ?? false;
+  const revealedVotes = isAnonymous
+    ? currentRound?.votes.map(v => v.vote) ?? []
+    : session?.participants
+        .filter(p => p.role === 'voter')
+        .map(p => p.vote)
+        .filter((v): v is string => v !== null) ?? [];
+
+  // Whoever created the session holds the owner token. When the session is
+  // facilitator-only, nobody else may reveal, reset, or change the story or scale
+  // (the API enforces this too - hiding the controls is just for clarity).
+  const isOwner = ownerToken !== null;
+  const canControl = !session?.settings?.facilitatorOnly || isOwner;
+
+  // The story a new round would start on (see reset() on the server)
+  const nextBacklogItem = getNextBacklogItem(session?.backlog);
+
+  // Keep the ref in step with optimistic updates made through setSession
   useEffect(() => {
-    storyRef.current = story;
-  }, [story]);
-
-  // =============================================================================
-  // MEMOIZED COMPUTATIONS
-  // =============================================================================
-  // useMemo prevents expensive re-calculations on every render.
-  // These values only recompute when their dependencies change.
+    sessionRef.current = session;
+  }, [session]);
 
   /**
-   * Memoize which history entries should be highlighted.
-   * Only recomputes when the history array changes (new items added/removed).
-   * Without memoization, this Set would be rebuilt on every render.
+   * Takes a new session state from the server and syncs the local UI with it.
    */
-  const lastOccurrenceIds = useMemo(
-    () => getLastOccurrenceIds(history),
-    [history]
-  );
-
-  /**
-   * Memoize the reversed history for display.
-   * We show newest items first, but store oldest first for easier appending.
-   * Creating a new reversed array on every render would cause unnecessary work.
-   */
-  const reversedHistory = useMemo(
-    () => [...history].reverse(),
-    [history]
-  );
+  const applyServerState = useCallback((state: SessionState) => {
+    sessionRef.current = state;
+    setSession(state);
+    // Sync selectedCard from session state if we have an ID. Until the
+    // reveal our own card is hidden too, so keep the one we picked.
+    if (myIdRef.current) {
+      const me = state.participants.find(p => p.id === myIdRef.current);
+      if (me && (me.vote !== null || !hasVoted(me))) {
+        setSelectedCard(me.vote);
+      }
+    }
+    // Sync story from session state only when it's locked (set)
+    // This prevents overwriting a user's in-progress edits
+    if (state.storyLocked !== undefined) {
+      setStoryLocked(state.storyLocked);
+      // Only sync the story value when it's been set (locked) or cleared
+      if (state.storyLocked || state.story === '') {
+        setStory(state.story ?? '');
+      }
+    }
+  }, []);
 
   useEffect(() => {
-    const pusher = getPusherClient();
-    const channel = pusher.subscribe(`session-${sessionId}`);
+    const channel = subscribeToSession(sessionId);
     channelRef.current = channel;
 
-    channel.bind('session-state', (state: SessionState) => {
-      setSession(prev => {
-        // Auto-save to history on consensus if story name is entered
-        if (state.revealed && !prev?.revealed) {
-          const consensusVote = getConsensusVote(state.participants);
-          // IMPORTANT: Use state.story from server, NOT storyRef.current
-          // The storyRef might not be updated yet due to Pusher event ordering.
-          // The server always has the authoritative story value at reveal time.
-          const currentStory = (state.story ?? storyRef.current).trim();
-          if (consensusVote && currentStory && currentStory !== lastAutoSavedStoryRef.current) {
-            lastAutoSavedStoryRef.current = currentStory;
-            const entry: HistoryEntry = {
-              id: crypto.randomUUID(),
-              story: currentStory,
-              vote: consensusVote,
-              timestamp: Date.now(),
-            };
-            setHistory(h => {
-              const newHistory = [...h, entry];
-              // Keep only the last 8 items to prevent overflow
-              if (newHistory.length > 8) {
-                return newHistory.slice(-8);
-              }
-              return newHistory;
-            });
-            setStory('');
-            setStoryLocked(false);
-            setCustomVote('');
-            // Clear story on server
-            fetch(`/api/sessions/${sessionId}/story`, {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ story: '', storyLocked: false }),
-            }).catch(console.error);
-          }
-        }
-        return state;
-      });
-      // Sync selectedCard from session state if we have an ID
-      if (myIdRef.current) {
-        const me = state.participants.find(p => p.id === myIdRef.current);
-        if (me) {
-          setSelectedCard(me.vote);
-        }
-      }
-      // Sync story from session state only when it's locked (set)
-      // This prevents overwriting a user's in-progress edits
-      if (state.storyLocked !== undefined) {
-        setStoryLocked(state.storyLocked);
-        // Only sync the story value when it's been set (locked) or cleared
-        if (state.storyLocked || state.story === '') {
-          setStory(state.story ?? '');
-          storyRef.current = state.story ?? '';
-        }
+    // The session creator can join as facilitator (and keeps control whatever role they pick)
+    const storedOwnerToken = getOwnerToken(sessionId);
+    if (storedOwnerToken) {
+      setOwnerToken(storedOwnerToken);
+    }
+
+    // Re-fetches the whole session when we've missed an event
+    const resync = () => {
+      if (isResyncingRef.current) return;
+      isResyncingRef.current = true;
+      fetch(`/api/sessions?id=${sessionId}`)
+        .then(res => res.ok ? res.json() : null)
+        .then(data => {
+          if (data) applyServerState(data);
+        })
+        .catch(console.error)
+        .finally(() => {
+          isResyncingRef.current = false;
+        });
+    };
+
+    channel.bind<SessionEvent>('session-event', (event) => {
+      // NOTE: Auto-saving consensus results to history happens on the server
+      // when votes are revealed, so every client just applies the events.
+      const current = sessionRef.current;
+      // Nothing to apply events to yet - the fetch below loads the session
+      if (!current) return;
+
+      const next = applySessionEvent(current, event);
+      if (!next) {
+        resync();
+      } else if (next !== current) {
+        applyServerState(next);
       }
     });
 
-    channel.bind('bell', (data: { from: string; timestamp: number }) => {
-      // Don't play bell for the person who rang it
-      if (data.from === participantNameRef.current) return;
+    channel.bind<BellEvent>('bell', (data) => {
+      // Don't play bell for the person who rang it (the timer's rings for everyone)
+      if (data.source !== 'timer' && data.from === participantNameRef.current) return;
 
       // Play bell sound
       if (bellAudioRef.current) {
@@ -158,8 +186,8 @@ export default function SessionPage() {
     fetch(`/api/sessions?id=${sessionId}`)
       .then(res => res.ok ? res.json() : null)
       .then(data => {
-        if (data && !session) {
-          setSession(data);
+        if (data && !sessionRef.current) {
+          applyServerState(data);
         }
       })
       .catch(() => {
@@ -173,7 +201,7 @@ export default function SessionPage() {
       if (stored) {
         // Use stored avatar or generate a random one if not present
         const avatar = stored.avatar || getRandomAvatar();
-        fetch(`/api/sessions/${sessionId}/join`, {
+        fetchWithRetry(`/api/sessions/${sessionId}/join`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
@@ -181,21 +209,33 @@ export default function SessionPage() {
             name: stored.name,
             role: stored.role,
             avatar,
+            ownerToken: storedOwnerToken,
+            participantToken: stored.participantToken,
           }),
         })
-          .then(res => res.json())
-          .then((state: SessionState) => {
-            setSession(state);
+          .then(res => {
+            // 403: our stored token doesn't match, so we can't be this participant any more
+            if (res.status === 403) removeStoredParticipant(sessionId);
+            if (!res.ok) throw new Error(`Rejoin failed with status ${res.status}`);
+            return res.json();
+          })
+          .then(({ session: state, participantToken, vote: myVote }: { session: SessionState; participantToken: string; vote: string | null }) => {
+            applyServerState(state);
             setMyId(stored.participantId);
             myIdRef.current = stored.participantId;
+            participantTokenRef.current = participantToken;
+            // Older stored data has no token yet - keep the one we were just given
+            if (participantToken !== stored.participantToken) {
+              storeParticipant(sessionId, { ...stored, participantToken });
+            }
             participantNameRef.current = stored.name;
             setMyRole(stored.role);
             setJoined(true);
-            // Restore vote highlight and avatar
+            // Restore vote highlight (only we get our hidden vote back) and avatar
             const me = state.participants.find(p => p.id === stored.participantId);
             if (me) {
-              if (me.vote) {
-                setSelectedCard(me.vote);
+              if (myVote) {
+                setSelectedCard(myVote);
               }
               setMyAvatar(me.avatar || avatar);
               myAvatarRef.current = me.avatar || avatar;
@@ -208,23 +248,47 @@ export default function SessionPage() {
     }
 
     return () => {
-      channel.unbind_all();
-      pusher.unsubscribe(`session-${sessionId}`);
+      channel.unsubscribe();
     };
-  }, [sessionId]);
+  }, [sessionId, applyServerState]);
+
+  // With presence enabled, the realtime transport tells us who's connected -
+  // joins and leaves show up instantly instead of after missed heartbeats
+  useEffect(() => {
+    if (!joined || !myId || !isPresenceEnabled()) return;
+    const participantToken = participantTokenRef.current;
+    if (!participantToken) return;
+
+    setPresenceFailed(false);
+    const leavePresence = subscribeToPresence(sessionId, { participantId: myId, participantToken }, {
+      onChange: (online) => setOnlineIds(new Set(online)),
+      onError: () => {
+        // Heartbeats take over (see below)
+        setOnlineIds(null);
+        setPresenceFailed(true);
+      },
+    });
+
+    return () => {
+      leavePresence();
+      setOnlineIds(null);
+    };
+  }, [sessionId, joined, myId]);
 
   // Send heartbeat every 10 seconds when joined
+  // (only a fallback when presence is enabled - e.g. if its connection was refused)
   useEffect(() => {
     if (!joined || !myId) return;
+    if (isPresenceEnabled() && !presenceFailed) return;
 
     const sendHeartbeat = () => {
       // Check ref to ensure we haven't left the session
       if (!myIdRef.current) return;
 
-      fetch(`/api/sessions/${sessionId}/heartbeat`, {
+      fetchWithRetry(`/api/sessions/${sessionId}/heartbeat`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ participantId: myIdRef.current }),
+        body: JSON.stringify({ participantId: myIdRef.current, participantToken: participantTokenRef.current }),
       }).catch(console.error);
     };
 
@@ -234,7 +298,38 @@ export default function SessionPage() {
     const interval = setInterval(sendHeartbeat, HEARTBEAT_INTERVAL);
 
     return () => clearInterval(interval);
-  }, [sessionId, joined, myId]);
+  }, [sessionId, joined, myId, presenceFailed]);
+
+  // Auto-reveal countdown: tick while one is running, and ask the server to
+  // reveal once it ends. Every browser asks; the server reveals only once.
+  const autoRevealAt = session?.revealed ? undefined : session?.autoRevealAt;
+  useEffect(() => {
+    if (!joined || autoRevealAt === undefined) {
+      setAutoRevealSeconds(null);
+      return;
+    }
+
+    let lastRequest = 0;
+    const tick = () => {
+      const remaining = autoRevealAt - Date.now();
+      setAutoRevealSeconds(Math.max(0, Math.ceil(remaining / 1000)));
+
+      // Asked again each second in case our clock runs ahead of the server's
+      if (remaining <= 0 && Date.now() - lastRequest >= 1000) {
+        lastRequest = Date.now();
+        fetchWithRetry(`/api/sessions/${sessionId}/auto-reveal`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ participantId: myIdRef.current, participantToken: participantTokenRef.current }),
+        }).catch(console.error);
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, 250);
+
+    return () => clearInterval(interval);
+  }, [sessionId, joined, autoRevealAt]);
 
   const joinSession = useCallback(async (e: React.FormEvent) => {
     e.preventDefault();
@@ -244,7 +339,7 @@ export default function SessionPage() {
     const avatar = getRandomAvatar();
 
     try {
-      const res = await fetch(`/api/sessions/${sessionId}/join`, {
+      const res = await fetchWithRetry(`/api/sessions/${sessionId}/join`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -252,12 +347,18 @@ export default function SessionPage() {
           name: participantName.trim(),
           role: selectedRole,
           avatar,
+          ownerToken,
         }),
       });
 
       if (!res.ok) {
         throw new Error('Failed to join session');
       }
+      const { session: joinedState, participantToken } = await res.json();
+      // Use the state we joined into, unless an event has already brought us further
+      if ((joinedState.version ?? 0) > (sessionRef.current?.version ?? -1)) {
+        applyServerState(joinedState);
+      }
 
       // Store participant info in localStorage
       storeParticipant(sessionId, {
@@ -265,10 +366,12 @@ export default function SessionPage() {
         role: selectedRole,
         participantId,
         avatar,
+        participantToken,
       });
 
       setMyId(participantId);
       myIdRef.current = participantId;
+      participantTokenRef.current = participantToken;
       participantNameRef.current = participantName.trim();
       setMyAvatar(avatar);
       myAvatarRef.current = avatar;
@@ -278,7 +381,7 @@ export default function SessionPage() {
       setError('Failed to join session');
       console.error(err);
     }
-  }, [sessionId, participantName, selectedRole]);
+  }, [sessionId, participantName, selectedRole, ownerToken, applyServerState]);
 
   const vote = useCallback(async (value: string) => {
     if (!joined || !myId) return;
@@ -293,16 +396,16 @@ export default function SessionPage() {
       return {
         ...prev,
         participants: prev.participants.map(p =>
-          p.id === myId ? { ...p, vote: newValue } : p
+          p.id === myId ? { ...p, vote: newValue, hasVoted: newValue !== null } : p
         ),
       };
     });
 
     try {
-      await fetch(`/api/sessions/${sessionId}/vote`, {
+      await fetchWithRetry(`/api/sessions/${sessionId}/vote`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ participantId: myId, vote: newValue }),
+        body: JSON.stringify({ participantId: myId, vote: newValue, participantToken: participantTokenRef.current }),
       });
     } catch (err) {
       console.error('Failed to vote:', err);
@@ -312,27 +415,30 @@ export default function SessionPage() {
   const revealVotes = useCallback(async () => {
     // NOTE: We intentionally do NOT use optimistic update here.
     //
-    // WHY? The reveal action triggers important side effects:
+    // WHY? The reveal action triggers important side effects on the server:
     // - Auto-save to history when there's consensus
-    // - The auto-save logic in the Pusher handler detects the transition
-    //   by checking `state.revealed && !prev?.revealed`
+    // - Clearing the story once it has been saved
     //
-    // If we optimistically set revealed=true, the Pusher handler would
-    // see prev.revealed as already true, breaking the transition detection.
+    // If we optimistically set revealed=true, we'd briefly show results
+    // for a story that the server is about to move into history.
     //
-    // The ~100ms wait for Pusher broadcast is acceptable here since reveal
+    // The ~100ms wait for the realtime broadcast is acceptable here since reveal
     // is a deliberate action (not repeated rapidly like voting).
     try {
-      await fetch(`/api/sessions/${sessionId}/reveal`, {
+      await fetchWithRetry(`/api/sessions/${sessionId}/reveal`, {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ownerToken }),
       });
     } catch (err) {
       console.error('Failed to reveal:', err);
     }
-  }, [sessionId]);
+  }, [sessionId, ownerToken]);
 
   const resetVotes = useCallback(async () => {
     // Clear local UI state immediately
+    // (if the session has a backlog, the server loads its next story and
+    // the reset event brings it to everyone, us included)
     setSelectedCard(null);
     setStory('');
     setStoryLocked(false);
@@ -350,17 +456,179 @@ export default function SessionPage() {
         story: '',
         storyLocked: false,
         // Clear all votes from participants
-        participants: prev.participants.map(p => ({ ...p, vote: null })),
+        participants: prev.participants.map(p => ({ ...p, vote: null, hasVoted: false })),
       };
     });
 
     try {
-      await fetch(`/api/sessions/${sessionId}/reset`, {
+      await fetchWithRetry(`/api/sessions/${sessionId}/reset`, {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ownerToken }),
       });
     } catch (err) {
       console.error('Failed to reset:', err);
     }
+  }, [sessionId, ownerToken]);
+
+  const revoteVotes = useCallback(async () => {
+    // Same story, another round: only the votes go
+    setSelectedCard(null);
+    setCustomVote('');
+
+    // OPTIMISTIC UPDATE: Hide the results and clear voters' votes right away
+    // (the story stays, and the revealed round is kept for comparison)
+    setSession(prev => {
+      if (!prev) return prev;
+      return {
+        ...prev,
+        revealed: false,
+        round: (prev.round ?? 1) + 1,
+        participants: prev.participants.map(p => p.role === 'voter' ? { ...p, vote: null, hasVoted: false } : p),
+      };
+    });
+
+    try {
+      await fetchWithRetry(`/api/sessions/${sessionId}/revote`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ownerToken }),
+      });
+    } catch (err) {
+      console.error('Failed to start re-vote:', err);
+    }
+  }, [sessionId, ownerToken]);
+
+  const changeScale = useCallback(async (direction: 1 | -1) => {
+    const scaleOrder = getScaleOrder(session?.customScales);
+    const currentIndex = scaleOrder.indexOf(votingScale);
+    const newScale = scaleOrder[(currentIndex + direction + scaleOrder.length) % scaleOrder.length];
+    setSelectedCard(null);
+
+    // OPTIMISTIC UPDATE: Switch scale and clear votes, mirroring the server
+    setSession(prev => {
+      if (!prev) return prev;
+      return {
+        ...prev,
+        votingScale: newScale,
+        participants: prev.participants.map(p => ({ ...p, vote: null, hasVoted: false })),
+      };
+    });
+
+    try {
+      await fetchWithRetry(`/api/sessions/${sessionId}/scale`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scale: newScale, ownerToken }),
+      });
+    } catch (err) {
+      console.error('Failed to change scale:', err);
+    }
+  }, [sessionId, votingScale, session?.customScales, ownerToken]);
+
+  const addCustomScale = useCallback(async (e: React.FormEvent) => {
+    e.preventDefault();
+    const customScale = parseScaleDraft(scaleDraft);
+    if (!customScale) return;
+
+    setSelectedCard(null);
+    setShowScaleBuilder(false);
+    setScaleDraft(EMPTY_SCALE_DRAFT);
+
+    // No optimistic update: the scale id is generated on the server,
+    // so we wait for the realtime broadcast to switch to it
+    try {
+      await fetchWithRetry(`/api/sessions/${sessionId}/scale`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ customScale, ownerToken }),
+      });
+    } catch (err) {
+      console.error('Failed to add scale:', err);
+    }
+  }, [sessionId, scaleDraft, ownerToken]);
+
+  const changeSettings = useCallback(async (changes: Partial<SessionSettings>) => {
+    // OPTIMISTIC UPDATE: Apply the settings locally right away
+    setSession(prev => prev && {
+      ...prev,
+      settings: { ...DEFAULT_SESSION_SETTINGS, ...prev.settings, ...changes },
+    });
+
+    try {
+      await fetchWithRetry(`/api/sessions/${sessionId}/settings`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...changes, ownerToken }),
+      });
+    } catch (err) {
+      console.error('Failed to update settings:', err);
+    }
+  }, [sessionId, ownerToken]);
+
+  const cancelAutoReveal = useCallback(async () => {
+    // OPTIMISTIC UPDATE: Stop the countdown locally right away
+    setSession(prev => prev && { ...prev, autoRevealAt: undefined });
+
+    try {
+      await fetchWithRetry(`/api/sessions/${sessionId}/auto-reveal`, {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ participantId: myIdRef.current, participantToken: participantTokenRef.current }),
+      });
+    } catch (err) {
+      console.error('Failed to cancel auto-reveal:', err);
+    }
+  }, [sessionId]);
+
+  const startTimer = useCallback(async (duration: number, onExpire: TimerExpiryAction) => {
+    // No optimistic update: the server sets the end time everyone counts down to
+    try {
+      await fetchWithRetry(`/api/sessions/${sessionId}/timer`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ duration, onExpire, ownerToken }),
+      });
+    } catch (err) {
+      console.error('Failed to start timer:', err);
+    }
+  }, [sessionId, ownerToken]);
+
+  const stopTimer = useCallback(async () => {
+    // OPTIMISTIC UPDATE: Stop the countdown locally right away
+    setSession(prev => prev && { ...prev, timer: undefined });
+
+    try {
+      await fetchWithRetry(`/api/sessions/${sessionId}/timer`, {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ownerToken }),
+      });
+    } catch (err) {
+      console.error('Failed to stop timer:', err);
+    }
+  }, [sessionId, ownerToken]);
+
+  const expireTimer = useCallback(() => {
+    // Every browser asks; the server reveals or rings the bell only once
+    fetchWithRetry(`/api/sessions/${sessionId}/timer/expire`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ participantId: myIdRef.current, participantToken: participantTokenRef.current }),
+    }).catch(console.error);
+  }, [sessionId]);
+
+  const explainVote = useCallback(async (text: string) => {
+    // No optimistic update: the server checks we held the lowest or highest card
+    try {
+      await fetchWithRetry(`/api/sessions/${sessionId}/notes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ participantId: myIdRef.current, participantToken: participantTokenRef.current, text }),
+      });
+    } catch (err) {
+      console.error('Failed to post note:', err);
+    }
   }, [sessionId]);
 
   const copyLink = useCallback(() => {
@@ -387,7 +655,7 @@ export default function SessionPage() {
     });
 
     try {
-      await fetch(`/api/sessions/${sessionId}/bell`, {
+      await fetchWithRetry(`/api/sessions/${sessionId}/bell`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ participantName: participantNameRef.current }),
@@ -399,11 +667,13 @@ export default function SessionPage() {
 
   const leaveSession = useCallback(async () => {
     const participantIdToRemove = myId;
+    const participantToken = participantTokenRef.current;
 
     // Clear state immediately to stop heartbeat and prevent race conditions
     setJoined(false);
     setMyId(null);
     myIdRef.current = null;
+    participantTokenRef.current = null;
     participantNameRef.current = null;
     setMyRole('voter');
     setSelectedCard(null);
@@ -417,10 +687,10 @@ export default function SessionPage() {
     // Remove participant from session on server
     if (participantIdToRemove) {
       try {
-        await fetch(`/api/sessions/${sessionId}/leave`, {
+        await fetchWithRetry(`/api/sessions/${sessionId}/leave`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ participantId: participantIdToRemove }),
+          body: JSON.stringify({ participantId: participantIdToRemove, participantToken }),
         });
       } catch (err) {
         console.error('Failed to leave session:', err);
@@ -439,7 +709,7 @@ export default function SessionPage() {
 
     // OPTIMISTIC UPDATE: Update avatar in the participants list immediately
     // Without this, the avatar change wouldn't appear in the participant
-    // cards until Pusher broadcasts the update from the server
+    // cards until the server broadcasts the update
     setSession(prev => {
       if (!prev) return prev;
       return {
@@ -456,55 +726,132 @@ export default function SessionPage() {
       storeParticipant(sessionId, { ...stored, avatar: newAvatar });
     }
 
-    // Sync with server (other participants will see the change via Pusher)
+    // Sync with server (other participants will see the change via the realtime broadcast)
     try {
-      await fetch(`/api/sessions/${sessionId}/avatar`, {
+      await fetchWithRetry(`/api/sessions/${sessionId}/avatar`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ participantId: myId, avatar: newAvatar }),
+        body: JSON.stringify({ participantId: myId, avatar: newAvatar, participantToken: participantTokenRef.current }),
       });
     } catch (err) {
       console.error('Failed to update avatar:', err);
     }
   }, [sessionId, myId, myAvatar]);
 
-  const saveToHistory = useCallback((vote: string) => {
+  const saveToHistory = useCallback(async (vote: string) => {
     if (!story.trim()) return;
 
-    const entry: HistoryEntry = {
-      id: crypto.randomUUID(),
-      story: story.trim(),
-      vote,
-      timestamp: Date.now(),
-    };
-
-    setHistory(prev => {
-      const newHistory = [...prev, entry];
-      // Keep only the last 8 items to prevent overflow
-      if (newHistory.length > 8) {
-        return newHistory.slice(-8);
-      }
-      return newHistory;
-    });
+    const savedStory = story.trim();
     setStory('');
     setStoryLocked(false);
     setCustomVote('');
-    // Clear story on server
-    fetch(`/api/sessions/${sessionId}/story`, {
-      method: 'POST',
+
+    // Save first, then start the next round (reset also clears the story on the server)
+    try {
+      await fetchWithRetry(`/api/sessions/${sessionId}/history`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          story: savedStory,
+          vote,
+          participantId: myIdRef.current,
+          participantToken: participantTokenRef.current,
+          ownerToken,
+        }),
+      });
+    } catch (err) {
+      console.error('Failed to save to history:', err);
+    }
+    resetVotes();
+  }, [story, sessionId, ownerToken, resetVotes]);
+
+  const editHistoryEntry = useCallback((entryId: string, changes: { story: string; vote: string }) => {
+    fetchWithRetry(`/api/sessions/${sessionId}/history/${entryId}`, {
+      method: 'PATCH',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ story: '', storyLocked: false }),
+      body: JSON.stringify({
+        ...changes,
+        participantId: myIdRef.current,
+        participantToken: participantTokenRef.current,
+        ownerToken,
+      }),
     }).catch(console.error);
-    resetVotes();
-  }, [story, sessionId, resetVotes]);
+  }, [sessionId, ownerToken]);
+
+  const deleteHistoryEntry = useCallback((entryId: string) => {
+    // OPTIMISTIC UPDATE: Remove the entry locally right away
+    setSession(prev => prev && {
+      ...prev,
+      history: prev.history?.filter(entry => entry.id !== entryId),
+    });
+
+    fetchWithRetry(`/api/sessions/${sessionId}/history/${entryId}`, {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ participantId: myIdRef.current, participantToken: participantTokenRef.current, ownerToken }),
+    }).catch(console.error);
+  }, [sessionId, ownerToken]);
+
+  // Backlog changes are sent with the owner token (the backlog is a round
+  // control, see canControl) and come back to everyone as a broadcast
+  const sendBacklogChange = useCallback((path: string, method: string, body: object = {}) => {
+    fetchWithRetry(`/api/sessions/${sessionId}/backlog${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...body, ownerToken }),
+    }).catch(console.error);
+  }, [sessionId, ownerToken]);
+
+  const addToBacklog = useCallback((titles: string[]) => {
+    sendBacklogChange('', 'POST', { titles });
+  }, [sendBacklogChange]);
+
+  const importToBacklog = useCallback(async (content: string, format?: ImportFormat): Promise<ImportReport> => {
+    try {
+      const res = await fetchWithRetry(`/api/sessions/${sessionId}/backlog/import`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content, format, ownerToken }),
+      });
+      const report = await res.json();
+      // Errors before parsing (e.g. 403) come back without the row report
+      return { imported: 0, rejected: [], overLimit: 0, ...report };
+    } catch (err) {
+      console.error('Failed to import stories:', err);
+      return { imported: 0, rejected: [], overLimit: 0, error: 'Failed to import stories' };
+    }
+  }, [sessionId, ownerToken]);
+
+  const moveInBacklog = useCallback((itemId: string, index: number) => {
+    // OPTIMISTIC UPDATE: Reorder locally right away
+    setSession(prev => prev && {
+      ...prev,
+      backlog: moveBacklogItem(prev.backlog ?? [], itemId, index) ?? prev.backlog,
+    });
+    sendBacklogChange(`/${itemId}`, 'PATCH', { index });
+  }, [sendBacklogChange]);
+
+  const skipInBacklog = useCallback((itemId: string, skipped: boolean) => {
+    sendBacklogChange(`/${itemId}`, 'PATCH', { skipped });
+  }, [sendBacklogChange]);
+
+  const removeFromBacklog = useCallback((itemId: string) => {
+    sendBacklogChange(`/${itemId}`, 'DELETE');
+  }, [sendBacklogChange]);
+
+  const startBacklogItem = useCallback((itemId: string) => {
+    setSelectedCard(null);
+    setCustomVote('');
+    sendBacklogChange(`/${itemId}/start`, 'POST');
+  }, [sendBacklogChange]);
 
   const updateStoryOnServer = useCallback((newStory: string, locked: boolean) => {
-    fetch(`/api/sessions/${sessionId}/story`, {
+    fetchWithRetry(`/api/sessions/${sessionId}/story`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ story: newStory, storyLocked: locked }),
+      body: JSON.stringify({ story: newStory, storyLocked: locked, ownerToken }),
     }).catch(console.error);
-  }, [sessionId]);
+  }, [sessionId, ownerToken]);
 
   if (!joined) {
     return (
@@ -548,7 +895,7 @@ export default function SessionPage() {
                 <label className="block text-sm font-medium text-[#3c4257] mb-2">
                   Role
                 </label>
-                <div className="grid grid-cols-2 gap-3">
+                <div className={`grid gap-3 ${isOwner ? 'grid-cols-3' : 'grid-cols-2'}`}>
                   <label
                     className={`relative flex flex-col items-center p-3 rounded-md cursor-pointer transition-all border ${
                       selectedRole === 'voter'
@@ -609,6 +956,37 @@ export default function SessionPage() {
                     }`}>Observer</span>
                     <span className="text-xs text-[#8792a2]">View only</span>
                   </label>
+
+                  {/* Only offered to the session creator */}
+                  {isOwner && (
+                    <label
+                      className={`relative flex flex-col items-center p-3 rounded-md cursor-pointer transition-all border ${
+                        selectedRole === 'facilitator'
+                          ? 'border-[#635bff] bg-[#f5f8ff]'
+                          : 'border-[#e3e8ee] hover:border-[#c1c9d2]'
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name="role"
+                        value="facilitator"
+                        checked={selectedRole === 'facilitator'}
+                        onChange={() => setSelectedRole('facilitator')}
+                        className="sr-only"
+                      />
+                      <div className={`w-8 h-8 rounded-md flex items-center justify-center mb-1.5 ${
+                        selectedRole === 'facilitator'
+                          ? 'bg-[#635bff] text-white'
+                          : 'bg-[#f6f9fc] text-[#8792a2]'
+                      }`}>
+                        <FlagIcon className="w-4 h-4" />
+                      </div>
+                      <span className={`text-sm font-medium ${
+                        selectedRole === 'facilitator' ? 'text-[#635bff]' : 'text-[#3c4257]'
+                      }`}>Facilitator</span>
+                      <span className="text-xs text-[#8792a2]">Runs session</span>
+                    </label>
+                  )}
                 </div>
               </div>
 
@@ -626,6 +1004,53 @@ export default function SessionPage() {
     );
   }
 
+  // Scale controls are shared by the voting panel and the facilitator panel,
+  // and hidden from anyone who isn't allowed to change the scale
+  const scaleSelector = canControl && (
+    <div className="flex flex-col gap-1">
+      <button
+        onClick={() => changeScale(-1)}
+        className="p-2 rounded-md border border-[#e3e8ee] bg-[#f6f9fc] hover:bg-[#e3e8ee] transition-colors text-[#697386]"
+        title="Previous scale"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+        </svg>
+      </button>
+      <button
+        onClick={() => changeScale(1)}
+        className="p-2 rounded-md border border-[#e3e8ee] bg-[#f6f9fc] hover:bg-[#e3e8ee] transition-colors text-[#697386]"
+        title="Next scale"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+      <button
+        onClick={() => setShowScaleBuilder(prev => !prev)}
+        className="p-2 rounded-md border border-[#e3e8ee] bg-[#f6f9fc] hover:bg-[#e3e8ee] transition-colors text-[#697386]"
+        title="Add custom scale"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+        </svg>
+      </button>
+    </div>
+  );
+
+  const scaleBuilderForm = canControl && showScaleBuilder && (
+    <form onSubmit={addCustomScale} className="mt-4 pt-4 border-t border-[#e3e8ee] space-y-3">
+      <ScaleBuilder draft={scaleDraft} onChange={setScaleDraft} />
+      <button
+        type="submit"
+        disabled={!parseScaleDraft(scaleDraft)}
+        className="btn btn-primary w-full"
+      >
+        Use this scale
+      </button>
+    </form>
+  );
+
   return (
     <main className={`min-h-screen ${isShaking ? 'animate-shake' : ''}`} style={{ background: '#f6f9fc' }}>
       {/* Hidden audio element for bell sound */}
@@ -634,39 +1059,126 @@ export default function SessionPage() {
       <div className="flex gap-5 max-w-6xl mx-auto p-5">
         {/* Left Sidebar */}
         <div className="w-64 flex-shrink-0 space-y-4">
+          {/* Backlog - read-only for everyone but the facilitator in facilitator-only sessions */}
+          <div className="bg-white rounded-lg border border-[#e3e8ee] p-4" style={{ boxShadow: '0 2px 4px rgba(0,0,0,0.04)' }}>
+            <h2 className="section-label mb-3">Backlog</h2>
+            <BacklogPanel
+              backlog={backlog}
+              currentItemId={session?.currentBacklogItemId}
+              {...(canControl && {
+                onAdd: addToBacklog,
+                onImport: importToBacklog,
+                onMove: moveInBacklog,
+                onSkip: skipInBacklog,
+                onRemove: removeFromBacklog,
+                onStart: startBacklogItem,
+              })}
+            />
+          </div>
+
           {/* History */}
           <div className="bg-white rounded-lg border border-[#e3e8ee] p-4" style={{ boxShadow: '0 2px 4px rgba(0,0,0,0.04)' }}>
-            <h2 className="section-label mb-3">History</h2>
-            {history.length === 0 ? (
-              <div className="text-center py-4">
-                <p className="text-sm text-[#8792a2]">No stories yet</p>
-              </div>
-            ) : (
-              <ul className="space-y-2">
-                {/*
-                  PERFORMANCE: Using pre-computed memoized values instead of IIFE.
-
-                  Before: Created new Set and reversed array on EVERY render
-                  After: Only recomputes when history actually changes
-
-                  This matters because React re-renders on any state change,
-                  not just history changes (e.g., typing in story field).
-                */}
-                {reversedHistory.map((entry) => {
-                  const isLastOfVote = lastOccurrenceIds.has(entry.id);
-                  return (
-                    <li
-                      key={entry.id}
-                      className={`flex justify-between items-center p-2.5 bg-[#f6f9fc] rounded-md hover:bg-[#e3e8ee] transition-colors ${isLastOfVote ? 'border-l-2 border-l-[#635bff]' : ''}`}
+            <div className="flex justify-between items-baseline mb-3">
+              <h2 className="section-label">History</h2>
+              {history.length > 0 && (
+                <span className="flex gap-2 text-xs text-[#697386]">
+                  Export
+                  {EXPORT_FORMATS.map(format => (
+                    <a
+                      key={format}
+                      href={`/api/sessions/${sessionId}/export?format=${format}`}
+                      download
+                      className="font-medium hover:text-[#635bff] uppercase"
                     >
-                      <span className="text-sm truncate flex-1 mr-2 text-[#3c4257]">{entry.story}</span>
-                      <span className="text-sm font-semibold text-[#635bff] bg-[#f5f8ff] px-2 py-0.5 rounded">{entry.vote}</span>
-                    </li>
-                  );
-                })}
-              </ul>
-            )}
+                      {format}
+                    </a>
+                  ))}
+                </span>
+              )}
+            </div>
+            <HistoryPanel
+              history={history}
+              rounds={session?.rounds}
+              {...(canControl && {
+                onEdit: editHistoryEntry,
+                onDelete: deleteHistoryEntry,
+              })}
+            />
           </div>
+
+          {/* Meeting timing - once a story has been timed */}
+          {history.some(entry => entry.duration !== undefined) && (
+            <div className="bg-white rounded-lg border border-[#e3e8ee] p-4" style={{ boxShadow: '0 2px 4px rgba(0,0,0,0.04)' }}>
+              <h2 className="section-label mb-3">Meeting</h2>
+              <MeetingSummary history={history} />
+            </div>
+          )}
+
+          {/* Facilitator settings - only the session creator can change them */}
+          {isOwner && (
+            <div className="bg-white rounded-lg border border-[#e3e8ee] p-4" style={{ boxShadow: '0 2px 4px rgba(0,0,0,0.04)' }}>
+              <h2 className="section-label mb-3">Facilitator</h2>
+              <label className="flex items-start gap-2 text-sm text-[#3c4257] cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={session?.settings?.facilitatorOnly ?? false}
+                  onChange={() => changeSettings({ facilitatorOnly: !session?.settings?.facilitatorOnly })}
+                  className="mt-0.5 accent-[#635bff]"
+                />
+                Only I can reveal, start new rounds, and change the story or scale
+              </label>
+              <label className="flex items-start gap-2 text-sm text-[#3c4257] cursor-pointer mt-3">
+                <input
+                  type="checkbox"
+                  checked={session?.settings?.autoReveal ?? false}
+                  onChange={() => changeSettings({ autoReveal: !session?.settings?.autoReveal })}
+                  className="mt-0.5 accent-[#635bff]"
+                />
+                Reveal automatically once every online voter has voted
+              </label>
+              {/* Only between rounds: turning it off after an anonymous reveal would show who voted what */}
+              <label className="flex items-start gap-2 text-sm text-[#3c4257] cursor-pointer mt-3 has-[:disabled]:opacity-60 has-[:disabled]:cursor-not-allowed">
+                <input
+                  type="checkbox"
+                  checked={session?.settings?.anonymous ?? false}
+                  disabled={!session || session.revealed || session.participants.some(hasVoted)}
+                  onChange={() => changeSettings({ anonymous: !session?.settings?.anonymous })}
+                  className="mt-0.5 accent-[#635bff]"
+                />
+                Anonymous voting: show and save revealed votes without names
+              </label>
+              {session?.settings?.autoReveal && (
+                <select
+                  value={session.settings.autoRevealCountdown ?? DEFAULT_SESSION_SETTINGS.autoRevealCountdown}
+                  onChange={(e) => changeSettings({ autoRevealCountdown: Number(e.target.value) })}
+                  className="mt-2 ml-6 px-2 py-1 text-sm border border-[#e3e8ee] rounded bg-white text-[#1a1f36] focus:outline-none focus:border-[#635bff]"
+                  aria-label="Auto-reveal countdown"
+                >
+                  {AUTO_REVEAL_COUNTDOWNS.map(seconds => (
+                    <option key={seconds} value={seconds}>
+                      {seconds === 0 ? 'Straight away' : `After a ${seconds} second countdown`}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <label className="block text-sm text-[#3c4257] mt-3">
+                Suggested estimate
+                <select
+                  value={`${session?.settings?.suggestionBasis ?? DEFAULT_SESSION_SETTINGS.suggestionBasis}-${session?.settings?.suggestionRounding ?? DEFAULT_SESSION_SETTINGS.suggestionRounding}`}
+                  onChange={(e) => {
+                    const [suggestionBasis, suggestionRounding] = e.target.value.split('-') as [SuggestionBasis, SuggestionRounding];
+                    changeSettings({ suggestionBasis, suggestionRounding });
+                  }}
+                  className="mt-1 block w-full px-2 py-1 text-sm border border-[#e3e8ee] rounded bg-white text-[#1a1f36] focus:outline-none focus:border-[#635bff]"
+                >
+                  <option value="median-nearest">Median, nearest card</option>
+                  <option value="median-up">Median, next card up</option>
+                  <option value="mean-nearest">Average, nearest card</option>
+                  <option value="mean-up">Average, next card up</option>
+                </select>
+              </label>
+            </div>
+          )}
         </div>
 
         {/* Main Content */}
@@ -725,12 +1237,13 @@ export default function SessionPage() {
                 isMe={p.id === myId}
                 revealed={session?.revealed ?? false}
                 onAvatarClick={p.id === myId ? cycleAvatar : undefined}
-                isOnline={isParticipantOnline(p)}
+                isOnline={isParticipantOnline(p, Date.now(), onlineIds)}
+                outlier={outliers.get(p.id)}
               />
             ))}
-            {/* Observers */}
-            {session?.participants.filter((p) => p.role === 'observer').map((p: Participant) => {
-              const isOnline = isParticipantOnline(p);
+            {/* Observers and the facilitator (they don't vote) */}
+            {session?.participants.filter((p) => p.role !== 'voter').map((p: Participant) => {
+              const isOnline = isParticipantOnline(p, Date.now(), onlineIds);
               return (
                 <div key={p.id} className={`flex flex-col items-center gap-2 ${!isOnline ? 'opacity-50' : ''}`}>
                   <div
@@ -748,12 +1261,16 @@ export default function SessionPage() {
                         className={`w-12 h-12 object-contain ${!isOnline ? 'grayscale' : ''}`}
                       />
                     </div>
-                    {/* Observer eye icon */}
-                    <div className="absolute bottom-1 right-1 w-5 h-5 rounded-full bg-[#635bff] flex items-center justify-center">
-                      <svg xmlns="http://www.w3.org/2000/svg" className="w-3 h-3 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
-                      </svg>
+                    {/* Role icon: flag for the facilitator, eye for observers */}
+                    <div
+                      className="absolute bottom-1 right-1 w-5 h-5 rounded-full bg-[#635bff] flex items-center justify-center"
+                      title={p.role === 'facilitator' ? 'Facilitator' : 'Observer'}
+                    >
+                      {p.role === 'facilitator' ? (
+                        <FlagIcon className="w-3 h-3 text-white" />
+                      ) : (
+                        <EyeIcon className="w-3 h-3 text-white" />
+                      )}
                     </div>
                   </div>
                   <div className="flex flex-col items-center">
@@ -777,7 +1294,14 @@ export default function SessionPage() {
           <label htmlFor="story" className="section-label block mb-2">
             Story <span className="font-normal lowercase">(optional)</span>
           </label>
-          {storyLocked && story.trim() ? (
+          {!canControl ? (
+            // Read-only: only the facilitator can set the story
+            <div className="w-full px-3 py-2 rounded-md bg-[#f6f9fc] border border-[#e3e8ee]">
+              <span className={`text-sm ${story.trim() ? 'text-[#1a1f36] font-medium' : 'text-[#8792a2]'}`}>
+                {story.trim() || 'The facilitator will set the story'}
+              </span>
+            </div>
+          ) : storyLocked && story.trim() ? (
             <div
               onClick={() => {
                 setStoryLocked(false);
@@ -815,31 +1339,55 @@ export default function SessionPage() {
           )}
         </div>
 
+        {/* Voting timer - runs while the votes are hidden */}
+        {!session?.revealed && (
+          <TimerControl
+            timer={session?.timer}
+            onStart={canControl ? startTimer : undefined}
+            onStop={canControl ? stopTimer : undefined}
+            onExpire={expireTimer}
+          />
+        )}
+
         {/* Card Selection / Results - Show results when revealed, voting cards otherwise */}
         {session?.revealed ? (
           // Results Panel (replaces voting cards when revealed)
           (() => {
-            const resultType = session ? getResultType(session.participants) : 'none';
+            const resultType = isAnonymous ? currentRound?.resultType ?? 'none' : getResultType(session.participants);
             const titlePrefix = resultType === 'consensus' ? 'Consensus'
               : resultType === 'majority' ? 'Majority'
               : resultType === 'joint' ? 'Joint Majority'
               : 'Result';
+            const round = session.round ?? 1;
+            const previousRounds = getPreviousRounds(session.rounds ?? [], (session.story ?? '').trim(), round);
             return (
               <div className="bg-white rounded-lg border border-[#e3e8ee] p-4" style={{ boxShadow: '0 2px 4px rgba(0,0,0,0.04)' }}>
                 <div className="flex justify-between items-start mb-3">
                   <div>
                     <h2 className="section-label">{titlePrefix}</h2>
                     {story && (
-                      <p className="text-xs text-[#697386] mt-0.5 truncate">{story}</p>
+                      <p className="text-xs text-[#697386] mt-0.5 truncate">
+                        {story}{round > 1 && ` · Round ${round}`}
+                      </p>
                     )}
                   </div>
                 </div>
                 <VoteSummary
-                  participants={session.participants}
+                  votes={revealedVotes}
+                  voters={isAnonymous ? undefined : session.participants.filter(p => p.role === 'voter')}
+                  scale={activeScale}
                   onSelectVote={saveToHistory}
-                  canSelect={!!story.trim()}
+                  canSelect={!!story.trim() && canControl}
                   customVote={customVote}
                   onCustomVoteChange={setCustomVote}
+                  previousRounds={previousRounds}
+                  suggestionBasis={session.settings?.suggestionBasis}
+                  suggestionRounding={session.settings?.suggestionRounding}
+                />
+                <VoteNotes
+                  notes={currentRound?.notes ?? []}
+                  myOutlier={myId ? outliers.get(myId) : undefined}
+                  onSubmit={explainVote}
                 />
               </div>
             );
@@ -850,12 +1398,12 @@ export default function SessionPage() {
             <div className="flex items-center gap-2 mb-3">
               <h2 className="section-label">Your Vote</h2>
               <span className="text-xs font-medium px-2 py-0.5 rounded bg-[#f6f9fc] text-[#697386] border border-[#e3e8ee]">
-                {VOTING_SCALES[votingScale].name}
+                {activeScale.name}
               </span>
             </div>
             <div className="flex items-center gap-4">
               <div className="flex flex-wrap gap-2 flex-1">
-                {VOTING_SCALES[votingScale].values.map((value) => (
+                {activeScale.values.map((value) => (
                   <button
                     key={value}
                     onClick={() => vote(value)}
@@ -871,38 +1419,9 @@ export default function SessionPage() {
                   </button>
                 ))}
               </div>
-              {/* Scale selector arrows */}
-              <div className="flex flex-col gap-1">
-                <button
-                  onClick={() => {
-                    const currentIndex = SCALE_ORDER.indexOf(votingScale);
-                    const prevIndex = (currentIndex - 1 + SCALE_ORDER.length) % SCALE_ORDER.length;
-                    setVotingScale(SCALE_ORDER[prevIndex]);
-                    setSelectedCard(null);
-                  }}
-                  className="p-2 rounded-md border border-[#e3e8ee] bg-[#f6f9fc] hover:bg-[#e3e8ee] transition-colors text-[#697386]"
-                  title="Previous scale"
-                >
-                  <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
-                  </svg>
-                </button>
-                <button
-                  onClick={() => {
-                    const currentIndex = SCALE_ORDER.indexOf(votingScale);
-                    const nextIndex = (currentIndex + 1) % SCALE_ORDER.length;
-                    setVotingScale(SCALE_ORDER[nextIndex]);
-                    setSelectedCard(null);
-                  }}
-                  className="p-2 rounded-md border border-[#e3e8ee] bg-[#f6f9fc] hover:bg-[#e3e8ee] transition-colors text-[#697386]"
-                  title="Next scale"
-                >
-                  <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-                  </svg>
-                </button>
-              </div>
+              {scaleSelector}
             </div>
+            {scaleBuilderForm}
           </div>
         ) : null}
 
@@ -921,37 +1440,89 @@ export default function SessionPage() {
                   You&apos;re observing this session
                 </p>
                 <p className="text-xs text-[#697386] mt-0.5">
-                  You can reveal votes and start new rounds, but cannot vote.
+                  {canControl
+                    ? 'You can reveal votes and start new rounds, but cannot vote.'
+                    : 'The facilitator reveals votes and starts new rounds.'}
                 </p>
               </div>
             </div>
           </div>
         )}
 
-        {/* Controls */}
-        <div>
-          {session?.revealed ? (
-            <button
-              onClick={() => {
-                if (customVote.trim() && story.trim()) {
-                  saveToHistory(customVote.trim());
-                } else {
-                  resetVotes();
-                }
-              }}
-              className="btn btn-warning w-full py-3.5 text-base"
-            >
-              <span className="flex items-center justify-center gap-2">
-                <svg xmlns="http://www.w3.org/2000/svg" className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-                </svg>
-                New Round
-              </span>
+        {/* Facilitator panel - only show when not revealed */}
+        {myRole === 'facilitator' && !session?.revealed && (
+          <div className="bg-[#f5f8ff] rounded-lg p-4 border border-[#e0e7ff]">
+            <div className="flex items-center gap-3">
+              <div className="w-9 h-9 rounded-md bg-[#635bff] flex items-center justify-center">
+                <FlagIcon className="w-4 h-4 text-white" />
+              </div>
+              <div className="flex-1">
+                <p className="text-sm font-medium text-[#1a1f36]">
+                  You&apos;re facilitating this session
+                </p>
+                <p className="text-xs text-[#697386] mt-0.5">
+                  Voting on <span className="font-medium">{activeScale.name}</span>. You run the round but cannot vote.
+                </p>
+              </div>
+              {scaleSelector}
+            </div>
+            {scaleBuilderForm}
+          </div>
+        )}
+
+        {/* Auto-reveal countdown - anyone can stop it */}
+        {autoRevealSeconds !== null && (
+          <div className="bg-[#f5f8ff] rounded-lg p-3 border border-[#e0e7ff] flex items-center justify-between" role="status">
+            <p className="text-sm text-[#1a1f36]">
+              Everyone has voted. Revealing in <span className="font-semibold">{autoRevealSeconds}s</span>
+            </p>
+            <button onClick={cancelAutoReveal} className="text-sm font-medium text-[#635bff] hover:underline">
+              Cancel
             </button>
+          </div>
+        )}
+
+        {/* Controls - hidden from everyone but the facilitator in facilitator-only sessions */}
+        <div>
+          {!canControl ? (
+            <p className="text-center text-sm text-[#8792a2] py-3.5">
+              {session?.revealed ? 'Waiting for the facilitator to start a new round' : 'Waiting for the facilitator to reveal votes'}
+            </p>
+          ) : session?.revealed ? (
+            <div className="flex gap-3">
+              {/* Re-vote keeps the story; only offered when there is one to keep */}
+              {session.story?.trim() && (
+                <button
+                  onClick={revoteVotes}
+                  className="btn btn-secondary flex-1 py-3.5 text-base"
+                  title="Clear the votes and vote on this story again"
+                >
+                  Re-vote
+                </button>
+              )}
+              <button
+                onClick={() => {
+                  if (customVote.trim() && story.trim()) {
+                    saveToHistory(customVote.trim());
+                  } else {
+                    resetVotes();
+                  }
+                }}
+                className="btn btn-warning flex-1 py-3.5 text-base"
+              >
+                <span className="flex items-center justify-center gap-2">
+                  <svg xmlns="http://www.w3.org/2000/svg" className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                  </svg>
+                  {/* A new round moves on to the next backlog story, unless this one needs a re-vote */}
+                  {nextBacklogItem && nextBacklogItem.id !== session.currentBacklogItemId ? 'Next Story' : 'New Round'}
+                </span>
+              </button>
+            </div>
           ) : (
             <button
               onClick={revealVotes}
-              disabled={!session?.participants.some(p => p.role === 'voter' && p.vote !== null)}
+              disabled={!session?.participants.some(p => p.role === 'voter' && hasVoted(p))}
               className="btn btn-success w-full py-3.5 text-base"
             >
               <span className="flex items-center justify-center gap-2">
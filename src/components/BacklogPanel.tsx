@@ -0,0 +1,225 @@
+/**
+ * BacklogPanel - Sidebar queue of stories to estimate in this session.
+ *
+ * FEATURES:
+ * - Add stories (paste several lines to add one story per line)
+ * - Import a CSV or JSON export from the tracker, with a report of rejected rows
+ * - Reorder with the up/down buttons, skip, or remove stories
+ * - Start any story right away, out of queue order
+ * - Shows each story's estimate once saved, and progress through the queue
+ *
+ * The backlog lives on the session (server-side): starting a new round loads
+ * the next pending story, so the panel only sends changes to the API and
+ * everyone sees them via the realtime broadcast.
+ * Without the callbacks (e.g. in facilitator-only sessions) it's read-only.
+ */
+
+import { useRef, useState } from 'react';
+import type { BacklogItem } from '@/types/poker';
+import { getBacklogProgress } from '@/lib/backlog';
+import type { ImportFormat, ImportReport } from '@/lib/backlogImport';
+
+interface BacklogPanelProps {
+  backlog: BacklogItem[];                                  // In queue order, as stored on the session
+  currentItemId?: string;                                  // Item being estimated right now
+  onAdd?: (titles: string[]) => void;                      // Add stories to the end
+  onImport?: (content: string, format?: ImportFormat) => Promise<ImportReport>;  // Import a tracker export
+  onMove?: (itemId: string, index: number) => void;        // Move a story to a new position
+  onSkip?: (itemId: string, skipped: boolean) => void;     // Skip a story, or put it back
+  onRemove?: (itemId: string) => void;                     // Remove a story
+  onStart?: (itemId: string) => void;                      // Estimate a story now
+}
+
+export function BacklogPanel({ backlog, currentItemId, onAdd, onImport, onMove, onSkip, onRemove, onStart }: BacklogPanelProps) {
+  const [newStories, setNewStories] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const progress = getBacklogProgress(backlog);
+
+  const importFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';  // Lets the same file be picked again after fixing it
+    if (!file || !onImport) return;
+
+    // Trust the extension when there is one, otherwise the API detects the format
+    const extension = file.name.split('.').pop()?.toLowerCase();
+    const format = extension === 'csv' || extension === 'json' ? extension : undefined;
+
+    setIsImporting(true);
+    setImportReport(null);
+    try {
+      setImportReport(await onImport(await file.text(), format));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const addStories = (e: React.FormEvent) => {
+    e.preventDefault();
+    const titles = newStories.split('\n').map(line => line.trim()).filter(Boolean);
+    if (titles.length === 0) return;
+    onAdd?.(titles);
+    setNewStories('');
+  };
+
+  return (
+    <div className="space-y-3">
+      {backlog.length === 0 ? (
+        <p className="text-sm text-[#8792a2] text-center py-2">No stories queued</p>
+      ) : (
+        <>
+          <p className="text-xs text-[#697386]">
+            {progress.estimated} of {progress.total} estimated
+            {progress.skipped > 0 && `, ${progress.skipped} skipped`}
+          </p>
+          <ol className="space-y-1.5 max-h-80 overflow-y-auto pr-1">
+            {backlog.map((item, index) => {
+              const isCurrent = item.id === currentItemId;
+              return (
+                <li
+                  key={item.id}
+                  className={`group flex items-center gap-1.5 p-2 rounded-md text-sm transition-colors ${
+                    isCurrent ? 'bg-[#f5f8ff] border-l-2 border-l-[#635bff]' : 'bg-[#f6f9fc] hover:bg-[#e3e8ee]'
+                  }`}
+                >
+                  <span
+                    className={`truncate flex-1 ${
+                      item.status === 'pending' ? 'text-[#3c4257]'
+                        : item.status === 'skipped' ? 'text-[#8792a2] line-through'
+                        : 'text-[#697386]'
+                    }`}
+                    title={item.description ? `${item.title}\n\n${item.description}` : item.title}
+                  >
+                    {item.key && <span className="font-mono text-xs text-[#697386] mr-1">{item.key}</span>}
+                    {item.link ? (
+                      <a href={item.link} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                        {item.title}
+                      </a>
+                    ) : item.title}
+                  </span>
+                  {onMove && (
+                    <span className="hidden group-hover:flex gap-1">
+                      <button
+                        onClick={() => onMove(item.id, index - 1)}
+                        disabled={index === 0}
+                        className="text-xs text-[#697386] hover:text-[#635bff] disabled:opacity-30"
+                        title="Move up"
+                        aria-label={`Move ${item.title} up`}
+                      >
+                        ↑
+                      </button>
+                      <button
+                        onClick={() => onMove(item.id, index + 1)}
+                        disabled={index === backlog.length - 1}
+                        className="text-xs text-[#697386] hover:text-[#635bff] disabled:opacity-30"
+                        title="Move down"
+                        aria-label={`Move ${item.title} down`}
+                      >
+                        ↓
+                      </button>
+                    </span>
+                  )}
+                  {onStart && !isCurrent && item.status !== 'estimated' && (
+                    <button
+                      onClick={() => onStart(item.id)}
+                      className="hidden group-hover:inline text-xs text-[#697386] hover:text-[#635bff]"
+                      title="Estimate this story now"
+                    >
+                      Start
+                    </button>
+                  )}
+                  {onSkip && item.status !== 'estimated' && (
+                    <button
+                      onClick={() => onSkip(item.id, item.status !== 'skipped')}
+                      className="hidden group-hover:inline text-xs text-[#697386] hover:text-[#635bff]"
+                      title={item.status === 'skipped' ? 'Put back in the queue' : 'Skip'}
+                    >
+                      {item.status === 'skipped' ? 'Unskip' : 'Skip'}
+                    </button>
+                  )}
+                  {onRemove && (
+                    <button
+                      onClick={() => onRemove(item.id)}
+                      className="hidden group-hover:inline text-xs text-[#697386] hover:text-red-600"
+                      title="Remove"
+                      aria-label={`Remove ${item.title}`}
+                    >
+                      ✕
+                    </button>
+                  )}
+                  {item.estimate !== undefined && (
+                    <span className="text-sm font-semibold text-[#635bff] bg-[#f5f8ff] px-2 py-0.5 rounded">{item.estimate}</span>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        </>
+      )}
+
+      {onAdd && (
+        <form onSubmit={addStories} className="space-y-2">
+          <textarea
+            value={newStories}
+            onChange={(e) => setNewStories(e.target.value)}
+            onKeyDown={(e) => {
+              // Enter adds, Shift+Enter starts a new line for another story
+              if (e.key === 'Enter' && !e.shiftKey) addStories(e);
+            }}
+            rows={1}
+            placeholder="Add stories, one per line..."
+            className="w-full px-2 py-1.5 text-sm border border-[#e3e8ee] rounded bg-white text-[#1a1f36] resize-y focus:outline-none focus:border-[#635bff]"
+            aria-label="New stories"
+          />
+          <button type="submit" disabled={!newStories.trim()} className="btn btn-primary w-full text-sm">
+            Add to backlog
+          </button>
+        </form>
+      )}
+
+      {onImport && (
+        <div className="space-y-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={importFile}
+            className="hidden"
+            aria-label="Import file"
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+            className="w-full text-xs text-[#697386] hover:text-[#635bff] disabled:opacity-50"
+            title="Columns: key, title, description, link"
+          >
+            {isImporting ? 'Importing...' : 'Import CSV or JSON'}
+          </button>
+          {importReport && (
+            <div className="text-xs space-y-1" role="status">
+              {importReport.error ? (
+                <p className="text-red-600">{importReport.error}</p>
+              ) : (
+                <p className="text-[#30c48d]">
+                  Imported {importReport.imported} {importReport.imported === 1 ? 'story' : 'stories'}
+                </p>
+              )}
+              {importReport.overLimit > 0 && (
+                <p className="text-[#697386]">{importReport.overLimit} more didn&apos;t fit in the backlog</p>
+              )}
+              {importReport.rejected.length > 0 && (
+                <ul className="text-[#697386] max-h-24 overflow-y-auto">
+                  {importReport.rejected.map(({ row, reason }) => (
+                    <li key={row}>Row {row}: {reason}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+/**
+ * HistoryPanel - Sidebar list of estimated stories.
+ *
+ * FEATURES:
+ * - Newest stories first, in a scrollable list (no cap on length)
+ * - Highlights the last story estimated with each value
+ * - Edit a story's title or estimate inline, or delete it
+ * - Expand a story to see each round it was voted on: who voted what,
+ *   and the average/min/max, to see how divided the team was, with the
+ *   notes the lowest and highest voters left to explain their cards
+ * - Shows how long each timed story took
+ *
+ * History lives on the session (server-side), so edits and deletes are
+ * sent to the API and everyone sees the change via the realtime broadcast.
+ */
+
+import { useMemo, useState } from 'react';
+import type { HistoryEntry, RoundRecord } from '@/types/poker';
+import { formatRecordedVote, getLastOccurrenceIds } from '@/lib/votingUtils';
+import { formatElapsed } from '@/lib/meetingSummary';
+
+interface HistoryPanelProps {
+  history: HistoryEntry[];                                                  // Oldest first, as stored on the session
+  rounds?: RoundRecord[];                                                   // Revealed rounds, linked to entries by historyEntryId
+  onEdit?: (entryId: string, changes: { story: string; vote: string }) => void; // Save an edited entry
+  onDelete?: (entryId: string) => void;                                     // Remove an entry
+}
+
+export function HistoryPanel({ history, rounds = [], onEdit, onDelete }: HistoryPanelProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [editStory, setEditStory] = useState('');
+  const [editVote, setEditVote] = useState('');
+
+  /**
+   * Memoize which history entries should be highlighted.
+   * Only recomputes when the history array changes (new items added/removed).
+   * Without memoization, this Set would be rebuilt on every render.
+   */
+  const lastOccurrenceIds = useMemo(
+    () => getLastOccurrenceIds(history),
+    [history]
+  );
+
+  /**
+   * Memoize the reversed history for display.
+   * We show newest items first, but store oldest first for easier appending.
+   * Creating a new reversed array on every render would cause unnecessary work.
+   */
+  const reversedHistory = useMemo(
+    () => [...history].reverse(),
+    [history]
+  );
+
+  /**
+   * Rounds grouped by the entry they were saved with, oldest first.
+   */
+  const roundsByEntry = useMemo(() => {
+    const grouped = new Map<string, RoundRecord[]>();
+    rounds.forEach(round => {
+      if (round.historyEntryId === undefined) return;
+      grouped.set(round.historyEntryId, [...(grouped.get(round.historyEntryId) ?? []), round]);
+    });
+    return grouped;
+  }, [rounds]);
+
+  const startEditing = (entry: HistoryEntry) => {
+    setEditingId(entry.id);
+    setEditStory(entry.story);
+    setEditVote(entry.vote);
+  };
+
+  const saveEdit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingId || !editStory.trim() || !editVote.trim()) return;
+    onEdit?.(editingId, { story: editStory.trim(), vote: editVote.trim() });
+    setEditingId(null);
+  };
+
+  if (history.length === 0) {
+    return (
+      <div className="text-center py-4">
+        <p className="text-sm text-[#8792a2]">No stories yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <ul className="space-y-2 max-h-96 overflow-y-auto pr-1">
+      {reversedHistory.map((entry) => {
+        const isLastOfVote = lastOccurrenceIds.has(entry.id);
+
+        if (entry.id === editingId) {
+          return (
+            <li key={entry.id} className="p-2.5 bg-[#f6f9fc] rounded-md">
+              <form onSubmit={saveEdit} className="flex gap-2">
+                <input
+                  type="text"
+                  value={editStory}
+                  onChange={(e) => setEditStory(e.target.value)}
+                  className="flex-1 min-w-0 px-2 py-1 text-sm border border-[#e3e8ee] rounded bg-white text-[#1a1f36] focus:outline-none focus:border-[#635bff]"
+                  aria-label="Story"
+                  autoFocus
+                />
+                <input
+                  type="text"
+                  value={editVote}
+                  onChange={(e) => setEditVote(e.target.value)}
+                  maxLength={5}
+                  className="w-12 px-1 py-1 text-sm text-center border border-[#e3e8ee] rounded bg-white text-[#1a1f36] focus:outline-none focus:border-[#635bff]"
+                  aria-label="Estimate"
+                />
+                <button type="submit" className="text-xs font-medium text-[#635bff]">Save</button>
+                <button type="button" onClick={() => setEditingId(null)} className="text-xs text-[#8792a2]">Cancel</button>
+              </form>
+            </li>
+          );
+        }
+
+        const entryRounds = roundsByEntry.get(entry.id) ?? [];
+        const isExpanded = entry.id === expandedId && entryRounds.length > 0;
+
+        return (
+          <li
+            key={entry.id}
+            className={`p-2.5 bg-[#f6f9fc] rounded-md hover:bg-[#e3e8ee] transition-colors ${isLastOfVote ? 'border-l-2 border-l-[#635bff]' : ''}`}
+          >
+            <div className="group flex justify-between items-center">
+              {entryRounds.length > 0 ? (
+                <button
+                  onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                  className="text-sm truncate flex-1 mr-2 text-left text-[#3c4257] hover:text-[#635bff]"
+                  title={isExpanded ? 'Hide rounds' : 'Show rounds'}
+                  aria-expanded={isExpanded}
+                >
+                  {entry.story}
+                </button>
+              ) : (
+                <span className="text-sm truncate flex-1 mr-2 text-[#3c4257]">{entry.story}</span>
+              )}
+              {onEdit && (
+                <button
+                  onClick={() => startEditing(entry)}
+                  className="hidden group-hover:inline text-xs text-[#697386] hover:text-[#635bff] mr-2"
+                  title="Edit"
+                >
+                  Edit
+                </button>
+              )}
+              {onDelete && (
+                <button
+                  onClick={() => onDelete(entry.id)}
+                  className="hidden group-hover:inline text-xs text-[#697386] hover:text-red-600 mr-2"
+                  title="Delete"
+                >
+                  ✕
+                </button>
+              )}
+              {entry.duration !== undefined && (
+                <span className="text-xs text-[#8792a2] tabular-nums mr-2" title="Time spent on this story">
+                  {formatElapsed(entry.duration)}
+                </span>
+              )}
+              <span className="text-sm font-semibold text-[#635bff] bg-[#f5f8ff] px-2 py-0.5 rounded">{entry.vote}</span>
+            </div>
+            {isExpanded && (
+              <ol className="mt-2 space-y-1.5 text-xs text-[#697386]">
+                {entryRounds.map(round => (
+                  <li key={round.id}>
+                    <div className="font-medium text-[#3c4257]">
+                      Round {round.round}
+                      {round.average !== undefined && ` · avg ${round.average.toFixed(1)} (${round.min}–${round.max})`}
+                    </div>
+                    <div>{round.votes.map(formatRecordedVote).join(', ')}</div>
+                    {round.notes?.map(note => (
+                      <div key={note.participantId} className="italic">
+                        {note.name} ({note.vote}): {note.text}
+                      </div>
+                    ))}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,53 @@
+/**
+ * MeetingSummary - Sidebar report of how long the stories took.
+ *
+ * FEATURES:
+ * - Total time spent on the timed stories and the average per story
+ * - The longest discussions, to see where the meeting went
+ *
+ * Each story is timed from when it was set to when its result was saved
+ * (see lib/meetingSummary). Shows nothing until a story has been timed.
+ */
+
+import { useMemo } from 'react';
+import type { HistoryEntry } from '@/types/poker';
+import { formatElapsed, getMeetingSummary } from '@/lib/meetingSummary';
+
+interface MeetingSummaryProps {
+  history: HistoryEntry[];  // Oldest first, as stored on the session
+}
+
+export function MeetingSummary({ history }: MeetingSummaryProps) {
+  const summary = useMemo(() => getMeetingSummary(history), [history]);
+
+  if (summary.timedCount === 0) return null;
+
+  return (
+    <div className="space-y-2 text-sm text-[#3c4257]">
+      <dl className="grid grid-cols-2 gap-2">
+        <div>
+          <dt className="text-xs text-[#697386]">Total</dt>
+          <dd className="font-semibold tabular-nums">{formatElapsed(summary.totalTime)}</dd>
+        </div>
+        <div>
+          <dt className="text-xs text-[#697386]">Per story</dt>
+          <dd className="font-semibold tabular-nums">{formatElapsed(summary.averageTime)}</dd>
+        </div>
+      </dl>
+      <p className="text-xs text-[#697386]">
+        {summary.timedCount} timed {summary.timedCount === 1 ? 'story' : 'stories'}
+      </p>
+      <div>
+        <h3 className="text-xs text-[#697386] mb-1">Longest discussions</h3>
+        <ol className="space-y-1">
+          {summary.longest.map(entry => (
+            <li key={entry.id} className="flex justify-between gap-2">
+              <span className="truncate">{entry.story}</span>
+              <span className="text-[#697386] tabular-nums">{formatElapsed(entry.duration ?? 0)}</span>
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  );
+}
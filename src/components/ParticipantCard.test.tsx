@@ -220,4 +220,56 @@ describe('ParticipantCard', () => {
       expect(avatar).toBeInTheDocument();
     });
   });
+
+  describe('hidden votes', () => {
+    it('shows only that someone voted when the value is not sent', () => {
+      const { container } = render(
+        <ParticipantCard
+          participant={{ ...baseParticipant, vote: null, hasVoted: true }}
+          isMe={false}
+          revealed={true}
+        />
+      );
+
+      expect(container.querySelector('.bg-\\[\\#635bff\\]')).toBeInTheDocument();
+      expect(screen.getByAltText('chicken')).toBeInTheDocument();
+    });
+  });
+
+  describe('outliers', () => {
+    it('labels the lowest and highest voters once revealed', () => {
+      const { rerender } = render(
+        <ParticipantCard
+          participant={{ ...baseParticipant, vote: '1' }}
+          isMe={false}
+          revealed={true}
+          outlier="low"
+        />
+      );
+      expect(screen.getByText('Lowest')).toBeInTheDocument();
+
+      rerender(
+        <ParticipantCard
+          participant={{ ...baseParticipant, vote: '13' }}
+          isMe={false}
+          revealed={true}
+          outlier="high"
+        />
+      );
+      expect(screen.getByText('Highest')).toBeInTheDocument();
+    });
+
+    it('does not label anyone before the reveal', () => {
+      render(
+        <ParticipantCard
+          participant={{ ...baseParticipant, vote: '1' }}
+          isMe={false}
+          revealed={false}
+          outlier="low"
+        />
+      );
+
+      expect(screen.queryByText('Lowest')).not.toBeInTheDocument();
+    });
+  });
 });
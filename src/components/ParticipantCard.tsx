@@ -3,15 +3,21 @@
  *
  * VISUAL STATES:
  * 1. Not voted: White card with avatar
- * 2. Voted (hidden): Purple card with avatar (indicates they've voted)
- * 3. Voted (revealed): Purple card showing their vote value
+ * 2. Voted (hidden): Purple card with avatar (indicates they've voted -
+ *    until the reveal, the server only tells us that, not the card)
+ * 3. Voted (revealed): Purple card showing their vote value (in anonymous
+ *    sessions the value is never sent, so it stays like state 2)
  * 4. Offline: Grayed out with "Offline" label
  *
+ * After a reveal, the voters holding the lowest and highest cards are
+ * marked "Lowest"/"Highest" so the team knows whose reasoning to hear.
+ *
  * The current user's card has a purple ring around it and can be clicked
  * to cycle through avatars.
  */
 
 import type { Participant } from '@/types/poker';
+import { hasVoted as getHasVoted, type VoteOutlier } from '@/lib/votingUtils';
 import { ClipboardIcon } from '@/components/icons';
 
 interface ParticipantCardProps {
@@ -20,6 +26,7 @@ interface ParticipantCardProps {
   revealed: boolean;            // Are votes currently visible?
   onAvatarClick?: () => void;   // Handler for clicking own card to change avatar
   isOnline?: boolean;           // Is participant currently connected?
+  outlier?: VoteOutlier;        // Holds the lowest or highest revealed card
 }
 
 export function ParticipantCard({
@@ -27,9 +34,10 @@ export function ParticipantCard({
   isMe,
   revealed,
   onAvatarClick,
-  isOnline = true
+  isOnline = true,
+  outlier
 }: ParticipantCardProps) {
-  const hasVoted = participant.vote !== null;
+  const hasVoted = getHasVoted(participant);
   // Fallback to 'chicken' if avatar is undefined (shouldn't happen, but defensive)
   const avatarSrc = `/avatars/${participant.avatar || 'chicken'}.png`;
 
@@ -42,7 +50,7 @@ export function ParticipantCard({
           hasVoted
             ? 'bg-[#635bff]'
             : 'bg-white border border-[#e3e8ee]'
-        } ${isMe ? 'cursor-pointer' : ''}`}
+        } ${isMe ? 'cursor-pointer' : ''} ${revealed && outlier ? 'outline outline-2 outline-amber-400' : ''}`}
         style={{
           boxShadow: isMe
             ? '0 0 12px rgba(99, 91, 255, 0.5)'
@@ -54,7 +62,7 @@ export function ParticipantCard({
         title={isMe ? 'Click to change avatar' : undefined}
       >
         <div className="absolute inset-0 flex flex-col items-center justify-center">
-          {revealed && hasVoted ? (
+          {revealed && participant.vote !== null ? (
             <span className={`text-2xl font-semibold text-white ${!isOnline ? 'grayscale' : ''}`}>{participant.vote}</span>
           ) : hasVoted ? (
             <img
@@ -81,6 +89,9 @@ export function ParticipantCard({
         }`}>
           {participant.name}
         </span>
+        {revealed && outlier && (
+          <span className="text-[10px] font-medium text-amber-600">{outlier === 'low' ? 'Lowest' : 'Highest'}</span>
+        )}
         {!isOnline && (
           <span className="text-[10px] text-[#8792a2]">Offline</span>
         )}
@@ -0,0 +1,51 @@
+/**
+ * ScaleBuilder - Form fields for defining a custom voting scale.
+ *
+ * FIELDS:
+ * - Name: Shown in the scale badge next to "Your Vote"
+ * - Cards: Comma-separated card values, in the order they should appear
+ * - Abstain: Cards that mean "no estimate" (left out of statistics)
+ * - Weights: Numbers for non-numeric cards, e.g. "XS=1, S=2"
+ *
+ * This only renders the fields (no <form>), so it can sit inside the
+ * create-session form on the landing page or its own form on the session page.
+ * Use parseScaleDraft() from '@/lib/scales' to turn the draft into a scale.
+ */
+
+import type { ScaleDraft } from '@/lib/scales';
+
+interface ScaleBuilderProps {
+  draft: ScaleDraft;                        // Current text of each field
+  onChange: (draft: ScaleDraft) => void;    // Called with the updated draft on every keystroke
+  idPrefix?: string;                        // Prefix for input ids (keeps labels unique per page)
+}
+
+export function ScaleBuilder({ draft, onChange, idPrefix = 'scale' }: ScaleBuilderProps) {
+  const fields: { key: keyof ScaleDraft; label: string; placeholder: string; required?: boolean }[] = [
+    { key: 'name', label: 'Scale name', placeholder: 'Hours', required: true },
+    { key: 'values', label: 'Cards', placeholder: '1, 2, 4, 8, 16, ?', required: true },
+    { key: 'abstain', label: 'Abstain cards', placeholder: '?' },
+    { key: 'weights', label: 'Weights', placeholder: 'XS=1, S=2' },
+  ];
+
+  return (
+    <div className="space-y-3">
+      {fields.map(({ key, label, placeholder, required }) => (
+        <div key={key}>
+          <label htmlFor={`${idPrefix}-${key}`} className="block text-sm font-medium text-[#3c4257] mb-1.5">
+            {label} {!required && <span className="font-normal text-[#8792a2]">(optional)</span>}
+          </label>
+          <input
+            type="text"
+            id={`${idPrefix}-${key}`}
+            value={draft[key]}
+            onChange={(e) => onChange({ ...draft, [key]: e.target.value })}
+            placeholder={placeholder}
+            className="input"
+            autoComplete="off"
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
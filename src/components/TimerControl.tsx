@@ -0,0 +1,123 @@
+/**
+ * TimerControl - Countdown for the voting round, shown above the cards.
+ *
+ * FEATURES:
+ * - Shows the time left (m:ss) to everyone while a timer runs
+ * - Start a 30s, 1m or 2m timer, choosing whether the votes are revealed
+ *   or the bell rings when it runs out, and stop it early
+ *
+ * The end time is set by the server, so everyone counts down to the same
+ * moment. When it's reached, every browser tells the server (onExpire),
+ * which acts on it once. Without onStart/onStop (e.g. in facilitator-only
+ * sessions) it only shows the countdown.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { TIMER_DURATIONS, type TimerExpiryAction, type VotingTimer } from '@/types/poker';
+
+interface TimerControlProps {
+  timer?: VotingTimer;                                                // The running timer, if any
+  onStart?: (duration: number, onExpire: TimerExpiryAction) => void;  // Start a timer (seconds)
+  onStop?: () => void;                                                // Stop the timer early
+  onExpire: () => void;                                               // The countdown reached zero
+}
+
+/**
+ * Formats seconds as m:ss (e.g. 75 -> "1:15").
+ */
+function formatTime(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Button label for a duration (e.g. 30 -> "30s", 120 -> "2m").
+ */
+function formatDuration(seconds: number): string {
+  return seconds < 60 ? `${seconds}s` : `${seconds / 60}m`;
+}
+
+export function TimerControl({ timer, onStart, onStop, onExpire }: TimerControlProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const [expiryAction, setExpiryAction] = useState<TimerExpiryAction>('reveal');
+
+  // Kept in a ref so a new callback doesn't restart the countdown
+  const onExpireRef = useRef(onExpire);
+  useEffect(() => {
+    onExpireRef.current = onExpire;
+  }, [onExpire]);
+
+  const endsAt = timer?.endsAt;
+  useEffect(() => {
+    if (endsAt === undefined) return;
+
+    let lastExpired = 0;
+    const tick = () => {
+      const current = Date.now();
+      setNow(current);
+
+      // Told again each second in case our clock runs ahead of the server's
+      if (current >= endsAt && current - lastExpired >= 1000) {
+        lastExpired = current;
+        onExpireRef.current();
+      }
+    };
+    // Catch up straight away: `now` is from before this timer started
+    tick();
+    const interval = setInterval(tick, 250);
+
+    return () => clearInterval(interval);
+  }, [endsAt]);
+
+  const secondsLeft = endsAt === undefined ? null : Math.max(0, Math.ceil((endsAt - now) / 1000));
+
+  if (!timer && !onStart) return null;
+
+  return (
+    <div className="bg-white rounded-lg border border-[#e3e8ee] px-4 py-3 flex items-center gap-3" style={{ boxShadow: '0 2px 4px rgba(0,0,0,0.04)' }}>
+      <h2 className="section-label">Timer</h2>
+      {timer && secondsLeft !== null ? (
+        <>
+          <span
+            className={`text-lg font-semibold tabular-nums ${secondsLeft <= 10 ? 'text-red-600' : 'text-[#1a1f36]'}`}
+            role="timer"
+            aria-label={`${secondsLeft} seconds left`}
+          >
+            {formatTime(secondsLeft)}
+          </span>
+          <span className="text-xs text-[#697386]">
+            {timer.onExpire === 'reveal' ? 'then votes are revealed' : 'then the bell rings'}
+          </span>
+          {onStop && (
+            <button onClick={onStop} className="ml-auto text-sm font-medium text-[#697386] hover:text-red-600">
+              Stop
+            </button>
+          )}
+        </>
+      ) : onStart && (
+        <>
+          <div className="flex gap-1.5">
+            {TIMER_DURATIONS.map(duration => (
+              <button
+                key={duration}
+                onClick={() => onStart(duration, expiryAction)}
+                className="text-sm font-medium px-2.5 py-1 rounded border border-[#e3e8ee] text-[#3c4257] hover:border-[#635bff] hover:text-[#635bff]"
+                title={`Start a ${formatDuration(duration)} timer`}
+              >
+                {formatDuration(duration)}
+              </button>
+            ))}
+          </div>
+          <select
+            value={expiryAction}
+            onChange={(e) => setExpiryAction(e.target.value as TimerExpiryAction)}
+            className="ml-auto px-2 py-1 text-sm border border-[#e3e8ee] rounded bg-white text-[#1a1f36] focus:outline-none focus:border-[#635bff]"
+            aria-label="When the timer runs out"
+          >
+            <option value="reveal">Then reveal votes</option>
+            <option value="bell">Then ring the bell</option>
+          </select>
+        </>
+      )}
+    </div>
+  );
+}
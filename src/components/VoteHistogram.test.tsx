@@ -0,0 +1,59 @@
+/**
+ * @jest-environment jsdom
+ */
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { VoteHistogram } from './VoteHistogram';
+import { VOTING_SCALES, type Participant } from '@/types/poker';
+
+const voter = (id: string, name: string, vote: string): Participant => ({
+  id,
+  name,
+  role: 'voter',
+  vote,
+  avatar: 'chicken',
+});
+
+const voters = [voter('1', 'Alice', '5'), voter('2', 'Bob', '8'), voter('3', 'Carol', '8'), voter('4', 'Dan', '?')];
+const votes = voters.map(v => v.vote!);
+
+describe('VoteHistogram', () => {
+  it('has a labelled bar for every estimate card on the scale', () => {
+    render(<VoteHistogram votes={votes} scale={VOTING_SCALES.fibonacci} voters={voters} />);
+
+    expect(screen.getByRole('group', { name: 'Vote distribution' })).toBeInTheDocument();
+    expect(screen.getByLabelText('8: 2 votes (Bob, Carol)')).toBeInTheDocument();
+    expect(screen.getByLabelText('13: 0 votes')).toBeInTheDocument();
+  });
+
+  it('lists abstain cards apart', () => {
+    render(<VoteHistogram votes={votes} scale={VOTING_SCALES.fibonacci} voters={voters} />);
+
+    expect(screen.getByText('No estimate')).toBeInTheDocument();
+    expect(screen.getByLabelText('?: 1 vote (Dan)')).toBeInTheDocument();
+  });
+
+  it('leaves out names without voters (anonymous sessions)', () => {
+    render(<VoteHistogram votes={votes} scale={VOTING_SCALES.fibonacci} />);
+
+    expect(screen.getByLabelText('8: 2 votes')).toBeInTheDocument();
+  });
+
+  it('moves between bars with the arrow keys', () => {
+    render(<VoteHistogram votes={votes} scale={VOTING_SCALES.fibonacci} voters={voters} />);
+    const first = screen.getByLabelText('0: 0 votes');
+    const second = screen.getByLabelText('1: 0 votes');
+
+    // Only one bar is in the Tab order at a time
+    expect(first).toHaveAttribute('tabIndex', '0');
+    expect(second).toHaveAttribute('tabIndex', '-1');
+
+    first.focus();
+    fireEvent.keyDown(first, { key: 'ArrowDown' });
+    expect(second).toHaveFocus();
+    expect(second).toHaveAttribute('tabIndex', '0');
+
+    fireEvent.keyDown(second, { key: 'End' });
+    expect(screen.getByLabelText('?: 1 vote (Dan)')).toHaveFocus();
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * VoteHistogram - Bar chart of the revealed votes, part of VoteSummary.
+ *
+ * FEATURES:
+ * - A bar for every estimate card on the active scale, with its count and
+ *   the avatars of who voted it (none in anonymous sessions)
+ * - Abstain cards ('?', '☕') listed apart, under "No estimate"
+ * - Keyboard navigation: Tab onto the chart, then the arrow keys (and
+ *   Home/End) move between bars; each bar reads out its card, count and voters
+ *
+ * The bars are relative to the most picked card. Counting is done by
+ * getVoteHistogram (lib/votingUtils).
+ */
+
+import { useRef, useState } from 'react';
+import type { Participant, ScaleDefinition } from '@/types/poker';
+import { getVoteHistogram, type HistogramBar } from '@/lib/votingUtils';
+
+interface VoteHistogramProps {
+  votes: string[];            // Every voter's revealed card
+  scale?: ScaleDefinition;    // Active scale: which cards get a bar, and in what order
+  voters?: Participant[];     // Who voted what, for the avatars (missing in anonymous sessions)
+}
+
+/**
+ * What a screen reader announces for a bar, e.g. "8: 2 votes (Alice, Bob)".
+ */
+function describeBar({ vote, count }: HistogramBar, names: string[]): string {
+  const votes = `${count} ${count === 1 ? 'vote' : 'votes'}`;
+  return names.length > 0 ? `${vote}: ${votes} (${names.join(', ')})` : `${vote}: ${votes}`;
+}
+
+export function VoteHistogram({ votes, scale, voters = [] }: VoteHistogramProps) {
+  const [focusedIndex, setFocusedIndex] = useState(0);
+  const barRefs = useRef<(HTMLLIElement | null)[]>([]);
+
+  const { estimates, other } = getVoteHistogram(votes, scale);
+  const bars = [...estimates, ...other];
+  const maxCount = Math.max(1, ...bars.map(bar => bar.count));
+  // The bar you can Tab to; the list may have shrunk since it was focused
+  const activeIndex = Math.min(focusedIndex, bars.length - 1);
+
+  const moveFocus = (e: React.KeyboardEvent, index: number) => {
+    const next = e.key === 'ArrowDown' || e.key === 'ArrowRight' ? Math.min(index + 1, bars.length - 1)
+      : e.key === 'ArrowUp' || e.key === 'ArrowLeft' ? Math.max(index - 1, 0)
+      : e.key === 'Home' ? 0
+      : e.key === 'End' ? bars.length - 1
+      : null;
+    if (next === null) return;
+
+    e.preventDefault();
+    setFocusedIndex(next);
+    barRefs.current[next]?.focus();
+  };
+
+  const renderBar = (bar: HistogramBar, index: number) => {
+    const barVoters = voters.filter(p => p.vote === bar.vote);
+    return (
+      <li
+        key={bar.vote}
+        ref={(el) => { barRefs.current[index] = el; }}
+        tabIndex={index === activeIndex ? 0 : -1}
+        onKeyDown={(e) => moveFocus(e, index)}
+        onFocus={() => setFocusedIndex(index)}
+        aria-label={describeBar(bar, barVoters.map(p => p.name))}
+        className="flex items-center gap-2 text-sm rounded px-1 focus:outline-none focus:ring-2 focus:ring-[#635bff]/40"
+      >
+        <span className="w-8 text-right font-semibold text-[#1a1f36]">{bar.vote}</span>
+        <span className="flex-1 h-3 bg-[#f6f9fc] rounded-sm overflow-hidden">
+          <span className="block h-full bg-[#635bff] rounded-sm" style={{ width: `${(bar.count / maxCount) * 100}%` }} />
+        </span>
+        <span className="w-5 text-xs text-[#697386] tabular-nums">{bar.count}</span>
+        <span className="w-20 flex -space-x-1 overflow-hidden">
+          {barVoters.map(p => (
+            <img
+              key={p.id}
+              src={`/avatars/${p.avatar || 'chicken'}.png`}
+              alt=""
+              title={p.name}
+              className="w-5 h-5 rounded-full bg-white border border-[#e3e8ee] object-contain"
+            />
+          ))}
+        </span>
+      </li>
+    );
+  };
+
+  return (
+    <div role="group" aria-label="Vote distribution" className="space-y-2">
+      <ul className="space-y-1">
+        {estimates.map((bar, index) => renderBar(bar, index))}
+      </ul>
+      {other.length > 0 && (
+        <div>
+          <div className="text-xs font-medium text-[#697386] mb-1">No estimate</div>
+          <ul className="space-y-1">
+            {other.map((bar, index) => renderBar(bar, estimates.length + index))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+/**
+ * VoteNotes - "Explain your vote" notes under the revealed results.
+ *
+ * FEATURES:
+ * - Lists the notes the lowest and highest voters posted for this round
+ * - Asks the current user to explain their card when they were one of them
+ *   (posting again replaces their note)
+ *
+ * Notes are attached to the round on the server, so they're broadcast to
+ * everyone and kept with the round in history.
+ */
+
+import { useState } from 'react';
+import { MAX_NOTE_LENGTH, type VoteNote } from '@/types/poker';
+import type { VoteOutlier } from '@/lib/votingUtils';
+
+interface VoteNotesProps {
+  notes: VoteNote[];                   // Notes on the revealed round, oldest first
+  myOutlier?: VoteOutlier;             // Set when the current user holds the lowest or highest card
+  onSubmit?: (text: string) => void;   // Post the current user's note
+}
+
+export function VoteNotes({ notes, myOutlier, onSubmit }: VoteNotesProps) {
+  const [text, setText] = useState('');
+  const canExplain = !!myOutlier && !!onSubmit;
+
+  if (notes.length === 0 && !canExplain) return null;
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim()) return;
+    onSubmit?.(text.trim());
+    setText('');
+  };
+
+  return (
+    <div className="mt-4 pt-3 border-t border-[#e3e8ee] space-y-2">
+      {notes.length > 0 && (
+        <ul className="space-y-1.5 text-sm">
+          {notes.map(note => (
+            <li key={note.participantId} className="text-[#3c4257]">
+              <span className="font-medium">{note.name}</span>
+              <span className="text-[#697386]"> ({note.vote}): </span>
+              {note.text}
+            </li>
+          ))}
+        </ul>
+      )}
+      {canExplain && (
+        <form onSubmit={submit} className="flex gap-2">
+          <input
+            type="text"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            maxLength={MAX_NOTE_LENGTH}
+            placeholder={`You voted the ${myOutlier === 'low' ? 'lowest' : 'highest'} - why?`}
+            className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-[#e3e8ee] rounded bg-white text-[#1a1f36] focus:outline-none focus:border-[#635bff]"
+            aria-label="Explain your vote"
+          />
+          <button type="submit" disabled={!text.trim()} className="btn btn-secondary text-sm">
+            Explain
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -3,52 +3,85 @@
  *
  * FEATURES:
  * - Shows statistics (Average, Min, Max) for numeric votes
- * - Highlights consensus with a green "Consensus!" message
- * - Shows majority/joint majority votes as clickable buttons
+ *   (cards with a weight on the active scale count as numeric; abstain cards never do)
+ * - For ordered scales whose cards aren't numbers (e.g. t-shirt sizes),
+ *   shows the median and range as cards instead (see getOrdinalStatistics)
+ * - Shows how strongly the team agrees: median, standard deviation,
+ *   spread in scale cards and the share of estimates on the most common card
+ * - Shows how many voters picked each card, and who, as a bar chart
+ *   (see VoteHistogram)
+ * - Highlights consensus with a green "Consensus!" message, and calls out
+ *   a near consensus (every estimate on two adjacent cards)
+ * - Shows majority/joint majority votes as clickable buttons, with a
+ *   suggested estimate that is a real card (the median or average snapped
+ *   to the scale, see suggestEstimate) to save in one click
  * - Allows entering a custom vote value to save to history
+ * - After a re-vote, lists the story's earlier rounds for comparison
  *
  * WHEN IS IT SHOWN?
  * Only after the "Reveal Votes" button is clicked.
  * Before that, users see the voting cards instead.
+ *
+ * The cards come apart from who voted them, so it works the same for
+ * anonymous sessions (there are just no voters to show).
  */
 
-import type { Participant } from '@/types/poker';
+import type { Participant, RoundRecord, ScaleDefinition, SuggestionBasis, SuggestionRounding } from '@/types/poker';
+import { getConsensusMetrics, getOrdinalStatistics, getVoteStatistics, suggestEstimate } from '@/lib/votingUtils';
+import { VoteHistogram } from '@/components/VoteHistogram';
 
 interface VoteSummaryProps {
-  participants: Participant[];           // All participants (we filter to voters only)
+  votes: string[];                       // Every voter's revealed card
+  voters?: Participant[];                // Who voted what (missing in anonymous sessions)
+  scale?: ScaleDefinition;               // Active scale, used to turn cards into numbers
   onSelectVote?: (vote: string) => void; // Called when user clicks a vote to save to history
   canSelect?: boolean;                   // Enable clicking votes (requires story name)
   customVote?: string;                   // Custom vote input value
   onCustomVoteChange?: (value: string) => void; // Handler for custom vote input
+  previousRounds?: RoundRecord[];        // Earlier rounds of this story, oldest first (see getPreviousRounds)
+  suggestionBasis?: SuggestionBasis;     // Suggest from the median or the mean (session setting)
+  suggestionRounding?: SuggestionRounding; // Snap to the nearest card or the next one up (session setting)
 }
 
 export function VoteSummary({
-  participants,
+  votes: allVotes,
+  voters,
+  scale,
   onSelectVote,
   canSelect,
   customVote,
-  onCustomVoteChange
+  onCustomVoteChange,
+  previousRounds = [],
+  suggestionBasis,
+  suggestionRounding
 }: VoteSummaryProps) {
-  // Step 1: Extract votes from voters only (not observers)
-  const allVotes = participants
-    .filter((p) => p.role === 'voter')
-    .map((p) => p.vote)
-    .filter((v): v is string => v !== null);
-
   if (allVotes.length === 0) {
     return <p className="text-[#8792a2]">No votes cast</p>;
   }
 
-  // Step 2: Separate numeric votes for statistics
-  // Filter out non-numeric votes like '?' or '☕'
-  const numericVotes = allVotes
-    .filter((v) => !isNaN(Number(v)))
-    .map(Number);
+  // Step 1: Statistics for numeric votes
+  // Non-numeric votes like '?' or '☕' are left out (see getVoteStatistics)
+  const stats = getVoteStatistics(allVotes, scale);
+
+  // Otherwise, where the cards sit on the scale (e.g. 'Median: M, Range: S–XL')
+  const ordinalStats = !stats && scale ? getOrdinalStatistics(allVotes, scale) : null;
 
-  // Only show Average/Min/Max if we have numeric votes
-  const hasNumericVotes = numericVotes.length > 0;
+  // Only show statistics if we have numeric (or ordered) votes
+  const hasNumericVotes = stats !== null || ordinalStats !== null;
 
-  // Step 3: Count how many times each vote appears
+  // How strongly the team agrees (see getConsensusMetrics)
+  const metrics = getConsensusMetrics(allVotes, scale);
+  const metricItems = [
+    metrics.median !== null && `Median ${Number(metrics.median.toFixed(1))}`,
+    metrics.standardDeviation !== null && `Std dev ${metrics.standardDeviation.toFixed(1)}`,
+    metrics.stepSpread !== null && `Spread ${metrics.stepSpread} ${metrics.stepSpread === 1 ? 'card' : 'cards'}`,
+    metrics.agreement !== null && `${Math.round(metrics.agreement)}% agree`,
+  ].filter((item): item is string => !!item);
+
+  // A card to save instead of the average, which is rarely on the scale
+  const suggestion = scale ? suggestEstimate(allVotes, scale, suggestionBasis, suggestionRounding) : null;
+
+  // Step 2: Count how many times each vote appears
   // e.g., ['5', '5', '8'] -> { '5': 2, '8': 1 }
   const voteCounts = allVotes.reduce((acc, vote) => {
     acc[vote] = (acc[vote] || 0) + 1;
@@ -66,36 +99,53 @@ export function VoteSummary({
   // Consensus: everyone voted the same AND there are 2+ votes
   const hasConsensus = allVotes.length > 1 && majorityVotes.length === 1 && maxCount === allVotes.length;
 
-  // Calculate statistics for numeric votes
-  const average = hasNumericVotes ? numericVotes.reduce((a, b) => a + b, 0) / numericVotes.length : 0;
-  const min = hasNumericVotes ? Math.min(...numericVotes) : 0;
-  const max = hasNumericVotes ? Math.max(...numericVotes) : 0;
-
   return (
     <div className="space-y-4">
       {/* Only show Average/Min/Max for numeric scales */}
-      {hasNumericVotes && (
+      {stats && (
         <div className="grid grid-cols-3 gap-3">
           <div className="bg-[#f6f9fc] rounded-md p-3 text-center border border-[#e3e8ee]">
             <div className="text-2xl font-semibold text-[#1a1f36]">
-              {average.toFixed(1)}
+              {stats.average.toFixed(1)}
             </div>
             <div className="text-xs text-[#697386] mt-0.5">Average</div>
           </div>
           <div className="bg-[#f6f9fc] rounded-md p-3 text-center border border-[#e3e8ee]">
             <div className="text-2xl font-semibold text-[#1a1f36]">
-              {min}
+              {stats.min}
             </div>
             <div className="text-xs text-[#697386] mt-0.5">Min</div>
           </div>
           <div className="bg-[#f6f9fc] rounded-md p-3 text-center border border-[#e3e8ee]">
             <div className="text-2xl font-semibold text-[#1a1f36]">
-              {max}
+              {stats.max}
             </div>
             <div className="text-xs text-[#697386] mt-0.5">Max</div>
           </div>
         </div>
       )}
+      {ordinalStats && (
+        <div className="grid grid-cols-2 gap-3">
+          <div className="bg-[#f6f9fc] rounded-md p-3 text-center border border-[#e3e8ee]">
+            <div className="text-2xl font-semibold text-[#1a1f36]">
+              {ordinalStats.median}
+            </div>
+            <div className="text-xs text-[#697386] mt-0.5">Median</div>
+          </div>
+          <div className="bg-[#f6f9fc] rounded-md p-3 text-center border border-[#e3e8ee]">
+            <div className="text-2xl font-semibold text-[#1a1f36]">
+              {ordinalStats.min === ordinalStats.max ? ordinalStats.min : `${ordinalStats.min}–${ordinalStats.max}`}
+            </div>
+            <div className="text-xs text-[#697386] mt-0.5">Range</div>
+          </div>
+        </div>
+      )}
+      {metricItems.length > 0 && allVotes.length > 1 && (
+        <div className="flex flex-wrap justify-center gap-x-3 gap-y-1 text-xs text-[#697386]">
+          {metricItems.map((item) => <span key={item}>{item}</span>)}
+        </div>
+      )}
+      <VoteHistogram votes={allVotes} scale={scale} voters={voters} />
       {hasConsensus ? (
         <div className={`text-center ${hasNumericVotes ? 'pt-4 border-t border-[#e3e8ee]' : ''}`}>
           <div
@@ -124,6 +174,9 @@ export function VoteSummary({
         </div>
       ) : majorityVotes.length > 0 && (
         <div className={`text-center ${hasNumericVotes ? 'pt-4 border-t border-[#e3e8ee]' : ''}`}>
+          {metrics.nearConsensus && (
+            <div className="text-sm font-medium text-[#30c48d] mb-2">Near consensus</div>
+          )}
           <div className="flex justify-center items-center gap-3">
             {majorityVotes.map((vote) => (
               <span
@@ -144,6 +197,24 @@ export function VoteSummary({
               </>
             )}
           </div>
+          {suggestion !== null && (
+            <div className="mt-3 text-sm text-[#697386]">
+              {canSelect ? (
+                <button
+                  onClick={() => onSelectVote?.(suggestion)}
+                  className="font-medium px-3 py-1.5 rounded-md border border-[#635bff]/30 bg-[#f5f8ff] text-[#635bff] hover:bg-[#e0e7ff]"
+                >
+                  Save suggested estimate: {suggestion}
+                </button>
+              ) : (
+                <>Suggested estimate: <span className="font-semibold text-[#1a1f36]">{suggestion}</span></>
+              )}
+              <div className="text-xs text-[#8792a2] mt-1">
+                {suggestionBasis === 'mean' ? 'Average' : 'Median'}
+                {suggestionRounding === 'up' ? ', rounded up to the next card' : ', on the nearest card'}
+              </div>
+            </div>
+          )}
           {canSelect && (
             <div className="mt-4">
               <input
@@ -159,6 +230,38 @@ export function VoteSummary({
           )}
         </div>
       )}
+      {previousRounds.length > 0 && (
+        <div className="pt-4 border-t border-[#e3e8ee]">
+          <div className="text-xs font-medium text-[#697386] mb-2">Previous rounds</div>
+          <ol className="space-y-2">
+            {previousRounds.map((round) => {
+              const roundOrdinal = round.average === undefined && scale
+                ? getOrdinalStatistics(round.votes.map(v => v.vote), scale)
+                : null;
+              return (
+                <li key={round.id} className="text-sm">
+                  <div className="text-[#3c4257]">
+                    <span className="font-medium">Round {round.round}</span>
+                    {round.average !== undefined && (
+                      <span className="text-[#697386]"> · avg {round.average.toFixed(1)} ({round.min}–{round.max})</span>
+                    )}
+                    {roundOrdinal && (
+                      <span className="text-[#697386]"> · median {roundOrdinal.median} ({roundOrdinal.min}–{roundOrdinal.max})</span>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-1.5 mt-1">
+                    {round.votes.map((v, index) => (
+                      <span key={v.participantId ?? index} className="text-xs bg-[#f6f9fc] border border-[#e3e8ee] rounded px-1.5 py-0.5 text-[#3c4257]">
+                        {v.name !== undefined && `${v.name}: `}<span className="font-semibold">{v.vote}</span>
+                      </span>
+                    ))}
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      )}
     </div>
   );
 }
@@ -156,3 +156,15 @@ export function EyeIcon({ className }: { className?: string }) {
     </svg>
   );
 }
+
+/**
+ * Flag icon - Shown on the facilitator's participant card.
+ * Indicates the participant runs the session.
+ */
+export function FlagIcon({ className }: { className?: string }) {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 21v-4m0 0V5a2 2 0 012-2h6.5l1 1H21l-3 6 3 6h-8.5l-1-1H5a2 2 0 00-2 2zm9-13.5V9" />
+    </svg>
+  );
+}
@@ -0,0 +1,80 @@
+import { checkSessionAccess, handleSessionBusy, SESSION_BUSY_RETRY_AFTER } from './apiErrors';
+import { SessionBusyError, type Session } from './sessionManager';
+import { generateToken, hashToken } from './tokens';
+
+const mockGetSession = jest.fn();
+jest.mock('./sessionManager', () => ({
+  ...jest.requireActual('./sessionManager'),
+  getSession: (...args: unknown[]) => mockGetSession(...args),
+}));
+
+describe('handleSessionBusy', () => {
+  it('passes responses through', async () => {
+    const handler = handleSessionBusy(async () => new Response('ok'));
+
+    expect(await (await handler()).text()).toBe('ok');
+  });
+
+  it('answers a busy session with 503 and Retry-After', async () => {
+    const handler = handleSessionBusy(async () => {
+      throw new SessionBusyError('test-123');
+    });
+
+    const response = await handler();
+
+    expect(response.status).toBe(503);
+    expect(response.headers.get('Retry-After')).toBe(String(SESSION_BUSY_RETRY_AFTER));
+  });
+
+  it('rethrows other errors', async () => {
+    const handler = handleSessionBusy(async () => {
+      throw new Error('boom');
+    });
+
+    await expect(handler()).rejects.toThrow('boom');
+  });
+});
+
+describe('checkSessionAccess', () => {
+  const participantToken = generateToken();
+  const ownerToken = generateToken();
+  const session: Session = {
+    id: 'test-123',
+    name: 'Test',
+    participants: [{ id: 'user-1', name: 'Alice', role: 'voter', vote: null, avatar: 'dog', tokenHash: hashToken(participantToken) }],
+    revealed: false,
+    story: '',
+    storyLocked: false,
+    settings: { facilitatorOnly: true },
+    ownerTokenHash: hashToken(ownerToken),
+    createdAt: '2024-01-01T00:00:00Z',
+    lastActivity: '2024-01-01T00:00:00Z',
+  };
+
+  beforeEach(() => {
+    mockGetSession.mockResolvedValue(session);
+  });
+
+  it('answers 404 when the session does not exist', async () => {
+    mockGetSession.mockResolvedValue(null);
+
+    const denied = await checkSessionAccess('test-123', {}, {});
+
+    expect(denied?.status).toBe(404);
+  });
+
+  it('lets a participant holding their token go ahead', async () => {
+    expect(await checkSessionAccess('test-123', { participantId: 'user-1', participantToken }, { participant: true })).toBeNull();
+
+    const denied = await checkSessionAccess('test-123', { participantId: 'user-1', participantToken: 'wrong' }, { participant: true });
+    expect(denied?.status).toBe(403);
+  });
+
+  it('names what only the facilitator can do', async () => {
+    const denied = await checkSessionAccess('test-123', {}, { facilitatorAction: 'run the timer' });
+
+    expect(denied?.status).toBe(403);
+    expect(await denied?.json()).toEqual({ error: 'Only the facilitator can run the timer' });
+    expect(await checkSessionAccess('test-123', { ownerToken }, { facilitatorAction: 'run the timer' })).toBeNull();
+  });
+});
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { SessionBusyError, canControlRound, getSession, isParticipant } from '@/lib/sessionManager';
+
+/** Seconds a client should wait before retrying a request the session was too busy for. */
+export const SESSION_BUSY_RETRY_AFTER = 1;
+
+/**
+ * Wraps a route handler that changes a session, so a session too busy to
+ * update (see SessionBusyError) is answered with 503 and Retry-After
+ * instead of a 500. Nothing was written, so the client just retries
+ * (see fetchWithRetry).
+ */
+export function handleSessionBusy<Args extends unknown[]>(
+  handler: (...args: Args) => Promise<Response>
+): (...args: Args) => Promise<Response> {
+  return async (...args) => {
+    try {
+      return await handler(...args);
+    } catch (error) {
+      if (!(error instanceof SessionBusyError)) throw error;
+
+      return NextResponse.json(
+        { error: 'The session is busy, please try again' },
+        { status: 503, headers: { 'Retry-After': String(SESSION_BUSY_RETRY_AFTER) } }
+      );
+    }
+  };
+}
+
+/**
+ * Loads a session and checks a request may change it.
+ *
+ * @param credentials - From the request body
+ * @param options.participant - Whether the request must come from someone
+ *   in the session (holding their participant token)
+ * @param options.facilitatorAction - If set, only the facilitator may do this
+ *   in facilitator-only sessions (see canControlRound); it finishes the
+ *   403 message "Only the facilitator can ..."
+ * @returns An error response, or null if the request may go ahead
+ */
+export async function checkSessionAccess(
+  sessionId: string,
+  { participantId, participantToken, ownerToken }: Record<string, unknown>,
+  options: { participant?: boolean; facilitatorAction?: string }
+): Promise<NextResponse | null> {
+  const session = await getSession(sessionId);
+  if (!session) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+  }
+  if (options.participant && !isParticipant(session, participantId, participantToken)) {
+    return NextResponse.json({ error: 'Invalid participant token' }, { status: 403 });
+  }
+  if (options.facilitatorAction !== undefined && !canControlRound(session, ownerToken)) {
+    return NextResponse.json({ error: `Only the facilitator can ${options.facilitatorAction}` }, { status: 403 });
+  }
+  return null;
+}
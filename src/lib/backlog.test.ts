@@ -0,0 +1,61 @@
+import { getNextBacklogItem, moveBacklogItem, getBacklogProgress } from './backlog';
+import type { BacklogItem } from '@/types/poker';
+
+const item = (id: string, status: BacklogItem['status'] = 'pending'): BacklogItem => ({
+  id,
+  title: `Story ${id}`,
+  status,
+});
+
+describe('getNextBacklogItem', () => {
+  it('returns undefined for a missing or empty backlog', () => {
+    expect(getNextBacklogItem(undefined)).toBeUndefined();
+    expect(getNextBacklogItem([])).toBeUndefined();
+  });
+
+  it('returns the first pending item', () => {
+    const backlog = [item('a', 'estimated'), item('b', 'skipped'), item('c'), item('d')];
+    expect(getNextBacklogItem(backlog)?.id).toBe('c');
+  });
+
+  it('returns undefined when nothing is pending', () => {
+    expect(getNextBacklogItem([item('a', 'estimated'), item('b', 'skipped')])).toBeUndefined();
+  });
+});
+
+describe('moveBacklogItem', () => {
+  const backlog = [item('a'), item('b'), item('c')];
+
+  it('moves an item down', () => {
+    expect(moveBacklogItem(backlog, 'a', 2)?.map(i => i.id)).toEqual(['b', 'c', 'a']);
+  });
+
+  it('moves an item up', () => {
+    expect(moveBacklogItem(backlog, 'c', 0)?.map(i => i.id)).toEqual(['c', 'a', 'b']);
+  });
+
+  it('clamps out-of-range positions', () => {
+    expect(moveBacklogItem(backlog, 'b', -5)?.map(i => i.id)).toEqual(['b', 'a', 'c']);
+    expect(moveBacklogItem(backlog, 'b', 99)?.map(i => i.id)).toEqual(['a', 'c', 'b']);
+  });
+
+  it('does not change the original list', () => {
+    moveBacklogItem(backlog, 'a', 2);
+    expect(backlog.map(i => i.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('returns null for an unknown item', () => {
+    expect(moveBacklogItem(backlog, 'missing', 0)).toBeNull();
+  });
+});
+
+describe('getBacklogProgress', () => {
+  it('counts items by status', () => {
+    const backlog = [item('a', 'estimated'), item('b', 'skipped'), item('c'), item('d', 'estimated')];
+    expect(getBacklogProgress(backlog)).toEqual({ pending: 1, estimated: 2, skipped: 1, total: 4 });
+  });
+
+  it('returns zeros without a backlog', () => {
+    expect(getBacklogProgress(undefined)).toEqual({ pending: 0, estimated: 0, skipped: 0, total: 0 });
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Story backlog utilities.
+ *
+ * The backlog is an ordered list of stories stored on the session.
+ * These helpers work out which item comes next, reorder items and
+ * summarise progress through the meeting.
+ *
+ * The size limits here (MAX_BACKLOG_ITEMS, MAX_BACKLOG_TITLE_LENGTH) apply
+ * to stories added by hand and to imported ones alike.
+ */
+
+import type { BacklogItem } from '@/types/poker';
+
+/** Limits for the backlog, to keep the session payload sane. */
+export const MAX_BACKLOG_ITEMS = 200;
+export const MAX_BACKLOG_TITLE_LENGTH = 200;
+
+/**
+ * The item the next round should estimate: the first pending one.
+ * Estimated and skipped items are passed over.
+ */
+export function getNextBacklogItem(backlog: BacklogItem[] | undefined): BacklogItem | undefined {
+  return backlog?.find(item => item.status === 'pending');
+}
+
+/**
+ * Moves an item to a new position in the backlog.
+ *
+ * @param toIndex - Position the item should end up at (clamped to the list)
+ * @returns A new, reordered list, or null if the item isn't in the backlog
+ */
+export function moveBacklogItem(backlog: BacklogItem[], itemId: string, toIndex: number): BacklogItem[] | null {
+  const fromIndex = backlog.findIndex(item => item.id === itemId);
+  if (fromIndex === -1) return null;
+
+  const reordered = [...backlog];
+  const [item] = reordered.splice(fromIndex, 1);
+  const clampedIndex = Math.max(0, Math.min(toIndex, reordered.length));
+  reordered.splice(clampedIndex, 0, item);
+  return reordered;
+}
+
+/**
+ * How many items are in each state, for the "3 of 10 estimated" summary.
+ */
+export interface BacklogProgress {
+  pending: number;
+  estimated: number;
+  skipped: number;
+  total: number;
+}
+
+export function getBacklogProgress(backlog: BacklogItem[] | undefined): BacklogProgress {
+  const progress: BacklogProgress = { pending: 0, estimated: 0, skipped: 0, total: 0 };
+  backlog?.forEach(item => {
+    progress[item.status]++;
+    progress.total++;
+  });
+  return progress;
+}
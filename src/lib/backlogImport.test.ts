@@ -0,0 +1,126 @@
+import { parseBacklogImport, parseCsv, detectImportFormat, MAX_KEY_LENGTH } from './backlogImport';
+
+describe('detectImportFormat', () => {
+  it('detects JSON arrays and objects', () => {
+    expect(detectImportFormat('[{"title": "Login"}]')).toBe('json');
+    expect(detectImportFormat('  \n{"stories": []}')).toBe('json');
+  });
+
+  it('treats anything else as CSV', () => {
+    expect(detectImportFormat('title\nLogin')).toBe('csv');
+  });
+});
+
+describe('parseCsv', () => {
+  it('splits rows and fields', () => {
+    expect(parseCsv('a,b\nc,d')).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+
+  it('handles quoted fields with commas, quotes and newlines', () => {
+    expect(parseCsv('"a, b","say ""hi""","line 1\nline 2"')).toEqual([['a, b', 'say "hi"', 'line 1\nline 2']]);
+  });
+
+  it('handles Windows line endings, a trailing newline and blank lines', () => {
+    expect(parseCsv('a,b\r\n\r\nc,d\r\n')).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+
+  it('strips a byte order mark', () => {
+    expect(parseCsv('\uFEFFtitle\nLogin')).toEqual([['title'], ['Login']]);
+  });
+
+  it('keeps empty fields', () => {
+    expect(parseCsv('a,,c')).toEqual([['a', '', 'c']]);
+  });
+});
+
+describe('parseBacklogImport', () => {
+  describe('CSV', () => {
+    it('imports every column', () => {
+      const csv = 'Key,Title,Description,Link\nAPP-1,Login,"Email, password",https://tracker.example/APP-1';
+
+      expect(parseBacklogImport(csv)).toEqual({
+        items: [{
+          key: 'APP-1',
+          title: 'Login',
+          description: 'Email, password',
+          link: 'https://tracker.example/APP-1',
+        }],
+        rejected: [],
+      });
+    });
+
+    it('recognises header aliases and ignores unknown columns', () => {
+      const csv = 'Issue key,Summary,Priority,URL\nAPP-2,Signup,High,';
+
+      expect(parseBacklogImport(csv).items).toEqual([{ key: 'APP-2', title: 'Signup' }]);
+    });
+
+    it('rejects invalid rows and keeps the rest', () => {
+      const csv = [
+        'key,title,link',
+        'APP-1,Login,',
+        'APP-2,,',
+        'APP-3,Signup,not-a-url',
+        `${'X'.repeat(MAX_KEY_LENGTH + 1)},Logout,`,
+      ].join('\n');
+
+      const result = parseBacklogImport(csv);
+
+      expect(result.items).toEqual([{ key: 'APP-1', title: 'Login' }]);
+      expect(result.rejected).toEqual([
+        { row: 2, reason: 'Missing title' },
+        { row: 3, reason: 'Link must be an http(s) URL' },
+        { row: 4, reason: `Key is longer than ${MAX_KEY_LENGTH} characters` },
+      ]);
+    });
+
+    it('needs a title column', () => {
+      const result = parseBacklogImport('key,description\nAPP-1,Something');
+
+      expect(result.items).toEqual([]);
+      expect(result.error).toMatch(/title/);
+    });
+
+    it('reports an empty file', () => {
+      expect(parseBacklogImport('', 'csv').error).toBe('The file is empty');
+    });
+  });
+
+  describe('JSON', () => {
+    it('imports an array of stories', () => {
+      const json = JSON.stringify([
+        { key: 'APP-1', title: 'Login', link: 'https://tracker.example/APP-1' },
+        { summary: 'Signup', id: 42 },
+      ]);
+
+      expect(parseBacklogImport(json).items).toEqual([
+        { key: 'APP-1', title: 'Login', link: 'https://tracker.example/APP-1' },
+        { key: '42', title: 'Signup' },
+      ]);
+    });
+
+    it('imports a { stories } object', () => {
+      const json = JSON.stringify({ stories: [{ title: 'Login' }] });
+
+      expect(parseBacklogImport(json).items).toEqual([{ title: 'Login' }]);
+    });
+
+    it('rejects rows that are not stories', () => {
+      const json = JSON.stringify([{ title: 'Login' }, 'Signup', { title: ['nested'] }, {}]);
+
+      expect(parseBacklogImport(json).rejected).toEqual([
+        { row: 2, reason: 'Each story must be an object' },
+        { row: 3, reason: 'Fields must be text' },
+        { row: 4, reason: 'Missing title' },
+      ]);
+    });
+
+    it('reports invalid JSON', () => {
+      expect(parseBacklogImport('[{"title": ', 'json').error).toBe('The JSON could not be read');
+    });
+
+    it('reports JSON that is not a list', () => {
+      expect(parseBacklogImport('{"title": "Login"}').error).toBe('The JSON must be a list of stories');
+    });
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Parses ticket exports (CSV or JSON) into backlog stories.
+ *
+ * Teams export a list of tickets from their tracker before sprint planning
+ * and paste or upload it here. Every row is validated on its own, so one bad
+ * row doesn't stop the rest from being imported - rejected rows are reported
+ * back with the reason.
+ *
+ * ACCEPTED COLUMNS (case-insensitive, extra columns are ignored):
+ * - key:         Ticket key, e.g. "PROJ-123"  (also: ticket, id, issue key)
+ * - title:       Required                     (also: summary, name, story)
+ * - description: Optional                     (also: details)
+ * - link:        Optional http(s) URL         (also: url)
+ *
+ * CSV needs a header row naming the columns. JSON is an array of objects
+ * with the same fields (or an object with a "stories" array).
+ */
+
+import { MAX_BACKLOG_TITLE_LENGTH } from '@/lib/backlog';
+import type { NewBacklogItem } from '@/types/poker';
+
+/** Limits for the optional fields, to keep the session payload sane. */
+export const MAX_KEY_LENGTH = 40;
+export const MAX_DESCRIPTION_LENGTH = 2000;
+export const MAX_LINK_LENGTH = 500;
+
+export type ImportFormat = 'csv' | 'json';
+
+/**
+ * A row that couldn't be imported.
+ * row is 1-based and counts data rows only (the CSV header isn't row 1).
+ */
+export interface RejectedRow {
+  row: number;
+  reason: string;
+}
+
+export interface ImportResult {
+  items: NewBacklogItem[];
+  rejected: RejectedRow[];
+  error?: string;  // Set when the whole input couldn't be read (e.g. invalid JSON)
+}
+
+/**
+ * What the import API reports back to the browser.
+ * overLimit counts valid stories that didn't fit in the backlog.
+ */
+export interface ImportReport {
+  imported: number;
+  rejected: RejectedRow[];
+  overLimit: number;
+  error?: string;
+}
+
+// Column names we recognise for each field
+const FIELD_ALIASES: Record<keyof NewBacklogItem, string[]> = {
+  key: ['key', 'ticket', 'id', 'issue key', 'issue'],
+  title: ['title', 'summary', 'name', 'story'],
+  description: ['description', 'details'],
+  link: ['link', 'url'],
+};
+
+/**
+ * Guesses the format from the content: JSON starts with [ or {.
+ */
+export function detectImportFormat(content: string): ImportFormat {
+  return /^\s*[[{]/.test(content) ? 'json' : 'csv';
+}
+
+/**
+ * Splits CSV text into rows of fields (RFC 4180).
+ * Handles quoted fields containing commas, newlines and "" escaped quotes.
+ */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip a byte order mark (spreadsheet apps like to add one)
+  const text = content.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  // Last row (when the file doesn't end with a newline)
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(fields => fields.some(f => f.trim() !== ''));
+}
+
+/**
+ * Finds which field a column header names, if any.
+ */
+function fieldForHeader(header: string): keyof NewBacklogItem | undefined {
+  const normalized = header.trim().toLowerCase();
+  return (Object.keys(FIELD_ALIASES) as (keyof NewBacklogItem)[])
+    .find(field => FIELD_ALIASES[field].includes(normalized));
+}
+
+/**
+ * Checks one row's fields and builds the story from them.
+ * @returns The story, or the reason the row was rejected
+ */
+function validateRow(raw: Partial<Record<keyof NewBacklogItem, unknown>>): NewBacklogItem | string {
+  const text = (value: unknown) =>
+    typeof value === 'string' ? value.trim()
+      : typeof value === 'number' ? String(value)
+      : value === undefined || value === null ? ''
+      : null;
+
+  const title = text(raw.title);
+  const key = text(raw.key);
+  const description = text(raw.description);
+  const link = text(raw.link);
+
+  if (title === null || key === null || description === null || link === null) {
+    return 'Fields must be text';
+  }
+  if (!title) return 'Missing title';
+  if (title.length > MAX_BACKLOG_TITLE_LENGTH) return `Title is longer than ${MAX_BACKLOG_TITLE_LENGTH} characters`;
+  if (key.length > MAX_KEY_LENGTH) return `Key is longer than ${MAX_KEY_LENGTH} characters`;
+  if (description.length > MAX_DESCRIPTION_LENGTH) return `Description is longer than ${MAX_DESCRIPTION_LENGTH} characters`;
+  if (link && (link.length > MAX_LINK_LENGTH || !/^https?:\/\/\S+$/i.test(link))) {
+    return 'Link must be an http(s) URL';
+  }
+
+  return {
+    title,
+    ...(key && { key }),
+    ...(description && { description }),
+    ...(link && { link }),
+  };
+}
+
+/**
+ * Validates every row, collecting the stories and the rejections.
+ */
+function validateRows(rows: (Partial<Record<keyof NewBacklogItem, unknown>> | null)[]): ImportResult {
+  const result: ImportResult = { items: [], rejected: [] };
+  rows.forEach((raw, index) => {
+    const item = raw ? validateRow(raw) : 'Each story must be an object';
+    if (typeof item === 'string') {
+      result.rejected.push({ row: index + 1, reason: item });
+    } else {
+      result.items.push(item);
+    }
+  });
+  return result;
+}
+
+function parseCsvImport(content: string): ImportResult {
+  const [headers, ...rows] = parseCsv(content);
+  if (!headers) return { items: [], rejected: [], error: 'The file is empty' };
+
+  const fields = headers.map(fieldForHeader);
+  if (!fields.includes('title')) {
+    return { items: [], rejected: [], error: 'The CSV needs a header row with a "title" (or "summary") column' };
+  }
+
+  return validateRows(rows.map(values => {
+    const raw: Partial<Record<keyof NewBacklogItem, unknown>> = {};
+    fields.forEach((field, column) => {
+      if (field && raw[field] === undefined) raw[field] = values[column];
+    });
+    return raw;
+  }));
+}
+
+function parseJsonImport(content: string): ImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    return { items: [], rejected: [], error: 'The JSON could not be read' };
+  }
+
+  // Accept a bare array or { stories: [...] }
+  const rows = Array.isArray(data) ? data
+    : data && typeof data === 'object' && Array.isArray((data as { stories?: unknown }).stories)
+      ? (data as { stories: unknown[] }).stories
+      : null;
+  if (!rows) {
+    return { items: [], rejected: [], error: 'The JSON must be a list of stories' };
+  }
+
+  return validateRows(rows.map(row => {
+    if (!row || typeof row !== 'object' || Array.isArray(row)) return null;
+
+    // Match keys the same way as CSV headers
+    const raw: Partial<Record<keyof NewBacklogItem, unknown>> = {};
+    Object.entries(row).forEach(([name, value]) => {
+      const field = fieldForHeader(name);
+      if (field && raw[field] === undefined) raw[field] = value;
+    });
+    return raw;
+  }));
+}
+
+/**
+ * Parses an exported ticket list into backlog stories.
+ *
+ * @param format - Detected from the content when not given
+ */
+export function parseBacklogImport(content: string, format: ImportFormat = detectImportFormat(content)): ImportResult {
+  return format === 'json' ? parseJsonImport(content) : parseCsvImport(content);
+}
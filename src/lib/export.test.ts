@@ -0,0 +1,207 @@
+import {
+  renderExport,
+  escapeCsvField,
+  getVoterNames,
+  getExportFileName,
+  isExportFormat,
+  type ExportableSession,
+} from './export';
+import type { HistoryEntry, RoundRecord } from '@/types/poker';
+
+const savedAt = Date.UTC(2024, 0, 1, 10, 0, 0);
+const exportedAt = Date.UTC(2024, 0, 1, 12, 0, 0);
+
+const login: HistoryEntry = {
+  id: 'entry-1',
+  story: 'Login',
+  vote: '5',
+  timestamp: savedAt,
+  votes: [
+    { participantId: 'p1', name: 'Alice', vote: '5' },
+    { participantId: 'p2', name: 'Bob', vote: '5' },
+  ],
+  resultType: 'consensus',
+  roundCount: 1,
+};
+
+const signup: HistoryEntry = {
+  id: 'entry-2',
+  story: 'Signup, with "SSO"',
+  vote: '8',
+  timestamp: savedAt,
+  votes: [
+    { participantId: 'p2', name: 'Bob', vote: '8' },
+    { participantId: 'p3', name: 'Carol', vote: '13' },
+  ],
+  resultType: 'joint',
+  roundCount: 2,
+  duration: 95400,
+};
+
+// Saved before votes were recorded
+const legacy: HistoryEntry = { id: 'entry-3', story: 'Logout', vote: '1', timestamp: savedAt };
+
+const signupRound: RoundRecord = {
+  id: 'round-1',
+  story: 'Signup, with "SSO"',
+  round: 1,
+  votes: [
+    { participantId: 'p2', name: 'Bob', vote: '3' },
+    { participantId: 'p3', name: 'Carol', vote: '13' },
+  ],
+  resultType: 'joint',
+  average: 8,
+  min: 3,
+  max: 13,
+  revealedAt: savedAt,
+  historyEntryId: 'entry-2',
+  notes: [{ participantId: 'p2', name: 'Bob', vote: '3', text: 'Reuses the login flow', createdAt: savedAt }],
+};
+
+const session: ExportableSession = {
+  id: 'abc',
+  name: 'Sprint 42',
+  history: [login, signup, legacy],
+  rounds: [signupRound],
+};
+
+describe('getVoterNames', () => {
+  it('lists voters in the order they first voted', () => {
+    expect(getVoterNames([login, signup, legacy])).toEqual(['Alice', 'Bob', 'Carol']);
+  });
+});
+
+describe('escapeCsvField', () => {
+  it('leaves plain values alone', () => {
+    expect(escapeCsvField('Login')).toBe('Login');
+  });
+
+  it('quotes values with commas, quotes or newlines', () => {
+    expect(escapeCsvField('a, b')).toBe('"a, b"');
+    expect(escapeCsvField('say "hi"')).toBe('"say ""hi"""');
+    expect(escapeCsvField('two\nlines')).toBe('"two\nlines"');
+  });
+
+  it('defuses formulas but not negative numbers', () => {
+    expect(escapeCsvField('=SUM(A1)')).toBe("'=SUM(A1)");
+    expect(escapeCsvField('@cmd')).toBe("'@cmd");
+    expect(escapeCsvField('-1')).toBe('-1');
+  });
+});
+
+describe('renderExport', () => {
+  it('renders CSV with a column per voter', () => {
+    const { body, contentType, extension } = renderExport(session, 'csv', exportedAt);
+
+    expect(contentType).toMatch(/^text\/csv/);
+    expect(extension).toBe('csv');
+    expect(body.split('\r\n')).toEqual([
+      'Story,Estimate,Result,Rounds,Saved At,Alice,Bob,Carol',
+      'Login,5,consensus,1,2024-01-01T10:00:00.000Z,5,5,',
+      '"Signup, with ""SSO""",8,joint,2,2024-01-01T10:00:00.000Z,,8,13',
+      'Logout,1,,,2024-01-01T10:00:00.000Z,,,',
+      '',
+    ]);
+  });
+
+  it('renders JSON', () => {
+    const { body, contentType } = renderExport(session, 'json', exportedAt);
+
+    expect(contentType).toMatch(/^application\/json/);
+    expect(JSON.parse(body)).toEqual({
+      session: { id: 'abc', name: 'Sprint 42' },
+      exportedAt: '2024-01-01T12:00:00.000Z',
+      stories: [
+        {
+          story: 'Login',
+          estimate: '5',
+          resultType: 'consensus',
+          roundCount: 1,
+          savedAt: '2024-01-01T10:00:00.000Z',
+          durationSeconds: null,
+          votes: [{ name: 'Alice', vote: '5' }, { name: 'Bob', vote: '5' }],
+          rounds: [],
+        },
+        {
+          story: 'Signup, with "SSO"',
+          estimate: '8',
+          resultType: 'joint',
+          roundCount: 2,
+          savedAt: '2024-01-01T10:00:00.000Z',
+          durationSeconds: 95,
+          votes: [{ name: 'Bob', vote: '8' }, { name: 'Carol', vote: '13' }],
+          rounds: [{
+            round: 1,
+            resultType: 'joint',
+            average: 8,
+            min: 3,
+            max: 13,
+            revealedAt: '2024-01-01T10:00:00.000Z',
+            votes: [{ name: 'Bob', vote: '3' }, { name: 'Carol', vote: '13' }],
+            notes: [{ name: 'Bob', vote: '3', text: 'Reuses the login flow' }],
+          }],
+        },
+        {
+          story: 'Logout',
+          estimate: '1',
+          resultType: null,
+          roundCount: null,
+          savedAt: '2024-01-01T10:00:00.000Z',
+          durationSeconds: null,
+          votes: [],
+          rounds: [],
+        },
+      ],
+    });
+  });
+
+  it('renders a Markdown table', () => {
+    const { body, contentType } = renderExport(session, 'md', exportedAt);
+
+    expect(contentType).toMatch(/^text\/markdown/);
+    expect(body).toContain('# Sprint 42');
+    expect(body).toContain('Exported 2024-01-01T12:00:00.000Z - 3 stories');
+    expect(body).toContain('| Login | 5 | consensus | 1 | Alice: 5, Bob: 5 | 2024-01-01T10:00:00.000Z |');
+    expect(body).toContain('| Logout | 1 |  |  |  | 2024-01-01T10:00:00.000Z |');
+  });
+
+  it('escapes pipes and newlines in Markdown cells', () => {
+    const piped = { ...session, history: [{ ...legacy, story: 'A | B\nC' }] };
+
+    expect(renderExport(piped, 'md', exportedAt).body).toContain('| A \\| B C | 1 |');
+  });
+
+  it('leaves names out of votes recorded anonymously', () => {
+    const anonymous = { ...session, history: [{ ...signup, votes: [{ vote: '8' }, { vote: '13' }] }], rounds: [] };
+
+    expect(renderExport(anonymous, 'csv', exportedAt).body.split('\r\n')[0]).toBe('Story,Estimate,Result,Rounds,Saved At');
+    expect(JSON.parse(renderExport(anonymous, 'json', exportedAt).body).stories[0].votes).toEqual([{ vote: '8' }, { vote: '13' }]);
+    expect(renderExport(anonymous, 'md', exportedAt).body).toContain('| 8, 13 |');
+  });
+
+  it('renders an empty history', () => {
+    const empty = { id: 'abc', name: 'Sprint 42' };
+
+    expect(renderExport(empty, 'csv', exportedAt).body).toBe('Story,Estimate,Result,Rounds,Saved At\r\n');
+    expect(JSON.parse(renderExport(empty, 'json', exportedAt).body).stories).toEqual([]);
+  });
+});
+
+describe('isExportFormat', () => {
+  it('accepts the supported formats only', () => {
+    expect(isExportFormat('csv')).toBe(true);
+    expect(isExportFormat('md')).toBe(true);
+    expect(isExportFormat('xlsx')).toBe(false);
+    expect(isExportFormat(null)).toBe(false);
+  });
+});
+
+describe('getExportFileName', () => {
+  it('slugifies the session name', () => {
+    expect(getExportFileName('Sprint 42 Planning!', 'csv')).toBe('sprint-42-planning-estimates.csv');
+  });
+
+  it('falls back for names without letters or digits', () => {
+    expect(getExportFileName('🚀', 'md')).toBe('session-estimates.md');
+  });
+});
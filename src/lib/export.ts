@@ -0,0 +1,187 @@
+/**
+ * Renders a session's estimation results for export.
+ *
+ * Formats:
+ * - 'csv': One row per story, with a column per voter (for spreadsheets)
+ * - 'json': Everything, structured (for scripts and other tools), including
+ *   every round each story was voted on
+ * - 'md': A Markdown table to paste into sprint notes
+ *
+ * Every format lists the stories in history order (oldest first) with the
+ * final estimate, the result type, how many rounds it took, when it was
+ * saved and each voter's card. JSON also has how long each story took, and
+ * the notes voters left to explain their cards in each round.
+ *
+ * Entries saved before votes were recorded simply have no votes. Votes
+ * recorded in anonymous sessions have no names, so the CSV (with its column
+ * per voter) leaves them out.
+ */
+
+import type { HistoryEntry, RecordedVote, RoundRecord } from '@/types/poker';
+import { formatRecordedVote } from '@/lib/votingUtils';
+
+export type ExportFormat = 'csv' | 'json' | 'md';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'md'];
+
+/**
+ * Whether a requested format (e.g. from the query string) is one we can render.
+ */
+export function isExportFormat(format: unknown): format is ExportFormat {
+  return EXPORT_FORMATS.some(f => f === format);
+}
+
+/**
+ * The parts of a session an export needs.
+ */
+export interface ExportableSession {
+  id: string;
+  name: string;
+  history?: HistoryEntry[];
+  rounds?: RoundRecord[];
+}
+
+export interface RenderedExport {
+  body: string;
+  contentType: string;
+  extension: string;
+}
+
+function toIsoString(timestamp: number): string {
+  return new Date(timestamp).toISOString();
+}
+
+/**
+ * Voter names across all entries, in the order they first voted.
+ * Used as the per-voter columns of the CSV.
+ */
+export function getVoterNames(history: HistoryEntry[]): string[] {
+  const names = new Set<string>();
+  history.forEach(entry => entry.votes?.forEach(v => {
+    if (v.name !== undefined) names.add(v.name);
+  }));
+  return [...names];
+}
+
+/**
+ * Quotes a CSV field when needed, and defuses values a spreadsheet would
+ * run as a formula (a story called "=HYPERLINK(...)" stays plain text).
+ */
+export function escapeCsvField(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) && isNaN(Number(value)) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function renderCsv(session: ExportableSession): string {
+  const history = session.history ?? [];
+  const voters = getVoterNames(history);
+
+  const header = ['Story', 'Estimate', 'Result', 'Rounds', 'Saved At', ...voters];
+  const rows = history.map(entry => [
+    entry.story,
+    entry.vote,
+    entry.resultType ?? '',
+    entry.roundCount !== undefined ? String(entry.roundCount) : '',
+    toIsoString(entry.timestamp),
+    // The same name twice in one round is unlikely; the first card wins
+    ...voters.map(name => entry.votes?.find(v => v.name === name)?.vote ?? ''),
+  ]);
+
+  return [header, ...rows]
+    .map(fields => fields.map(escapeCsvField).join(','))
+    .join('\r\n') + '\r\n';
+}
+
+/**
+ * A card for the JSON export, named unless it was recorded anonymously.
+ */
+function toJsonVote({ name, vote }: RecordedVote): { name?: string; vote: string } {
+  return name !== undefined ? { name, vote } : { vote };
+}
+
+function renderJson(session: ExportableSession, exportedAt: number): string {
+  return JSON.stringify({
+    session: { id: session.id, name: session.name },
+    exportedAt: toIsoString(exportedAt),
+    stories: (session.history ?? []).map(entry => ({
+      story: entry.story,
+      estimate: entry.vote,
+      resultType: entry.resultType ?? null,
+      roundCount: entry.roundCount ?? null,
+      savedAt: toIsoString(entry.timestamp),
+      durationSeconds: entry.duration !== undefined ? Math.round(entry.duration / 1000) : null,
+      votes: (entry.votes ?? []).map(toJsonVote),
+      rounds: (session.rounds ?? [])
+        .filter(round => round.historyEntryId === entry.id)
+        .map(round => ({
+          round: round.round,
+          resultType: round.resultType,
+          average: round.average ?? null,
+          min: round.min ?? null,
+          max: round.max ?? null,
+          revealedAt: toIsoString(round.revealedAt),
+          votes: round.votes.map(toJsonVote),
+          notes: (round.notes ?? []).map(({ name, vote, text }) => ({ name, vote, text })),
+        })),
+    })),
+  }, null, 2);
+}
+
+/**
+ * Escapes text for a Markdown table cell.
+ */
+function escapeMarkdownCell(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function renderMarkdown(session: ExportableSession, exportedAt: number): string {
+  const history = session.history ?? [];
+  const lines = [
+    `# ${escapeMarkdownCell(session.name)}`,
+    '',
+    `Exported ${toIsoString(exportedAt)} - ${history.length} ${history.length === 1 ? 'story' : 'stories'}`,
+    '',
+    '| Story | Estimate | Result | Rounds | Votes | Saved At |',
+    '| --- | --- | --- | --- | --- | --- |',
+    ...history.map(entry => {
+      const votes = (entry.votes ?? []).map(formatRecordedVote).join(', ');
+      return `| ${[
+        entry.story,
+        entry.vote,
+        entry.resultType ?? '',
+        entry.roundCount !== undefined ? String(entry.roundCount) : '',
+        votes,
+        toIsoString(entry.timestamp),
+      ].map(escapeMarkdownCell).join(' | ')} |`;
+    }),
+  ];
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Renders a session's results in the given format.
+ *
+ * @param exportedAt - Export time (injectable for testing)
+ */
+export function renderExport(
+  session: ExportableSession,
+  format: ExportFormat,
+  exportedAt: number = Date.now()
+): RenderedExport {
+  switch (format) {
+    case 'csv':
+      return { body: renderCsv(session), contentType: 'text/csv; charset=utf-8', extension: 'csv' };
+    case 'json':
+      return { body: renderJson(session, exportedAt), contentType: 'application/json; charset=utf-8', extension: 'json' };
+    case 'md':
+      return { body: renderMarkdown(session, exportedAt), contentType: 'text/markdown; charset=utf-8', extension: 'md' };
+  }
+}
+
+/**
+ * File name for a download, based on the session name (e.g. "sprint-42-estimates.csv").
+ */
+export function getExportFileName(sessionName: string, extension: string): string {
+  const slug = sessionName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'session';
+  return `${slug}-estimates.${extension}`;
+}
@@ -0,0 +1,46 @@
+import { fetchWithRetry, MAX_FETCH_RETRIES } from './fetchWithRetry';
+
+const busy = () => new Response(null, { status: 503, headers: { 'Retry-After': '1' } });
+
+describe('fetchWithRetry', () => {
+  const mockFetch = jest.fn();
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockFetch.mockReset();
+    global.fetch = mockFetch;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('retries a busy session after Retry-After', async () => {
+    mockFetch.mockResolvedValueOnce(busy()).mockResolvedValueOnce(new Response('ok'));
+
+    const pending = fetchWithRetry('/api/sessions/abc/vote', { method: 'POST' });
+    await jest.advanceTimersByTimeAsync(2000);
+    const response = await pending;
+
+    expect(response.status).toBe(200);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(mockFetch).toHaveBeenLastCalledWith('/api/sessions/abc/vote', { method: 'POST' });
+  });
+
+  it('gives up after MAX_FETCH_RETRIES', async () => {
+    mockFetch.mockImplementation(async () => busy());
+
+    const pending = fetchWithRetry('/api/sessions/abc/vote');
+    await jest.advanceTimersByTimeAsync(2000 * MAX_FETCH_RETRIES);
+
+    expect((await pending).status).toBe(503);
+    expect(mockFetch).toHaveBeenCalledTimes(MAX_FETCH_RETRIES + 1);
+  });
+
+  it('does not retry other errors', async () => {
+    mockFetch.mockResolvedValue(new Response(null, { status: 400 }));
+
+    expect((await fetchWithRetry('/api/sessions/abc/vote')).status).toBe(400);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
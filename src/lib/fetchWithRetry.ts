@@ -0,0 +1,21 @@
+/**
+ * fetch() for session API calls, retried while the server answers 503.
+ *
+ * A 503 means the session was too busy to update and nothing was written
+ * (see handleSessionBusy), so sending the same request again is safe. Each
+ * retry waits for the Retry-After the server sent, plus some jitter so a
+ * team's retries don't all land together again.
+ */
+
+/** How many times a request is retried before its 503 is returned. */
+export const MAX_FETCH_RETRIES = 3;
+
+export async function fetchWithRetry(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  for (let retry = 0; ; retry++) {
+    const response = await fetch(input, init);
+    if (response.status !== 503 || retry >= MAX_FETCH_RETRIES) return response;
+
+    const retryAfter = Number(response.headers.get('Retry-After')) || 1;
+    await new Promise(resolve => setTimeout(resolve, retryAfter * 1000 * (1 + Math.random())));
+  }
+}
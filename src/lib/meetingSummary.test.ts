@@ -0,0 +1,45 @@
+import { getMeetingSummary, formatElapsed } from './meetingSummary';
+import type { HistoryEntry } from '@/types/poker';
+
+const entry = (id: string, duration?: number): HistoryEntry => ({
+  id,
+  story: `Story ${id}`,
+  vote: '5',
+  timestamp: 0,
+  ...(duration !== undefined && { duration }),
+});
+
+describe('getMeetingSummary', () => {
+  it('totals and averages the timed stories only', () => {
+    const summary = getMeetingSummary([entry('a', 60000), entry('b'), entry('c', 120000)]);
+
+    expect(summary.timedCount).toBe(2);
+    expect(summary.totalTime).toBe(180000);
+    expect(summary.averageTime).toBe(90000);
+  });
+
+  it('lists the longest discussions first', () => {
+    const history = [entry('a', 1000), entry('b', 4000), entry('c', 3000), entry('d', 2000)];
+
+    expect(getMeetingSummary(history).longest.map(e => e.id)).toEqual(['b', 'c', 'd']);
+  });
+
+  it('handles a history without timings', () => {
+    expect(getMeetingSummary([entry('a')])).toEqual({ timedCount: 0, totalTime: 0, averageTime: 0, longest: [] });
+  });
+});
+
+describe('formatElapsed', () => {
+  it('formats seconds, minutes and hours', () => {
+    expect(formatElapsed(45000)).toBe('45s');
+    expect(formatElapsed(180000)).toBe('3m');
+    expect(formatElapsed(210000)).toBe('3m 30s');
+    expect(formatElapsed(3600000)).toBe('1h');
+    expect(formatElapsed(3900000)).toBe('1h 5m');
+  });
+
+  it('rounds to the second and never goes negative', () => {
+    expect(formatElapsed(59600)).toBe('1m');
+    expect(formatElapsed(-500)).toBe('0s');
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Summarizes how long a session's stories took, for improving refinement meetings.
+ *
+ * A story is timed from when it was set (locked or loaded from the backlog)
+ * to when its result was saved; the duration is stored on the history entry.
+ * Entries without a duration (saved before timing, or without setting the
+ * story first) are left out of the totals.
+ *
+ * formatElapsed is also used for the per-story times in the history panel.
+ */
+
+import type { HistoryEntry } from '@/types/poker';
+
+/** How many of the longest discussions the summary lists. */
+export const LONGEST_DISCUSSION_COUNT = 3;
+
+export interface MeetingSummary {
+  timedCount: number;        // Stories with a duration
+  totalTime: number;         // Sum of their durations (ms)
+  averageTime: number;       // Per timed story (ms), 0 when none were timed
+  longest: HistoryEntry[];   // Longest first, at most LONGEST_DISCUSSION_COUNT
+}
+
+type TimedEntry = HistoryEntry & { duration: number };
+
+/**
+ * Totals the timed stories in the history.
+ */
+export function getMeetingSummary(history: HistoryEntry[]): MeetingSummary {
+  const timed = history.filter((entry): entry is TimedEntry => entry.duration !== undefined);
+  const totalTime = timed.reduce((sum, entry) => sum + entry.duration, 0);
+
+  return {
+    timedCount: timed.length,
+    totalTime,
+    averageTime: timed.length > 0 ? totalTime / timed.length : 0,
+    longest: [...timed]
+      .sort((a, b) => b.duration - a.duration)
+      .slice(0, LONGEST_DISCUSSION_COUNT),
+  };
+}
+
+/**
+ * Formats a duration for display, to the second under an hour
+ * (e.g. 45000 -> "45s", 210000 -> "3m 30s", 3900000 -> "1h 5m").
+ */
+export function formatElapsed(ms: number): string {
+  const seconds = Math.round(Math.max(0, ms) / 1000);
+  if (seconds < 60) return `${seconds}s`;
+
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) {
+    const rest = seconds % 60;
+    return rest > 0 ? `${minutes}m ${rest}s` : `${minutes}m`;
+  }
+
+  const rest = minutes % 60;
+  return rest > 0 ? `${Math.floor(minutes / 60)}h ${rest}m` : `${Math.floor(minutes / 60)}h`;
+}
@@ -1,12 +1,36 @@
-import PusherClient from 'pusher-js';
+import PusherClient, { type ChannelAuthorizationHandler } from 'pusher-js';
 
 // Client-side Pusher instance (singleton)
 let pusherInstance: PusherClient | null = null;
 
+// Private/presence channels need per-channel credentials (e.g. a participant
+// token), so whoever subscribes registers how to authorize their channel
+const channelAuthorizers = new Map<string, ChannelAuthorizationHandler>();
+
+export function setChannelAuthorizer(channelName: string, authorizer: ChannelAuthorizationHandler | null): void {
+  if (authorizer) {
+    channelAuthorizers.set(channelName, authorizer);
+  } else {
+    channelAuthorizers.delete(channelName);
+  }
+}
+
 export function getPusherClient(): PusherClient {
   if (!pusherInstance) {
     pusherInstance = new PusherClient(process.env.NEXT_PUBLIC_PUSHER_KEY!, {
       cluster: process.env.NEXT_PUBLIC_PUSHER_CLUSTER!,
+      channelAuthorization: {
+        transport: 'ajax',
+        endpoint: '',
+        customHandler: (params, callback) => {
+          const authorizer = channelAuthorizers.get(params.channelName);
+          if (!authorizer) {
+            callback(new Error(`No authorizer for ${params.channelName}`), null);
+            return;
+          }
+          authorizer(params, callback);
+        },
+      },
     });
   }
   return pusherInstance;
@@ -0,0 +1,155 @@
+import type { PresenceChannel } from 'pusher-js';
+import { getPusherClient, setChannelAuthorizer } from '@/lib/pusher-client';
+import {
+  getRealtimeTransport,
+  presenceChannel,
+  sessionChannel,
+  type PresenceUpdate,
+  type RealtimeEvent,
+} from '@/lib/realtime';
+
+/**
+ * A subscription to a session's events, independent of the transport.
+ */
+export interface RealtimeChannel {
+  /** Calls the callback with the event's data every time the event arrives. */
+  bind<T>(event: RealtimeEvent, callback: (data: T) => void): void;
+  /** Removes all callbacks and closes the subscription. */
+  unsubscribe(): void;
+}
+
+function subscribeWithPusher(sessionId: string): RealtimeChannel {
+  const pusher = getPusherClient();
+  const channel = pusher.subscribe(sessionChannel(sessionId));
+
+  return {
+    bind(event, callback) {
+      channel.bind(event, callback);
+    },
+    unsubscribe() {
+      channel.unbind_all();
+      pusher.unsubscribe(sessionChannel(sessionId));
+    },
+  };
+}
+
+function subscribeWithSse(sessionId: string): RealtimeChannel {
+  // EventSource reconnects on its own if the connection drops
+  const source = new EventSource(`/api/sessions/${sessionId}/events`);
+
+  return {
+    bind(event, callback) {
+      source.addEventListener(event, (message) => {
+        callback(JSON.parse((message as MessageEvent).data));
+      });
+    },
+    unsubscribe() {
+      source.close();
+    },
+  };
+}
+
+/**
+ * Subscribes to a session's realtime events over the configured transport.
+ */
+export function subscribeToSession(sessionId: string): RealtimeChannel {
+  return getRealtimeTransport() === 'sse'
+    ? subscribeWithSse(sessionId)
+    : subscribeWithPusher(sessionId);
+}
+
+/**
+ * Who we are in a session - presence is only open to joined participants.
+ */
+export interface PresenceCredentials {
+  participantId: string;
+  participantToken: string;
+}
+
+/**
+ * Callbacks for a presence subscription.
+ */
+export interface PresenceHandlers {
+  /** Called with every participant ID that's connected, whenever that changes. */
+  onChange(online: string[]): void;
+  /** Called if presence can't be used (e.g. authorization was refused). */
+  onError(): void;
+}
+
+function subscribeToPresenceWithPusher(
+  sessionId: string,
+  credentials: PresenceCredentials,
+  handlers: PresenceHandlers
+): () => void {
+  const pusher = getPusherClient();
+  const channelName = presenceChannel(sessionId);
+
+  setChannelAuthorizer(channelName, ({ socketId }, callback) => {
+    fetch(`/api/sessions/${sessionId}/presence`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ socketId, channelName, ...credentials }),
+    })
+      .then(res => {
+        if (!res.ok) throw new Error(`Presence authorization failed with status ${res.status}`);
+        return res.json();
+      })
+      .then(authData => callback(null, authData))
+      .catch(err => callback(err, null));
+  });
+
+  const channel = pusher.subscribe(channelName) as PresenceChannel;
+  const report = () => {
+    const online: string[] = [];
+    channel.members.each((member: { id: string }) => online.push(member.id));
+    handlers.onChange(online);
+  };
+
+  channel.bind('pusher:subscription_succeeded', report);
+  channel.bind('pusher:member_added', report);
+  channel.bind('pusher:member_removed', report);
+  channel.bind('pusher:subscription_error', handlers.onError);
+
+  return () => {
+    channel.unbind_all();
+    pusher.unsubscribe(channelName);
+    setChannelAuthorizer(channelName, null);
+  };
+}
+
+function subscribeToPresenceWithSse(
+  sessionId: string,
+  credentials: PresenceCredentials,
+  handlers: PresenceHandlers
+): () => void {
+  const query = new URLSearchParams({ ...credentials });
+  const source = new EventSource(`/api/sessions/${sessionId}/presence?${query}`);
+
+  source.addEventListener('presence', (message) => {
+    const { online }: PresenceUpdate = JSON.parse((message as MessageEvent).data);
+    handlers.onChange(online);
+  });
+  source.addEventListener('error', () => {
+    // EventSource retries dropped connections itself - it only gives up
+    // (and closes) when the server refuses the stream
+    if (source.readyState === EventSource.CLOSED) handlers.onError();
+  });
+
+  return () => source.close();
+}
+
+/**
+ * Announces that we're in a session and tracks who else is, over the
+ * configured transport. Only used when presence is enabled.
+ *
+ * @returns A function that leaves presence (we show as offline right away)
+ */
+export function subscribeToPresence(
+  sessionId: string,
+  credentials: PresenceCredentials,
+  handlers: PresenceHandlers
+): () => void {
+  return getRealtimeTransport() === 'sse'
+    ? subscribeToPresenceWithSse(sessionId, credentials, handlers)
+    : subscribeToPresenceWithPusher(sessionId, credentials, handlers);
+}
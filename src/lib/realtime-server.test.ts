@@ -0,0 +1,111 @@
+import { broadcast, broadcastSessionEvent, getPresentParticipantIds, MAX_EVENT_SIZE } from './realtime-server';
+import { subscribe, trackPresence } from './sse-hub';
+
+const mockTrigger = jest.fn();
+const mockGet = jest.fn();
+jest.mock('@/lib/pusher-server', () => ({
+  pusher: {
+    trigger: (...args: unknown[]) => mockTrigger(...args),
+    get: (...args: unknown[]) => mockGet(...args),
+  },
+}));
+
+describe('broadcast', () => {
+  const originalTransport = process.env.NEXT_PUBLIC_REALTIME_TRANSPORT;
+
+  beforeEach(() => {
+    mockTrigger.mockReset();
+  });
+
+  afterEach(() => {
+    process.env.NEXT_PUBLIC_REALTIME_TRANSPORT = originalTransport;
+  });
+
+  it('triggers the session channel on Pusher by default', async () => {
+    delete process.env.NEXT_PUBLIC_REALTIME_TRANSPORT;
+
+    await broadcast('abc', 'bell', { from: 'Alice' });
+
+    expect(mockTrigger).toHaveBeenCalledWith('session-abc', 'bell', { from: 'Alice' });
+  });
+
+  it('publishes to the SSE hub when the sse transport is selected', async () => {
+    process.env.NEXT_PUBLIC_REALTIME_TRANSPORT = 'sse';
+    const listener = jest.fn();
+    const unsubscribe = subscribe('session-abc', listener);
+
+    await broadcast('abc', 'bell', { from: 'Alice' });
+
+    expect(listener).toHaveBeenCalledWith('bell', { from: 'Alice' });
+    expect(mockTrigger).not.toHaveBeenCalled();
+    unsubscribe();
+  });
+
+  it('sends session events with the session version as the sequence number', async () => {
+    delete process.env.NEXT_PUBLIC_REALTIME_TRANSPORT;
+
+    await broadcastSessionEvent({ id: 'abc', version: 7 }, { type: 'participant-left', participantId: 'p1' });
+
+    expect(mockTrigger).toHaveBeenCalledWith('session-abc', 'session-event', {
+      type: 'participant-left',
+      participantId: 'p1',
+      seq: 7,
+    });
+  });
+
+  it('sends a resync instead of an event too big for the transport', async () => {
+    delete process.env.NEXT_PUBLIC_REALTIME_TRANSPORT;
+    const entry = { id: 'entry-1', story: 'x'.repeat(MAX_EVENT_SIZE), vote: '5', timestamp: 0 };
+
+    await broadcastSessionEvent({ id: 'abc', version: 7 }, { type: 'history-entry-saved', entry });
+
+    expect(mockTrigger).toHaveBeenCalledWith('session-abc', 'session-event', { type: 'resync', seq: 7 });
+  });
+
+  it('logs a failed broadcast instead of throwing', async () => {
+    delete process.env.NEXT_PUBLIC_REALTIME_TRANSPORT;
+    mockTrigger.mockRejectedValue(new Error('Request Entity Too Large'));
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(broadcast('abc', 'bell', { from: 'Alice' })).resolves.toBeUndefined();
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
+
+describe('getPresentParticipantIds', () => {
+  const originalTransport = process.env.NEXT_PUBLIC_REALTIME_TRANSPORT;
+
+  beforeEach(() => {
+    mockGet.mockReset();
+  });
+
+  afterEach(() => {
+    process.env.NEXT_PUBLIC_REALTIME_TRANSPORT = originalTransport;
+  });
+
+  it('reads the members of the SSE presence channel', async () => {
+    process.env.NEXT_PUBLIC_REALTIME_TRANSPORT = 'sse';
+    const release = trackPresence('presence-session-abc', 'p1');
+
+    expect(await getPresentParticipantIds('abc')).toEqual(new Set(['p1']));
+    release();
+  });
+
+  it('asks Pusher for the users of the presence channel', async () => {
+    delete process.env.NEXT_PUBLIC_REALTIME_TRANSPORT;
+    mockGet.mockResolvedValue({ json: async () => ({ users: [{ id: 'p1' }, { id: 'p2' }] }) });
+
+    expect(await getPresentParticipantIds('abc')).toEqual(new Set(['p1', 'p2']));
+    expect(mockGet).toHaveBeenCalledWith({ path: '/channels/presence-session-abc/users' });
+  });
+
+  it('returns null when Pusher cannot be reached', async () => {
+    delete process.env.NEXT_PUBLIC_REALTIME_TRANSPORT;
+    mockGet.mockRejectedValue(new Error('offline'));
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await getPresentParticipantIds('abc')).toBeNull();
+    consoleError.mockRestore();
+  });
+});
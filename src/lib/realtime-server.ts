@@ -0,0 +1,72 @@
+import { getRealtimeTransport, presenceChannel, sessionChannel, type RealtimeEvent } from '@/lib/realtime';
+import { getPresentMembers, publish } from '@/lib/sse-hub';
+import type { SessionEvent, SessionEventPayload } from '@/types/poker';
+
+/**
+ * Largest session event sent as is, in bytes of JSON. Pusher rejects
+ * messages over 10KB, so this leaves room for the channel and event names.
+ */
+export const MAX_EVENT_SIZE = 9000;
+
+/**
+ * Sends an event to everyone in a session, over the configured transport.
+ * API routes use this instead of calling Pusher directly.
+ *
+ * A failure is logged rather than thrown: the change was already written,
+ * and clients that missed the event re-fetch the session when they spot
+ * the gap in sequence numbers.
+ */
+export async function broadcast(sessionId: string, event: RealtimeEvent, data: unknown): Promise<void> {
+  if (getRealtimeTransport() === 'sse') {
+    publish(sessionChannel(sessionId), event, data);
+    return;
+  }
+
+  try {
+    // Loaded lazily so SSE-only deployments don't need Pusher credentials
+    const { pusher } = await import('@/lib/pusher-server');
+    await pusher.trigger(sessionChannel(sessionId), event, data);
+  } catch (err) {
+    console.error('Failed to broadcast:', err);
+  }
+}
+
+/**
+ * Tells everyone in a session what just changed. An event too big to send
+ * (see MAX_EVENT_SIZE) becomes a 'resync', so clients fetch the session instead.
+ *
+ * @param session - The session as written by the change (its version becomes the event's seq)
+ */
+export async function broadcastSessionEvent(
+  session: { id: string; version?: number },
+  payload: SessionEventPayload
+): Promise<void> {
+  const seq = session.version ?? 0;
+  let event: SessionEvent = { ...payload, seq };
+  if (Buffer.byteLength(JSON.stringify(event)) > MAX_EVENT_SIZE) {
+    event = { type: 'resync', seq };
+  }
+  await broadcast(session.id, 'session-event', event);
+}
+
+/**
+ * Who is connected to a session's presence channel right now
+ * (only meaningful when presence is enabled).
+ *
+ * @returns Participant IDs, or null if the transport couldn't tell us
+ */
+export async function getPresentParticipantIds(sessionId: string): Promise<Set<string> | null> {
+  if (getRealtimeTransport() === 'sse') {
+    return new Set(getPresentMembers(presenceChannel(sessionId)));
+  }
+
+  try {
+    const { pusher } = await import('@/lib/pusher-server');
+    const response = await pusher.get({ path: `/channels/${presenceChannel(sessionId)}/users` });
+    const { users } = await response.json() as { users: { id: string }[] };
+    return new Set(users.map(user => user.id));
+  } catch (err) {
+    console.error('Failed to read presence:', err);
+    return null;
+  }
+}
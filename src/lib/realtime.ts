@@ -0,0 +1,71 @@
+/**
+ * Shared realtime configuration for the server and the browser.
+ *
+ * Session updates are pushed to clients through one of two transports:
+ * - 'pusher': The hosted Pusher service (default)
+ * - 'sse': Server-Sent Events served by this Next.js app itself,
+ *   for deployments that can't use a third-party service
+ *
+ * Chosen with NEXT_PUBLIC_REALTIME_TRANSPORT. It's a NEXT_PUBLIC_ variable
+ * because the browser needs to know which transport to connect to.
+ *
+ * NOTE: The SSE transport keeps subscribers in server memory, so it needs a
+ * single long-running server process (e.g. `next start` on your own host),
+ * not serverless functions.
+ *
+ * PRESENCE (optional, NEXT_PUBLIC_REALTIME_PRESENCE=true):
+ * Online status normally comes from heartbeats polled every 10 seconds, so a
+ * closed tab takes up to 30 seconds to show as offline. With presence on,
+ * each joined participant also holds a presence connection - a Pusher
+ * presence channel, or a tracked SSE stream - and joins/leaves show up
+ * instantly. Heartbeats are only sent if the presence connection fails.
+ */
+
+export type RealtimeTransport = 'pusher' | 'sse';
+
+/**
+ * Events sent on a session's channel.
+ * - 'session-event': Something in the session changed (a SessionEvent)
+ * - 'bell': Someone rang the bell
+ */
+export type RealtimeEvent = 'session-event' | 'bell';
+
+/**
+ * Data of a 'bell' event: the name of whoever rang it, or source 'timer'
+ * when a voting timer ran out (so it can't be mistaken for a participant).
+ */
+export interface BellEvent {
+  from?: string;
+  source?: 'timer';
+  timestamp: number;
+}
+
+export function getRealtimeTransport(): RealtimeTransport {
+  return process.env.NEXT_PUBLIC_REALTIME_TRANSPORT === 'sse' ? 'sse' : 'pusher';
+}
+
+/**
+ * Channel name for a session (the same for every transport).
+ */
+export function sessionChannel(sessionId: string): string {
+  return `session-${sessionId}`;
+}
+
+export function isPresenceEnabled(): boolean {
+  return process.env.NEXT_PUBLIC_REALTIME_PRESENCE === 'true';
+}
+
+/**
+ * Presence channel name for a session. The 'presence-' prefix is what makes
+ * Pusher treat it as a presence channel (and ask our auth endpoint first).
+ */
+export function presenceChannel(sessionId: string): string {
+  return `presence-${sessionChannel(sessionId)}`;
+}
+
+/**
+ * Data of the 'presence' event: everyone connected right now.
+ */
+export interface PresenceUpdate {
+  online: string[];  // Participant IDs
+}
@@ -0,0 +1,120 @@
+import {
+  getScale,
+  hasScale,
+  getScaleOrder,
+  isAbstainVote,
+  getNumericValue,
+  validateScaleDefinition,
+  parseScaleDraft,
+} from './scales';
+import { VOTING_SCALES } from '@/types/poker';
+
+const hoursScale = {
+  name: 'Hours',
+  values: ['1', '2', '4', '8', '?'],
+  abstain: ['?'],
+};
+
+const sizeScale = {
+  name: 'Sizes',
+  values: ['S', 'M', 'L', '?'],
+  weights: { S: 1, M: 3, L: 8 },
+  abstain: ['?'],
+};
+
+describe('getScale', () => {
+  it('returns built-in scales by id', () => {
+    expect(getScale('tshirt')).toBe(VOTING_SCALES.tshirt);
+  });
+
+  it('returns custom scales by id', () => {
+    expect(getScale('custom-1', { 'custom-1': hoursScale })).toBe(hoursScale);
+  });
+
+  it('falls back to fibonacci for unknown or missing ids', () => {
+    expect(getScale('custom-missing')).toBe(VOTING_SCALES.fibonacci);
+    expect(getScale(undefined)).toBe(VOTING_SCALES.fibonacci);
+  });
+});
+
+describe('hasScale', () => {
+  it('knows built-in and custom scales', () => {
+    expect(hasScale('fibonacci')).toBe(true);
+    expect(hasScale('custom-1', { 'custom-1': hoursScale })).toBe(true);
+  });
+
+  it('rejects unknown ids, including object prototype keys', () => {
+    expect(hasScale('custom-1')).toBe(false);
+    expect(hasScale('toString')).toBe(false);
+  });
+});
+
+describe('getScaleOrder', () => {
+  it('lists built-in scales before custom scales', () => {
+    expect(getScaleOrder({ 'custom-1': hoursScale })).toEqual(['fibonacci', 'tshirt', 'custom-1']);
+  });
+});
+
+describe('isAbstainVote', () => {
+  it('matches only cards listed as abstain', () => {
+    expect(isAbstainVote(VOTING_SCALES.fibonacci, '☕')).toBe(true);
+    expect(isAbstainVote(VOTING_SCALES.fibonacci, '5')).toBe(false);
+    expect(isAbstainVote({ name: 'Plain', values: ['1'] }, '?')).toBe(false);
+  });
+});
+
+describe('getNumericValue', () => {
+  it('converts numeric cards', () => {
+    expect(getNumericValue(hoursScale, '8')).toBe(8);
+  });
+
+  it('uses weights for non-numeric cards', () => {
+    expect(getNumericValue(sizeScale, 'M')).toBe(3);
+  });
+
+  it('returns null for abstain and non-numeric cards', () => {
+    expect(getNumericValue(hoursScale, '?')).toBeNull();
+    expect(getNumericValue(VOTING_SCALES.tshirt, 'XL')).toBeNull();
+  });
+});
+
+describe('validateScaleDefinition', () => {
+  it('accepts and trims a valid definition', () => {
+    expect(validateScaleDefinition({ name: ' Sizes ', values: [' S', 'M', 'L', '?'], weights: { S: 1, M: 3, L: 8 }, abstain: ['?'] }))
+      .toEqual(sizeScale);
+  });
+
+  it('drops empty weights and abstain lists', () => {
+    expect(validateScaleDefinition({ name: 'Hours', values: ['1', '2'], weights: {}, abstain: [] }))
+      .toEqual({ name: 'Hours', values: ['1', '2'] });
+  });
+
+  it('rejects missing names and empty card lists', () => {
+    expect(validateScaleDefinition({ name: '', values: ['1'] })).toBeNull();
+    expect(validateScaleDefinition({ name: 'Hours', values: [] })).toBeNull();
+    expect(validateScaleDefinition(null)).toBeNull();
+  });
+
+  it('rejects duplicate and overlong cards', () => {
+    expect(validateScaleDefinition({ name: 'Hours', values: ['1', '1'] })).toBeNull();
+    expect(validateScaleDefinition({ name: 'Hours', values: ['123456'] })).toBeNull();
+  });
+
+  it('rejects weights and abstain cards that are not on the scale', () => {
+    expect(validateScaleDefinition({ name: 'Sizes', values: ['S'], weights: { M: 3 } })).toBeNull();
+    expect(validateScaleDefinition({ name: 'Sizes', values: ['S'], weights: { S: NaN } })).toBeNull();
+    expect(validateScaleDefinition({ name: 'Sizes', values: ['S'], abstain: ['?'] })).toBeNull();
+  });
+});
+
+describe('parseScaleDraft', () => {
+  it('parses comma-separated form fields', () => {
+    expect(parseScaleDraft({ name: 'Sizes', values: 'S, M, L, ?', weights: 'S=1, M = 3, L=8', abstain: '?' }))
+      .toEqual(sizeScale);
+  });
+
+  it('returns null for malformed weights', () => {
+    expect(parseScaleDraft({ name: 'Sizes', values: 'S, M', weights: 'S', abstain: '' })).toBeNull();
+    expect(parseScaleDraft({ name: 'Sizes', values: 'S, M', weights: 'S=big', abstain: '' })).toBeNull();
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Voting scale utilities.
+ *
+ * A session can use the built-in scales (VOTING_SCALES) or custom scales
+ * defined by the team, which are stored on the session by id.
+ * These helpers resolve a scale id to its definition and turn card
+ * values into numbers for statistics.
+ *
+ * Custom scales come from API requests and from the scale builder's form,
+ * so validateScaleDefinition and parseScaleDraft check them before use.
+ */
+
+import {
+  VOTING_SCALES,
+  SCALE_ORDER,
+  DEFAULT_VOTING_SCALE,
+  type BuiltInScale,
+  type ScaleDefinition,
+  type VotingScale,
+} from '@/types/poker';
+
+/** Limits for custom scales, to keep the card grid and payloads sane. */
+export const MAX_SCALE_NAME_LENGTH = 40;
+export const MAX_SCALE_CARDS = 20;
+export const MAX_CARD_LENGTH = 5;
+
+/**
+ * Prefix for custom scale ids, so they can never collide with built-in ones.
+ */
+export const CUSTOM_SCALE_PREFIX = 'custom-';
+
+/**
+ * Raw form input for building a custom scale.
+ * Every field is the text the user typed; see parseScaleDraft.
+ */
+export interface ScaleDraft {
+  name: string;
+  values: string;   // Comma-separated cards, e.g. "1, 2, 4, 8, ?"
+  weights: string;  // Comma-separated card=number pairs, e.g. "XS=1, S=2"
+  abstain: string;  // Comma-separated cards that mean "no estimate"
+}
+
+export const EMPTY_SCALE_DRAFT: ScaleDraft = { name: '', values: '', weights: '', abstain: '' };
+
+function isBuiltInScale(scaleId: string): scaleId is BuiltInScale {
+  return (SCALE_ORDER as string[]).includes(scaleId);
+}
+
+/**
+ * Looks up a scale by id.
+ * Falls back to the default scale if the id is unknown (e.g. a custom scale
+ * that no longer exists), so callers always get something renderable.
+ */
+export function getScale(
+  scaleId: VotingScale | undefined,
+  customScales: Record<string, ScaleDefinition> = {}
+): ScaleDefinition {
+  if (scaleId && isBuiltInScale(scaleId)) return VOTING_SCALES[scaleId];
+  if (scaleId && customScales[scaleId]) return customScales[scaleId];
+  return VOTING_SCALES[DEFAULT_VOTING_SCALE];
+}
+
+/**
+ * Checks whether a scale id exists for a session.
+ */
+export function hasScale(scaleId: string, customScales: Record<string, ScaleDefinition> = {}): boolean {
+  return isBuiltInScale(scaleId) || Object.prototype.hasOwnProperty.call(customScales, scaleId);
+}
+
+/**
+ * Order for cycling through scales with the up/down arrows:
+ * built-in scales first, then custom scales in the order they were added.
+ */
+export function getScaleOrder(customScales: Record<string, ScaleDefinition> = {}): VotingScale[] {
+  return [...SCALE_ORDER, ...Object.keys(customScales)];
+}
+
+/**
+ * Whether a card means "no estimate" on this scale (e.g. '?' or '☕').
+ */
+export function isAbstainVote(scale: ScaleDefinition, value: string): boolean {
+  return scale.abstain?.includes(value) ?? false;
+}
+
+/**
+ * Converts a card to a number for statistics.
+ *
+ * @returns The card's weight if the scale defines one, the card itself if it
+ *   is numeric, or null for abstain and non-numeric cards
+ */
+export function getNumericValue(scale: ScaleDefinition, value: string): number | null {
+  if (isAbstainVote(scale, value)) return null;
+  if (scale.weights && value in scale.weights) return scale.weights[value];
+
+  const numeric = Number(value);
+  return value.trim() !== '' && Number.isFinite(numeric) ? numeric : null;
+}
+
+/**
+ * Validates an untrusted scale definition (e.g. from a request body).
+ *
+ * @returns A cleaned-up copy of the definition, or null if it is invalid
+ */
+export function validateScaleDefinition(input: unknown): ScaleDefinition | null {
+  if (!input || typeof input !== 'object') return null;
+  const { name, values, weights, abstain } = input as Record<string, unknown>;
+
+  if (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_SCALE_NAME_LENGTH) return null;
+  if (!Array.isArray(values) || values.length === 0 || values.length > MAX_SCALE_CARDS) return null;
+  if (!values.every(v => typeof v === 'string' && v.trim() && v.trim().length <= MAX_CARD_LENGTH)) return null;
+
+  const cards = (values as string[]).map(v => v.trim());
+  if (new Set(cards).size !== cards.length) return null;
+
+  const scale: ScaleDefinition = { name: name.trim(), values: cards };
+
+  if (weights !== undefined) {
+    if (!weights || typeof weights !== 'object' || Array.isArray(weights)) return null;
+    const entries = Object.entries(weights as Record<string, unknown>);
+    if (!entries.every(([card, weight]) => cards.includes(card) && typeof weight === 'number' && Number.isFinite(weight))) {
+      return null;
+    }
+    if (entries.length > 0) scale.weights = Object.fromEntries(entries) as Record<string, number>;
+  }
+
+  if (abstain !== undefined) {
+    if (!Array.isArray(abstain) || !abstain.every(card => typeof card === 'string' && cards.includes(card))) return null;
+    if (abstain.length > 0) scale.abstain = abstain as string[];
+  }
+
+  return scale;
+}
+
+/**
+ * Splits comma-separated form input into a list of trimmed, non-empty items.
+ */
+function splitList(text: string): string[] {
+  return text.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Turns the scale builder's text fields into a scale definition.
+ *
+ * @example
+ * parseScaleDraft({ name: 'Hours', values: '1, 2, 4, 8, ?', weights: '', abstain: '?' })
+ * // -> { name: 'Hours', values: ['1', '2', '4', '8', '?'], abstain: ['?'] }
+ *
+ * @returns The definition, or null if the input doesn't describe a valid scale
+ */
+export function parseScaleDraft(draft: ScaleDraft): ScaleDefinition | null {
+  const weights: Record<string, number> = {};
+  for (const pair of splitList(draft.weights)) {
+    const [card, weight] = pair.split('=').map(part => part.trim());
+    if (!card || weight === undefined || weight === '') return null;
+    weights[card] = Number(weight);
+  }
+
+  return validateScaleDefinition({
+    name: draft.name,
+    values: splitList(draft.values),
+    weights,
+    abstain: splitList(draft.abstain),
+  });
+}
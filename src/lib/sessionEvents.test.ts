@@ -0,0 +1,405 @@
+import { applySessionEvent } from './sessionEvents';
+import type { Participant, SessionState } from '@/types/poker';
+
+const alice: Participant = { id: 'alice', name: 'Alice', role: 'voter', vote: '5', avatar: 'dog' };
+const bob: Participant = { id: 'bob', name: 'Bob', role: 'observer', vote: null, avatar: 'cat' };
+
+// A reset event for starting a round with no backlog
+const reset = { type: 'reset' as const, story: '', storyLocked: false, round: 1 };
+
+const state: SessionState = {
+  id: 'session-1',
+  name: 'Sprint',
+  participants: [alice, bob],
+  revealed: false,
+  story: 'Login',
+  storyLocked: true,
+  history: [],
+  version: 3,
+};
+
+describe('applySessionEvent', () => {
+  describe('sequencing', () => {
+    it('applies the next event and advances the version', () => {
+      const next = applySessionEvent(state, { type: 'vote-cast', seq: 4, participantId: 'bob', hasVoted: true });
+
+      expect(next?.version).toBe(4);
+      expect(next?.participants[1].hasVoted).toBe(true);
+    });
+
+    it('ignores events it has already seen', () => {
+      expect(applySessionEvent(state, { ...reset, seq: 3 })).toBe(state);
+      expect(applySessionEvent(state, { ...reset, seq: 1 })).toBe(state);
+    });
+
+    it('returns null when events were missed', () => {
+      expect(applySessionEvent(state, { ...reset, seq: 5 })).toBeNull();
+    });
+
+    it('does not modify the original state', () => {
+      applySessionEvent(state, { type: 'vote-cast', seq: 4, participantId: 'alice', hasVoted: true, vote: '8' });
+
+      expect(state.participants[0].vote).toBe('5');
+      expect(state.version).toBe(3);
+    });
+  });
+
+  describe('resync', () => {
+    it('asks for the whole session when it is newer than the state', () => {
+      expect(applySessionEvent(state, { type: 'resync', seq: 4 })).toBeNull();
+      expect(applySessionEvent(state, { type: 'resync', seq: 10 })).toBeNull();
+    });
+
+    it('ignores a resync the state is already as new as', () => {
+      expect(applySessionEvent(state, { type: 'resync', seq: 3 })).toBe(state);
+    });
+  });
+
+  describe('participants', () => {
+    it('adds a joining participant', () => {
+      const carol: Participant = { id: 'carol', name: 'Carol', role: 'voter', vote: null, avatar: 'fox' };
+
+      const next = applySessionEvent(state, { type: 'participant-joined', seq: 4, participant: carol });
+
+      expect(next?.participants.map(p => p.id)).toEqual(['alice', 'bob', 'carol']);
+    });
+
+    it('replaces a rejoining participant in place', () => {
+      const renamed = { ...alice, name: 'Alice B' };
+
+      const next = applySessionEvent(state, { type: 'participant-joined', seq: 4, participant: renamed });
+
+      expect(next?.participants).toHaveLength(2);
+      expect(next?.participants[0].name).toBe('Alice B');
+    });
+
+    it('removes a participant who left', () => {
+      const next = applySessionEvent(state, { type: 'participant-left', seq: 4, participantId: 'bob' });
+
+      expect(next?.participants.map(p => p.id)).toEqual(['alice']);
+    });
+
+    it('changes the avatar of a participant', () => {
+      const next = applySessionEvent(state, { type: 'avatar-changed', seq: 4, participantId: 'bob', avatar: 'panda' });
+
+      expect(next?.participants[1].avatar).toBe('panda');
+      expect(next?.participants[0].avatar).toBe('dog');
+    });
+
+    it('updates the heartbeat of a participant', () => {
+      const next = applySessionEvent(state, {
+        type: 'heartbeat',
+        seq: 4,
+        participantId: 'bob',
+        lastHeartbeat: '2024-01-01T00:00:10Z',
+      });
+
+      expect(next?.participants[1].lastHeartbeat).toBe('2024-01-01T00:00:10Z');
+    });
+  });
+
+  describe('rounds', () => {
+    it('reveals votes with the story, saved result and new round from the server', () => {
+      const entry = { id: 'entry-1', story: 'Login', vote: '5', timestamp: 1704067200000 };
+      const hidden = { ...state, participants: [{ ...alice, vote: null, hasVoted: true }, bob] };
+      const round = {
+        id: 'round-1',
+        story: 'Login',
+        round: 1,
+        votes: [{ participantId: 'p1', name: 'Alice', vote: '5' }],
+        resultType: 'majority' as const,
+        average: 5,
+        min: 5,
+        max: 5,
+        revealedAt: 1704067200000,
+        historyEntryId: 'entry-1',
+      };
+
+      const next = applySessionEvent(hidden, {
+        type: 'revealed',
+        seq: 4,
+        votes: [{ participantId: 'alice', vote: '5' }],
+        story: '',
+        storyLocked: false,
+        savedEntry: entry,
+        round,
+      });
+
+      expect(next?.revealed).toBe(true);
+      expect(next?.participants[0]).toMatchObject({ vote: '5', hasVoted: true });
+      expect(next?.participants[1]).toEqual(bob);
+      expect(next?.story).toBe('');
+      expect(next?.history).toEqual([entry]);
+      expect(next?.rounds).toEqual([round]);
+      expect(next?.currentRoundId).toBe('round-1');
+    });
+
+    it('links the story\'s earlier rounds when the revealed round is saved', () => {
+      const earlier = { id: 'round-1', story: 'Login', round: 1, votes: [], resultType: 'none' as const, revealedAt: 0 };
+      const other = { ...earlier, id: 'round-0', story: 'Signup' };
+      const saved = { ...earlier, id: 'round-2', round: 2, resultType: 'consensus' as const, historyEntryId: 'entry-1' };
+
+      const next = applySessionEvent({ ...state, rounds: [other, earlier] }, {
+        type: 'revealed',
+        seq: 4,
+        votes: [],
+        story: '',
+        storyLocked: false,
+        savedEntry: { id: 'entry-1', story: 'Login', vote: '5', timestamp: 0 },
+        round: saved,
+      });
+
+      expect(next?.rounds).toEqual([other, { ...earlier, historyEntryId: 'entry-1' }, saved]);
+    });
+
+    it('reveals who voted without their cards in anonymous sessions', () => {
+      const hidden = { ...state, participants: [{ ...alice, vote: null, hasVoted: false }, bob] };
+
+      const next = applySessionEvent(hidden, {
+        type: 'revealed',
+        seq: 4,
+        votes: [{ participantId: 'alice', vote: null }],
+        story: 'Login',
+        storyLocked: true,
+      });
+
+      expect(next?.participants[0]).toMatchObject({ vote: null, hasVoted: true });
+      expect(next?.history).toEqual([]);
+    });
+
+    it('clears voters\' votes and the story on reset', () => {
+      const revealed = { ...state, revealed: true };
+
+      const next = applySessionEvent(revealed, { ...reset, seq: 4 });
+
+      expect(next?.revealed).toBe(false);
+      expect(next?.story).toBe('');
+      expect(next?.storyLocked).toBe(false);
+      expect(next?.participants[0].vote).toBeNull();
+    });
+
+    it('loads the next backlog story on reset', () => {
+      const revealed = { ...state, revealed: true };
+
+      const next = applySessionEvent(revealed, {
+        type: 'reset',
+        seq: 4,
+        story: 'Signup',
+        storyLocked: true,
+        currentBacklogItemId: 'item-2',
+        round: 1,
+      });
+
+      expect(next?.story).toBe('Signup');
+      expect(next?.storyLocked).toBe(true);
+      expect(next?.currentBacklogItemId).toBe('item-2');
+    });
+
+    it('clears voters\' votes but keeps the story on a re-vote', () => {
+      const revealed = { ...state, revealed: true, round: 1 };
+
+      const next = applySessionEvent(revealed, { type: 'revote', seq: 4, round: 2 });
+
+      expect(next?.revealed).toBe(false);
+      expect(next?.story).toBe('Login');
+      expect(next?.storyLocked).toBe(true);
+      expect(next?.round).toBe(2);
+      expect(next?.participants[0]).toMatchObject({ vote: null, hasVoted: false });
+    });
+
+    it('records that someone voted without their card before the reveal', () => {
+      const hidden = { ...state, participants: [{ ...alice, vote: null, hasVoted: false }, bob] };
+
+      const next = applySessionEvent(hidden, { type: 'vote-cast', seq: 4, participantId: 'alice', hasVoted: true });
+
+      expect(next?.participants[0]).toMatchObject({ vote: null, hasVoted: true });
+    });
+
+    it('starts the auto-reveal countdown from a vote', () => {
+      const next = applySessionEvent(state, { type: 'vote-cast', seq: 4, participantId: 'alice', hasVoted: true, autoRevealAt: 1704067205000 });
+
+      expect(next?.autoRevealAt).toBe(1704067205000);
+    });
+
+    it('stops the auto-reveal countdown when cancelled or revealed', () => {
+      const counting = { ...state, autoRevealAt: 1704067205000 };
+
+      expect(applySessionEvent(counting, { type: 'auto-reveal-cancelled', seq: 4 })?.autoRevealAt).toBeUndefined();
+      expect(applySessionEvent(counting, {
+        type: 'revealed',
+        seq: 4,
+        votes: [],
+        story: '',
+        storyLocked: false,
+      })?.autoRevealAt).toBeUndefined();
+    });
+
+    it('starts and stops the voting timer', () => {
+      const timer = { endsAt: 1704067260000, duration: 60, onExpire: 'reveal' as const };
+
+      const started = applySessionEvent(state, { type: 'timer-changed', seq: 4, timer });
+      expect(started?.timer).toEqual(timer);
+
+      const stopped = applySessionEvent(started!, { type: 'timer-changed', seq: 5 });
+      expect(stopped?.timer).toBeUndefined();
+    });
+
+    it('attaches notes to their round', () => {
+      const round = { id: 'round-1', story: 'Login', round: 1, votes: [], resultType: 'none' as const, revealedAt: 0 };
+      const notes = [{ participantId: 'p1', name: 'Alice', vote: '1', text: 'Reuses the old form', createdAt: 0 }];
+
+      const next = applySessionEvent({ ...state, rounds: [round] }, { type: 'note-added', seq: 4, roundId: 'round-1', notes });
+
+      expect(next?.rounds?.[0].notes).toEqual(notes);
+    });
+
+    it('updates the story', () => {
+      const next = applySessionEvent(state, { type: 'story-changed', seq: 4, story: 'Signup', storyLocked: true, round: 1 });
+
+      expect(next?.story).toBe('Signup');
+      expect(next?.storyLocked).toBe(true);
+    });
+
+    it('changes the scale and clears voters\' votes', () => {
+      const hours = { name: 'Hours', values: ['1', '2', '4'] };
+
+      const next = applySessionEvent({ ...state, revealed: true }, { type: 'scale-changed', seq: 4, votingScale: 'custom-1', customScale: hours });
+
+      expect(next?.votingScale).toBe('custom-1');
+      expect(next?.customScales).toEqual({ 'custom-1': hours });
+      expect(next?.revealed).toBe(false);
+      expect(next?.participants[0]).toMatchObject({ vote: null, hasVoted: false });
+    });
+
+    it('stops the auto-reveal countdown when auto-reveal is turned off', () => {
+      const counting = { ...state, autoRevealAt: 1704067205000 };
+      const settings = { facilitatorOnly: false, autoReveal: false };
+
+      const next = applySessionEvent(counting, { type: 'settings-changed', seq: 4, settings });
+
+      expect(next?.settings).toEqual(settings);
+      expect(next?.autoRevealAt).toBeUndefined();
+    });
+  });
+
+  describe('backlog', () => {
+    const login = { id: 'item-1', title: 'Login', status: 'pending' as const };
+    const signup = { id: 'item-2', title: 'Signup', status: 'pending' as const };
+    const estimating = {
+      ...state,
+      revealed: true,
+      backlog: [login, signup],
+      currentBacklogItemId: 'item-1',
+      round: 2,
+    };
+
+    it('adds items to the end of the backlog', () => {
+      const next = applySessionEvent({ ...state, backlog: [login] }, { type: 'backlog-items-added', seq: 4, items: [signup] });
+
+      expect(next?.backlog).toEqual([login, signup]);
+    });
+
+    it('moves an item', () => {
+      const next = applySessionEvent(estimating, { type: 'backlog-item-moved', seq: 4, itemId: 'item-2', index: 0 });
+
+      expect(next?.backlog).toEqual([signup, login]);
+    });
+
+    it('marks the estimate of a revealed round\'s saved result on the item', () => {
+      const entry = { id: 'entry-1', story: 'Login', vote: '5', timestamp: 0 };
+
+      const next = applySessionEvent({ ...estimating, revealed: false }, {
+        type: 'revealed',
+        seq: 4,
+        votes: [{ participantId: 'alice', vote: '5' }],
+        story: '',
+        storyLocked: false,
+        savedEntry: entry,
+      });
+
+      expect(next?.backlog?.[0]).toEqual({ ...login, status: 'estimated', estimate: '5', historyEntryId: 'entry-1' });
+    });
+
+    it('skips an item that is not being estimated without starting a round', () => {
+      const next = applySessionEvent(estimating, { type: 'backlog-item-skipped', seq: 4, itemId: 'item-2', skipped: true });
+
+      expect(next?.backlog?.[1].status).toBe('skipped');
+      expect(next?.revealed).toBe(true);
+      expect(next?.story).toBe('Login');
+    });
+
+    it('starts a round on the next item when the current one is skipped', () => {
+      const next = applySessionEvent(estimating, { type: 'backlog-item-skipped', seq: 4, itemId: 'item-1', skipped: true });
+
+      expect(next?.backlog?.[0].status).toBe('skipped');
+      expect(next).toMatchObject({ revealed: false, story: 'Signup', storyLocked: true, currentBacklogItemId: 'item-2', round: 1 });
+      expect(next?.participants[0].vote).toBeNull();
+    });
+
+    it('starts a round on the next item when the current one is removed', () => {
+      const next = applySessionEvent(estimating, { type: 'backlog-item-removed', seq: 4, itemId: 'item-1' });
+
+      expect(next?.backlog).toEqual([signup]);
+      expect(next).toMatchObject({ story: 'Signup', currentBacklogItemId: 'item-2', round: 1 });
+    });
+
+    it('clears the story when the last item is removed', () => {
+      const next = applySessionEvent({ ...estimating, backlog: [login] }, { type: 'backlog-item-removed', seq: 4, itemId: 'item-1' });
+
+      expect(next).toMatchObject({ story: '', storyLocked: false, round: 1 });
+      expect(next?.currentBacklogItemId).toBeUndefined();
+    });
+
+    it('starts a skipped item, putting it back in the queue', () => {
+      const skipped = { ...estimating, backlog: [login, { ...signup, status: 'skipped' as const }] };
+
+      const next = applySessionEvent(skipped, { type: 'backlog-item-started', seq: 4, itemId: 'item-2' });
+
+      expect(next?.backlog?.[1].status).toBe('pending');
+      expect(next).toMatchObject({ revealed: false, story: 'Signup', currentBacklogItemId: 'item-2', round: 1 });
+    });
+
+    it('counts starting the current item again as another round of it', () => {
+      const next = applySessionEvent(estimating, { type: 'backlog-item-started', seq: 4, itemId: 'item-1' });
+
+      expect(next).toMatchObject({ story: 'Login', currentBacklogItemId: 'item-1', round: 3 });
+    });
+  });
+
+  describe('history', () => {
+    const entry = { id: 'entry-1', story: 'Login', vote: '5', timestamp: 1704067200000 };
+    const round = { id: 'round-1', story: 'Login', round: 1, votes: [], resultType: 'none' as const, revealedAt: 0 };
+    const item = { id: 'item-1', title: 'Login', status: 'pending' as const };
+
+    it('saves a result to the current backlog item and the story\'s rounds', () => {
+      const estimating = { ...state, rounds: [round], backlog: [item], currentBacklogItemId: 'item-1' };
+
+      const next = applySessionEvent(estimating, { type: 'history-entry-saved', seq: 4, entry });
+
+      expect(next?.history).toEqual([entry]);
+      expect(next?.rounds?.[0].historyEntryId).toBe('entry-1');
+      expect(next?.backlog?.[0]).toEqual({ ...item, status: 'estimated', estimate: '5', historyEntryId: 'entry-1' });
+    });
+
+    it('keeps the backlog item\'s estimate in step with an updated result', () => {
+      const estimated = { ...item, status: 'estimated' as const, estimate: '5', historyEntryId: 'entry-1' };
+      const saved = { ...state, history: [entry], backlog: [estimated] };
+
+      const next = applySessionEvent(saved, { type: 'history-entry-updated', seq: 4, entry: { ...entry, vote: '8' } });
+
+      expect(next?.history?.[0].vote).toBe('8');
+      expect(next?.backlog?.[0].estimate).toBe('8');
+    });
+
+    it('puts the backlog item of a deleted result back in the queue', () => {
+      const estimated = { ...item, status: 'estimated' as const, estimate: '5', historyEntryId: 'entry-1' };
+      const saved = { ...state, history: [entry], rounds: [{ ...round, historyEntryId: 'entry-1' }], backlog: [estimated] };
+
+      const next = applySessionEvent(saved, { type: 'history-entry-deleted', seq: 4, entryId: 'entry-1' });
+
+      expect(next?.history).toEqual([]);
+      expect(next?.rounds).toEqual([round]);
+      expect(next?.backlog).toEqual([item]);
+    });
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Client-side handling of incremental session events.
+ *
+ * The server broadcasts small SessionEvents (a vote, a heartbeat...) rather
+ * than the whole session. Each event carries a sequence number (the session
+ * version after the change), so the client can tell whether it has missed one.
+ *
+ * HOW EVENTS ARE APPLIED:
+ * - seq already seen: ignored (events can arrive twice or out of order)
+ * - seq is the next one: applied to the current state
+ * - seq skips ahead: we missed something, so the caller should re-fetch
+ *   the whole session (applySessionEvent returns null)
+ * - 'resync' (a change too big to send) is handled like a gap: the caller
+ *   re-fetches, unless the state is already that new
+ */
+
+import { getNextBacklogItem, moveBacklogItem } from '@/lib/backlog';
+import type { BacklogItem, HistoryEntry, SessionEvent, SessionState } from '@/types/poker';
+
+/**
+ * Adds a saved result to the history. Mirrors saveResult() on the server:
+ * the story's unsaved rounds are linked to it, and the backlog item being
+ * estimated is marked as estimated if the story is still its title.
+ */
+function saveResult(next: SessionState, entry: HistoryEntry): void {
+  next.history = [...(next.history ?? []), entry];
+  next.rounds = next.rounds?.map(r =>
+    r.historyEntryId === undefined && r.story === entry.story ? { ...r, historyEntryId: entry.id } : r
+  );
+  next.backlog = next.backlog?.map(item =>
+    item.id === next.currentBacklogItemId && item.title === entry.story
+      ? { ...item, status: 'estimated' as const, estimate: entry.vote, historyEntryId: entry.id }
+      : item
+  );
+}
+
+/**
+ * Hides the results and clears voters' votes (observers never have one),
+ * like clearVotes() on the server.
+ */
+function clearVotes(next: SessionState): void {
+  next.revealed = false;
+  delete next.currentRoundId;
+  delete next.autoRevealAt;
+  delete next.timer;
+  next.participants = next.participants.map(p => p.role === 'voter' ? { ...p, vote: null, hasVoted: false } : p);
+}
+
+/**
+ * Clears the votes and loads the next story from the backlog (if any).
+ * Mirrors startNextRound() and loadStory() on the server.
+ */
+function startNextRound(next: SessionState, item = getNextBacklogItem(next.backlog)): void {
+  clearVotes(next);
+  const isSameItem = !!item && item.id === next.currentBacklogItemId;
+  next.round = isSameItem ? (next.round ?? 1) + 1 : 1;
+  next.story = item?.title ?? '';
+  next.storyLocked = !!item;
+  next.currentBacklogItemId = item?.id;
+}
+
+function updateBacklogItem(next: SessionState, itemId: string, changes: Partial<BacklogItem>): void {
+  next.backlog = next.backlog?.map(item => item.id === itemId ? { ...item, ...changes } : item);
+}
+
+/**
+ * Applies an event to the current session state.
+ *
+ * @returns The new state (the same object if the event was stale),
+ *   or null if events were missed and the session needs to be re-fetched
+ */
+export function applySessionEvent(state: SessionState, event: SessionEvent): SessionState | null {
+  const version = state.version ?? 0;
+
+  if (event.type === 'resync') {
+    return event.seq > version ? null : state;
+  }
+
+  if (event.seq <= version) return state;
+  if (event.seq !== version + 1) return null;
+
+  const next: SessionState = { ...state, version: event.seq };
+
+  switch (event.type) {
+    case 'participant-joined': {
+      const exists = state.participants.some(p => p.id === event.participant.id);
+      next.participants = exists
+        ? state.participants.map(p => p.id === event.participant.id ? event.participant : p)
+        : [...state.participants, event.participant];
+      return next;
+    }
+    case 'participant-left':
+      next.participants = state.participants.filter(p => p.id !== event.participantId);
+      return next;
+    case 'vote-cast':
+      next.participants = state.participants.map(p =>
+        p.id === event.participantId ? { ...p, hasVoted: event.hasVoted, vote: event.vote ?? null } : p
+      );
+      next.autoRevealAt = event.autoRevealAt;
+      return next;
+    case 'heartbeat':
+      next.participants = state.participants.map(p =>
+        p.id === event.participantId ? { ...p, lastHeartbeat: event.lastHeartbeat } : p
+      );
+      return next;
+    case 'revealed': {
+      next.revealed = true;
+      delete next.autoRevealAt;
+      delete next.timer;
+      // The cards were hidden until now
+      const votes = new Map(event.votes.map(v => [v.participantId, v.vote]));
+      next.participants = state.participants.map(p =>
+        votes.has(p.id) ? { ...p, vote: votes.get(p.id) ?? null, hasVoted: true } : p
+      );
+      if (event.round) {
+        next.rounds = [...(state.rounds ?? []), event.round];
+      }
+      next.currentRoundId = event.round?.id;
+      if (event.savedEntry) saveResult(next, event.savedEntry);
+      next.story = event.story;
+      next.storyLocked = event.storyLocked;
+      return next;
+    }
+    case 'reset':
+      // Mirrors reset() on the server: only voters' votes are cleared,
+      // and the story is whatever came next in the backlog (or nothing)
+      clearVotes(next);
+      next.story = event.story;
+      next.storyLocked = event.storyLocked;
+      next.currentBacklogItemId = event.currentBacklogItemId;
+      next.round = event.round;
+      return next;
+    case 'revote':
+      // Mirrors revote() on the server: like reset, but the story stays
+      clearVotes(next);
+      next.round = event.round;
+      return next;
+    case 'auto-reveal-cancelled':
+      delete next.autoRevealAt;
+      return next;
+    case 'timer-changed':
+      next.timer = event.timer;
+      return next;
+    case 'note-added':
+      next.rounds = state.rounds?.map(r => r.id === event.roundId ? { ...r, notes: event.notes } : r);
+      return next;
+    case 'story-changed':
+      next.story = event.story;
+      next.storyLocked = event.storyLocked;
+      next.currentBacklogItemId = event.currentBacklogItemId;
+      next.round = event.round;
+      return next;
+    case 'history-entry-saved':
+      saveResult(next, event.entry);
+      return next;
+    case 'history-entry-updated':
+      // Mirrors updateHistoryEntry(): the backlog item's estimate stays in step
+      next.history = state.history?.map(e => e.id === event.entry.id ? event.entry : e);
+      next.backlog = state.backlog?.map(item =>
+        item.historyEntryId === event.entry.id ? { ...item, estimate: event.entry.vote } : item
+      );
+      return next;
+    case 'history-entry-deleted':
+      // Mirrors deleteHistoryEntry(): its rounds are no longer saved, and
+      // its backlog item goes back in the queue
+      next.history = state.history?.filter(e => e.id !== event.entryId);
+      next.rounds = state.rounds?.map(r => {
+        if (r.historyEntryId !== event.entryId) return r;
+        const unlinked = { ...r };
+        delete unlinked.historyEntryId;
+        return unlinked;
+      });
+      next.backlog = state.backlog?.map(item => {
+        if (item.historyEntryId !== event.entryId) return item;
+        const pending = { ...item, status: 'pending' as const };
+        delete pending.estimate;
+        delete pending.historyEntryId;
+        return pending;
+      });
+      return next;
+    case 'avatar-changed':
+      next.participants = state.participants.map(p =>
+        p.id === event.participantId ? { ...p, avatar: event.avatar } : p
+      );
+      return next;
+    case 'settings-changed':
+      next.settings = event.settings;
+      // Turning auto-reveal off stops a running countdown
+      if (!event.settings.autoReveal) delete next.autoRevealAt;
+      return next;
+    case 'backlog-items-added':
+      next.backlog = [...(state.backlog ?? []), ...event.items];
+      return next;
+    case 'backlog-item-moved':
+      next.backlog = moveBacklogItem(state.backlog ?? [], event.itemId, event.index) ?? state.backlog;
+      return next;
+    case 'backlog-item-skipped':
+      // Mirrors setBacklogItemSkipped() on the server
+      updateBacklogItem(next, event.itemId, { status: event.skipped ? 'skipped' : 'pending' });
+      if (event.skipped && state.currentBacklogItemId === event.itemId) startNextRound(next);
+      return next;
+    case 'backlog-item-removed':
+      // Mirrors removeBacklogItem() on the server
+      next.backlog = state.backlog?.filter(item => item.id !== event.itemId);
+      if (state.currentBacklogItemId === event.itemId) startNextRound(next);
+      return next;
+    case 'backlog-item-started': {
+      // Mirrors startBacklogItem(): a skipped item goes back in the queue
+      const item = state.backlog?.find(i => i.id === event.itemId);
+      if (item?.status === 'skipped') updateBacklogItem(next, event.itemId, { status: 'pending' });
+      startNextRound(next, next.backlog?.find(i => i.id === event.itemId));
+      return next;
+    }
+    case 'scale-changed':
+      // Mirrors selectScale(): votes from the previous scale are cleared
+      next.votingScale = event.votingScale;
+      if (event.customScale) {
+        next.customScales = { ...state.customScales, [event.votingScale]: event.customScale };
+      }
+      clearVotes(next);
+      return next;
+  }
+}
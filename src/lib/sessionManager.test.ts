@@ -8,6 +8,7 @@ const mockRedisClient = {
   get: jest.fn(),
   set: jest.fn(),
   del: jest.fn(),
+  eval: jest.fn(),
   on: jest.fn(),
   connect: jest.fn(),
 };
@@ -32,15 +33,53 @@ import {
   getParticipant,
   vote,
   reveal,
+  getRevealedEvent,
   reset,
+  revote,
+  revealWhenDue,
+  cancelAutoReveal,
+  startTimer,
+  stopTimer,
+  expireTimer,
   updateStory,
+  updateScale,
+  addCustomScale,
+  addHistoryEntry,
+  addVoteNote,
+  updateHistoryEntry,
+  deleteHistoryEntry,
   updateAvatar,
   updateHeartbeat,
   removeParticipant,
   deleteSession,
+  updateSettings,
+  addBacklogItems,
+  moveBacklogItem,
+  setBacklogItemSkipped,
+  removeBacklogItem,
+  startBacklogItem,
+  getPublicSession,
+  toPublicSession,
+  toPublicParticipant,
+  areVotesVisible,
+  canChangeAnonymity,
+  isFacilitator,
+  isParticipant,
+  canControlRound,
+  SessionBusyError,
+  MAX_MUTATION_ATTEMPTS,
   Session,
   Participant,
 } from './sessionManager';
+import { generateToken, hashToken } from './tokens';
+
+/**
+ * Mutations write through a compare-and-set script (EVAL) rather than SET.
+ * Returns the session passed to the Nth write.
+ */
+function savedSession(call = 0) {
+  return JSON.parse(mockRedisClient.eval.mock.calls[call][1].arguments[1]);
+}
 
 describe('sessionManager', () => {
   beforeEach(() => {
@@ -49,6 +88,7 @@ describe('sessionManager', () => {
     mockRedisClient.get.mockResolvedValue(null);
     mockRedisClient.set.mockResolvedValue('OK');
     mockRedisClient.del.mockResolvedValue(1);
+    mockRedisClient.eval.mockResolvedValue(1);
   });
 
   describe('createSession', () => {
@@ -61,6 +101,8 @@ describe('sessionManager', () => {
       expect(session.revealed).toBe(false);
       expect(session.story).toBe('');
       expect(session.storyLocked).toBe(false);
+      expect(session.votingScale).toBe('fibonacci');
+      expect(session.history).toEqual([]);
       expect(session.createdAt).toBeDefined();
       expect(session.lastActivity).toBeDefined();
     });
@@ -131,7 +173,8 @@ describe('sessionManager', () => {
     it('creates session if it does not exist', async () => {
       mockRedisClient.get.mockResolvedValue(null);
 
-      const participant = await addParticipant('new-session', 'user-1', 'Alice');
+      const session = await addParticipant('new-session', 'user-1', 'Alice');
+      const participant = session?.participants.find(p => p.id === 'user-1');
 
       expect(participant?.name).toBe('Alice');
       // Should have called set twice: once for createSession, once for updateSession
@@ -151,7 +194,8 @@ describe('sessionManager', () => {
       };
       mockRedisClient.get.mockResolvedValue(JSON.stringify(mockSession));
 
-      const participant = await addParticipant('test-123', 'user-1', 'Alice');
+      const session = await addParticipant('test-123', 'user-1', 'Alice');
+      const participant = session?.participants.find(p => p.id === 'user-1');
 
       expect(participant?.id).toBe('user-1');
       expect(participant?.name).toBe('Alice');
@@ -174,7 +218,8 @@ describe('sessionManager', () => {
       };
       mockRedisClient.get.mockResolvedValue(JSON.stringify(mockSession));
 
-      const participant = await addParticipant('test-123', 'user-2', 'Bob', 'observer');
+      const session = await addParticipant('test-123', 'user-2', 'Bob', 'observer');
+      const participant = session?.participants.find(p => p.id === 'user-2');
 
       expect(participant?.role).toBe('observer');
     });
@@ -192,12 +237,14 @@ describe('sessionManager', () => {
       };
       mockRedisClient.get.mockResolvedValue(JSON.stringify(mockSession));
 
-      const participant = await addParticipant('test-123', 'user-1', 'Alice', 'voter', 'panda');
+      const session = await addParticipant('test-123', 'user-1', 'Alice', 'voter', 'panda');
+      const participant = session?.participants.find(p => p.id === 'user-1');
 
       expect(participant?.avatar).toBe('panda');
     });
 
     it('preserves existing vote and avatar when rejoining', async () => {
+      const token = generateToken();
       const existingParticipant: Participant = {
         id: 'user-1',
         name: 'Alice',
@@ -205,6 +252,7 @@ describe('sessionManager', () => {
         vote: '5',
         avatar: 'dog',
         lastHeartbeat: '2024-01-01T00:00:00Z',
+        tokenHash: hashToken(token),
       };
       const mockSession: Session = {
         id: 'test-123',
@@ -218,7 +266,8 @@ describe('sessionManager', () => {
       };
       mockRedisClient.get.mockResolvedValue(JSON.stringify(mockSession));
 
-      const participant = await addParticipant('test-123', 'user-1', 'Alice Updated', 'voter', 'cat');
+      const session = await addParticipant('test-123', 'user-1', 'Alice Updated', 'voter', 'cat', token);
+      const participant = session?.participants.find(p => p.id === 'user-1');
 
       expect(participant?.name).toBe('Alice Updated');
       expect(participant?.vote).toBe('5'); // Preserved
@@ -226,6 +275,7 @@ describe('sessionManager', () => {
     });
 
     it('uses provided avatar if existing avatar is empty', async () => {
+      const token = generateToken();
       const existingParticipant: Participant = {
         id: 'user-1',
         name: 'Alice',
@@ -233,6 +283,7 @@ describe('sessionManager', () => {
         vote: null,
         avatar: '',
         lastHeartbeat: '2024-01-01T00:00:00Z',
+        tokenHash: hashToken(token),
       };
       const mockSession: Session = {
         id: 'test-123',
@@ -246,7 +297,8 @@ describe('sessionManager', () => {
       };
       mockRedisClient.get.mockResolvedValue(JSON.stringify(mockSession));
 
-      const participant = await addParticipant('test-123', 'user-1', 'Alice', 'voter', 'panda');
+      const session = await addParticipant('test-123', 'user-1', 'Alice', 'voter', 'panda', token);
+      const participant = session?.participants.find(p => p.id === 'user-1');
 
       expect(participant?.avatar).toBe('panda');
     });
@@ -311,7 +363,7 @@ describe('sessionManager', () => {
 
       const result = await vote('non-existent', 'user-1', '5');
 
-      expect(result).toBe(false);
+      expect(result).toBeNull();
     });
 
     it('returns false when participant does not exist', async () => {
@@ -329,7 +381,7 @@ describe('sessionManager', () => {
 
       const result = await vote('test-123', 'non-existent', '5');
 
-      expect(result).toBe(false);
+      expect(result).toBeNull();
     });
 
     it('returns false when participant is an observer', async () => {
@@ -354,7 +406,7 @@ describe('sessionManager', () => {
 
       const result = await vote('test-123', 'user-1', '5');
 
-      expect(result).toBe(false);
+      expect(result).toBeNull();
     });
 
     it('allows voter to vote and returns true', async () => {
@@ -379,8 +431,8 @@ describe('sessionManager', () => {
 
       const result = await vote('test-123', 'user-1', '8');
 
-      expect(result).toBe(true);
-      const savedData = JSON.parse(mockRedisClient.set.mock.calls[0][1]);
+      expect(result).not.toBeNull();
+      const savedData = savedSession();
       expect(savedData.participants[0].vote).toBe('8');
     });
 
@@ -406,100 +458,196 @@ describe('sessionManager', () => {
 
       const result = await vote('test-123', 'user-1', null);
 
-      expect(result).toBe(true);
-      const savedData = JSON.parse(mockRedisClient.set.mock.calls[0][1]);
+      expect(result).not.toBeNull();
+      const savedData = savedSession();
       expect(savedData.participants[0].vote).toBeNull();
     });
-  });
-
-  describe('reveal', () => {
-    it('returns false when session does not exist', async () => {
-      mockRedisClient.get.mockResolvedValue(null);
-
-      const result = await reveal('non-existent');
-
-      expect(result).toBe(false);
-    });
 
-    it('sets revealed to true and returns true', async () => {
+    it('returns false when vote is not on the session scale', async () => {
+      const voter: Participant = {
+        id: 'user-1',
+        name: 'Voter',
+        role: 'voter',
+        vote: null,
+        avatar: 'chicken',
+      };
       const mockSession: Session = {
         id: 'test-123',
         name: 'Test',
-        participants: [],
+        participants: [voter],
         revealed: false,
         story: '',
         storyLocked: false,
+        votingScale: 'tshirt',
         createdAt: '2024-01-01T00:00:00Z',
         lastActivity: '2024-01-01T00:00:00Z',
       };
       mockRedisClient.get.mockResolvedValue(JSON.stringify(mockSession));
 
-      const result = await reveal('test-123');
-
-      expect(result).toBe(true);
-      const savedData = JSON.parse(mockRedisClient.set.mock.calls[0][1]);
-      expect(savedData.revealed).toBe(true);
-    });
-  });
-
-  describe('reset', () => {
-    it('returns false when session does not exist', async () => {
-      mockRedisClient.get.mockResolvedValue(null);
-
-      const result = await reset('non-existent');
+      const result = await vote('test-123', 'user-1', '8');
 
-      expect(result).toBe(false);
+      expect(result).toBeNull();
+      expect(mockRedisClient.eval).not.toHaveBeenCalled();
     });
 
-    it('resets revealed, story, storyLocked, and voter votes', async () => {
+    it('defaults to the fibonacci scale for sessions without one', async () => {
       const voter: Participant = {
         id: 'user-1',
         name: 'Voter',
         role: 'voter',
-        vote: '5',
-        avatar: 'chicken',
-      };
-      const observer: Participant = {
-        id: 'user-2',
-        name: 'Observer',
-        role: 'observer',
         vote: null,
-        avatar: 'dog',
+        avatar: 'chicken',
       };
       const mockSession: Session = {
         id: 'test-123',
         name: 'Test',
-        participants: [voter, observer],
-        revealed: true,
-        story: 'Some story',
-        storyLocked: true,
+        participants: [voter],
+        revealed: false,
+        story: '',
+        storyLocked: false,
         createdAt: '2024-01-01T00:00:00Z',
         lastActivity: '2024-01-01T00:00:00Z',
       };
       mockRedisClient.get.mockResolvedValue(JSON.stringify(mockSession));
 
-      const result = await reset('test-123');
+      expect(await vote('test-123', 'user-1', 'XL')).toBeNull();
+      expect(await vote('test-123', 'user-1', '13')).not.toBeNull();
+    });
+  });
 
-      expect(result).toBe(true);
-      const savedData = JSON.parse(mockRedisClient.set.mock.calls[0][1]);
+  describe('auto-reveal', () => {
+    const now = new Date().toISOString();
+    const autoRevealSession = (countdown: number, votes: (string | null)[]): Session => ({
+      id: 'test-123',
+      name: 'Test',
+      participants: votes.map((vote, i) => ({
+        id: `user-${i + 1}`,
+        name: `Voter ${i + 1}`,
+        role: 'voter' as const,
+        vote,
+        avatar: 'chicken',
+        lastHeartbeat: now,
+      })),
+      revealed: false,
+      story: '',
+      storyLocked: false,
+      settings: { facilitatorOnly: false, autoReveal: true, autoRevealCountdown: countdown },
+      createdAt: '2024-01-01T00:00:00Z',
+      lastActivity: '2024-01-01T00:00:00Z',
+    });
+
+    it('starts the countdown when the last online voter votes', async () => {
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(autoRevealSession(5, ['5', null])));
+      const before = Date.now();
+
+      await vote('test-123', 'user-2', '8');
+
+      const savedData = savedSession();
       expect(savedData.revealed).toBe(false);
-      expect(savedData.story).toBe('');
-      expect(savedData.storyLocked).toBe(false);
-      expect(savedData.participants[0].vote).toBeNull(); // Voter vote cleared
-      expect(savedData.participants[1].vote).toBeNull(); // Observer unchanged (was null)
+      expect(savedData.autoRevealAt).toBeGreaterThanOrEqual(before + 5000);
+    });
+
+    it('does not start the countdown while online voters have not voted', async () => {
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(autoRevealSession(5, [null, null])));
+
+      await vote('test-123', 'user-1', '8');
+
+      expect(savedSession().autoRevealAt).toBeUndefined();
+    });
+
+    it('waits for voters connected via presence', async () => {
+      const session = autoRevealSession(5, [null, null]);
+      session.participants.forEach(p => delete p.lastHeartbeat);
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(session));
+
+      await vote('test-123', 'user-1', '8', new Set(['user-1', 'user-2']));
+
+      expect(savedSession().autoRevealAt).toBeUndefined();
+    });
+
+    it('leaves the countdown alone when presence could not be read', async () => {
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(autoRevealSession(5, ['5', null])));
+
+      await vote('test-123', 'user-2', '8', null);
+
+      expect(savedSession().autoRevealAt).toBeUndefined();
+    });
+
+    it('reveals straight away without a countdown', async () => {
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(autoRevealSession(0, ['5', null])));
+
+      await vote('test-123', 'user-2', '8');
+
+      expect(savedSession().revealed).toBe(true);
+      expect(savedSession().rounds).toHaveLength(1);
+    });
+
+    it('stops the countdown when a vote is taken back', async () => {
+      const counting = { ...autoRevealSession(5, ['5', '8']), autoRevealAt: Date.now() + 5000 };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(counting));
+
+      await vote('test-123', 'user-2', null);
+
+      expect(savedSession().autoRevealAt).toBeUndefined();
+    });
+
+    it('does nothing when auto-reveal is off', async () => {
+      const session = { ...autoRevealSession(0, ['5', null]), settings: { facilitatorOnly: false } };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(session));
+
+      await vote('test-123', 'user-2', '8');
+
+      expect(savedSession().revealed).toBe(false);
+      expect(savedSession().autoRevealAt).toBeUndefined();
+    });
+
+    it('reveals once the countdown has ended', async () => {
+      const due = { ...autoRevealSession(5, ['5', '8']), autoRevealAt: Date.now() - 1 };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(due));
+
+      const result = await revealWhenDue('test-123');
+
+      expect(result).not.toBeNull();
+      expect(savedSession().revealed).toBe(true);
+      expect(savedSession().autoRevealAt).toBeUndefined();
+    });
+
+    it('does not reveal before the countdown has ended', async () => {
+      const counting = { ...autoRevealSession(5, ['5', '8']), autoRevealAt: Date.now() + 5000 };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(counting));
+
+      expect(await revealWhenDue('test-123')).toBeNull();
+      expect(mockRedisClient.eval).not.toHaveBeenCalled();
+    });
+
+    it('cancels the countdown', async () => {
+      const counting = { ...autoRevealSession(5, ['5', '8']), autoRevealAt: Date.now() + 5000 };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(counting));
+
+      const result = await cancelAutoReveal('test-123');
+
+      expect(result).not.toBeNull();
+      expect(savedSession().autoRevealAt).toBeUndefined();
+      expect(savedSession().revealed).toBe(false);
+    });
+
+    it('returns null when cancelling without a countdown', async () => {
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(autoRevealSession(5, ['5', null])));
+
+      expect(await cancelAutoReveal('test-123')).toBeNull();
     });
   });
 
-  describe('updateStory', () => {
+  describe('reveal', () => {
     it('returns false when session does not exist', async () => {
       mockRedisClient.get.mockResolvedValue(null);
 
-      const result = await updateStory('non-existent', 'Story', true);
+      const result = await reveal('non-existent');
 
-      expect(result).toBe(false);
+      expect(result).toBeNull();
     });
 
-    it('updates story and storyLocked', async () => {
+    it('sets revealed to true and returns true', async () => {
       const mockSession: Session = {
         id: 'test-123',
         name: 'Test',
@@ -512,110 +660,162 @@ describe('sessionManager', () => {
       };
       mockRedisClient.get.mockResolvedValue(JSON.stringify(mockSession));
 
-      const result = await updateStory('test-123', 'User Login Feature', true);
+      const result = await reveal('test-123');
 
-      expect(result).toBe(true);
-      const savedData = JSON.parse(mockRedisClient.set.mock.calls[0][1]);
-      expect(savedData.story).toBe('User Login Feature');
-      expect(savedData.storyLocked).toBe(true);
+      expect(result).not.toBeNull();
+      const savedData = savedSession();
+      expect(savedData.revealed).toBe(true);
     });
-  });
 
-  describe('updateAvatar', () => {
-    it('returns false when session does not exist', async () => {
-      mockRedisClient.get.mockResolvedValue(null);
+    it('saves consensus to history and clears the story', async () => {
+      const voters: Participant[] = [
+        { id: 'user-1', name: 'Alice', role: 'voter', vote: '5', avatar: 'chicken' },
+        { id: 'user-2', name: 'Bob', role: 'voter', vote: '5', avatar: 'dog' },
+      ];
+      const mockSession: Session = {
+        id: 'test-123',
+        name: 'Test',
+        participants: voters,
+        revealed: false,
+        story: 'User Login Feature',
+        storyLocked: true,
+        createdAt: '2024-01-01T00:00:00Z',
+        lastActivity: '2024-01-01T00:00:00Z',
+      };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(mockSession));
 
-      const result = await updateAvatar('non-existent', 'user-1', 'panda');
+      await reveal('test-123');
 
-      expect(result).toBe(false);
+      const savedData = savedSession();
+      expect(savedData.history).toHaveLength(1);
+      expect(savedData.history[0]).toMatchObject({ story: 'User Login Feature', vote: '5' });
+      expect(savedData.story).toBe('');
+      expect(savedData.storyLocked).toBe(false);
     });
 
-    it('returns false when participant does not exist', async () => {
+    it('records the votes, result type and round with the saved result', async () => {
+      const voters: Participant[] = [
+        { id: 'user-1', name: 'Alice', role: 'voter', vote: '5', avatar: 'chicken' },
+        { id: 'user-2', name: 'Bob', role: 'voter', vote: '5', avatar: 'dog' },
+        { id: 'user-3', name: 'Carol', role: 'voter', vote: null, avatar: 'cat' },
+        { id: 'user-4', name: 'Dave', role: 'observer', vote: null, avatar: 'fox' },
+      ];
       const mockSession: Session = {
         id: 'test-123',
         name: 'Test',
-        participants: [],
+        participants: voters,
         revealed: false,
-        story: '',
-        storyLocked: false,
+        story: 'User Login Feature',
+        storyLocked: true,
+        round: 2,
         createdAt: '2024-01-01T00:00:00Z',
         lastActivity: '2024-01-01T00:00:00Z',
       };
       mockRedisClient.get.mockResolvedValue(JSON.stringify(mockSession));
 
-      const result = await updateAvatar('test-123', 'non-existent', 'panda');
+      await reveal('test-123');
 
-      expect(result).toBe(false);
+      expect(savedSession().history[0]).toMatchObject({
+        votes: [
+          { participantId: 'user-1', name: 'Alice', vote: '5' },
+          { participantId: 'user-2', name: 'Bob', vote: '5' },
+        ],
+        resultType: 'consensus',
+        roundCount: 2,
+      });
     });
 
-    it('updates participant avatar', async () => {
-      const participant: Participant = {
-        id: 'user-1',
-        name: 'Alice',
-        role: 'voter',
-        vote: null,
-        avatar: 'chicken',
-      };
+    it('records the round with its votes and statistics', async () => {
+      const voters: Participant[] = [
+        { id: 'user-1', name: 'Alice', role: 'voter', vote: '3', avatar: 'chicken' },
+        { id: 'user-2', name: 'Bob', role: 'voter', vote: '13', avatar: 'dog' },
+        { id: 'user-3', name: 'Carol', role: 'voter', vote: '?', avatar: 'cat' },
+      ];
       const mockSession: Session = {
         id: 'test-123',
         name: 'Test',
-        participants: [participant],
+        participants: voters,
         revealed: false,
-        story: '',
-        storyLocked: false,
+        story: 'User Login Feature',
+        storyLocked: true,
+        round: 2,
         createdAt: '2024-01-01T00:00:00Z',
         lastActivity: '2024-01-01T00:00:00Z',
       };
       mockRedisClient.get.mockResolvedValue(JSON.stringify(mockSession));
 
-      const result = await updateAvatar('test-123', 'user-1', 'panda');
-
-      expect(result).toBe(true);
-      const savedData = JSON.parse(mockRedisClient.set.mock.calls[0][1]);
-      expect(savedData.participants[0].avatar).toBe('panda');
+      await reveal('test-123');
+
+      const { rounds, currentRoundId } = savedSession();
+      expect(rounds).toHaveLength(1);
+      expect(currentRoundId).toBe(rounds[0].id);
+      expect(rounds[0]).toMatchObject({
+        story: 'User Login Feature',
+        round: 2,
+        votes: [
+          { participantId: 'user-1', name: 'Alice', vote: '3' },
+          { participantId: 'user-2', name: 'Bob', vote: '13' },
+          { participantId: 'user-3', name: 'Carol', vote: '?' },
+        ],
+        resultType: 'joint',
+        average: 8,
+        min: 3,
+        max: 13,
+      });
+      expect(rounds[0].historyEntryId).toBeUndefined();
     });
-  });
 
-  describe('updateHeartbeat', () => {
-    it('returns false when session does not exist', async () => {
-      mockRedisClient.get.mockResolvedValue(null);
+    it('records anonymous rounds without names, in card order', async () => {
+      const voters: Participant[] = [
+        { id: 'user-1', name: 'Alice', role: 'voter', vote: '13', avatar: 'chicken' },
+        { id: 'user-2', name: 'Bob', role: 'voter', vote: '3', avatar: 'dog' },
+      ];
+      const anonymous: Session = {
+        id: 'test-123',
+        name: 'Test',
+        participants: voters,
+        revealed: false,
+        story: 'User Login Feature',
+        storyLocked: true,
+        settings: { facilitatorOnly: false, anonymous: true },
+        createdAt: '2024-01-01T00:00:00Z',
+        lastActivity: '2024-01-01T00:00:00Z',
+      };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(anonymous));
 
-      const result = await updateHeartbeat('non-existent', 'user-1');
+      await reveal('test-123');
 
-      expect(result).toBe(false);
+      expect(savedSession().rounds[0].votes).toEqual([{ vote: '3' }, { vote: '13' }]);
     });
 
-    it('returns false when participant does not exist', async () => {
+    it('links the round to the result it was saved with', async () => {
+      const voters: Participant[] = [
+        { id: 'user-1', name: 'Alice', role: 'voter', vote: '5', avatar: 'chicken' },
+        { id: 'user-2', name: 'Bob', role: 'voter', vote: '5', avatar: 'dog' },
+      ];
       const mockSession: Session = {
         id: 'test-123',
         name: 'Test',
-        participants: [],
+        participants: voters,
         revealed: false,
-        story: '',
-        storyLocked: false,
+        story: 'User Login Feature',
+        storyLocked: true,
         createdAt: '2024-01-01T00:00:00Z',
         lastActivity: '2024-01-01T00:00:00Z',
       };
       mockRedisClient.get.mockResolvedValue(JSON.stringify(mockSession));
 
-      const result = await updateHeartbeat('test-123', 'non-existent');
+      await reveal('test-123');
 
-      expect(result).toBe(false);
+      const { history, rounds } = savedSession();
+      expect(rounds[0].historyEntryId).toBe(history[0].id);
     });
 
-    it('updates participant lastHeartbeat', async () => {
-      const participant: Participant = {
-        id: 'user-1',
-        name: 'Alice',
-        role: 'voter',
-        vote: null,
-        avatar: 'chicken',
-        lastHeartbeat: '2024-01-01T00:00:00Z',
-      };
+    it('does not record a round nobody voted in, or reveal twice', async () => {
       const mockSession: Session = {
         id: 'test-123',
         name: 'Test',
-        participants: [participant],
+        participants: [{ id: 'user-1', name: 'Alice', role: 'voter', vote: null, avatar: 'chicken' }],
         revealed: false,
         story: '',
         storyLocked: false,
@@ -623,86 +823,1446 @@ describe('sessionManager', () => {
         lastActivity: '2024-01-01T00:00:00Z',
       };
       mockRedisClient.get.mockResolvedValue(JSON.stringify(mockSession));
+      await reveal('test-123');
 
-      const result = await updateHeartbeat('test-123', 'user-1');
+      mockRedisClient.get.mockResolvedValue(JSON.stringify({
+        ...mockSession,
+        participants: [{ ...mockSession.participants[0], vote: '5' }],
+        revealed: true,
+      }));
+      await reveal('test-123');
 
-      expect(result).toBe(true);
-      const savedData = JSON.parse(mockRedisClient.set.mock.calls[0][1]);
-      expect(new Date(savedData.participants[0].lastHeartbeat).getTime()).toBeGreaterThan(
-        new Date('2024-01-01T00:00:00Z').getTime()
-      );
+      expect(savedSession(0).rounds).toBeUndefined();
+      expect(savedSession(1).rounds).toBeUndefined();
     });
-  });
 
-  describe('removeParticipant', () => {
-    it('returns false when session does not exist', async () => {
-      mockRedisClient.get.mockResolvedValue(null);
+    it('does not save to history without consensus or story', async () => {
+      const voters: Participant[] = [
+        { id: 'user-1', name: 'Alice', role: 'voter', vote: '5', avatar: 'chicken' },
+        { id: 'user-2', name: 'Bob', role: 'voter', vote: '8', avatar: 'dog' },
+      ];
+      const mockSession: Session = {
+        id: 'test-123',
+        name: 'Test',
+        participants: voters,
+        revealed: false,
+        story: 'User Login Feature',
+        storyLocked: true,
+        createdAt: '2024-01-01T00:00:00Z',
+        lastActivity: '2024-01-01T00:00:00Z',
+      };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(mockSession));
 
-      const result = await removeParticipant('non-existent', 'user-1');
+      await reveal('test-123');
 
-      expect(result).toBe(false);
+      const savedData = savedSession();
+      expect(savedData.history).toBeUndefined();
+      expect(savedData.story).toBe('User Login Feature');
     });
 
-    it('returns false when participant does not exist', async () => {
+    it('sends the cards, the new round and the auto-saved result with the revealed event', async () => {
+      const voters: Participant[] = [
+        { id: 'user-1', name: 'Alice', role: 'voter', vote: '5', avatar: 'chicken' },
+        { id: 'user-2', name: 'Bob', role: 'voter', vote: '5', avatar: 'dog' },
+        { id: 'user-3', name: 'Carol', role: 'observer', vote: null, avatar: 'cat' },
+      ];
+      const earlier = { id: 'round-0', story: 'Signup', round: 1, votes: [], resultType: 'none' as const, revealedAt: 0 };
       const mockSession: Session = {
         id: 'test-123',
         name: 'Test',
-        participants: [],
+        participants: voters,
         revealed: false,
-        story: '',
-        storyLocked: false,
+        story: 'User Login Feature',
+        storyLocked: true,
+        rounds: [earlier],
         createdAt: '2024-01-01T00:00:00Z',
         lastActivity: '2024-01-01T00:00:00Z',
       };
       mockRedisClient.get.mockResolvedValue(JSON.stringify(mockSession));
 
-      const result = await removeParticipant('test-123', 'non-existent');
+      const event = getRevealedEvent((await reveal('test-123'))!);
 
-      expect(result).toBe(false);
+      expect(event.votes).toEqual([
+        { participantId: 'user-1', vote: '5' },
+        { participantId: 'user-2', vote: '5' },
+      ]);
+      expect(event.round).toMatchObject({ story: 'User Login Feature', resultType: 'consensus' });
+      expect(event.savedEntry).toMatchObject({ id: event.round?.historyEntryId, story: 'User Login Feature', vote: '5' });
+      expect(event).not.toHaveProperty('rounds');
     });
 
-    it('removes participant from session', async () => {
-      const participant1: Participant = {
-        id: 'user-1',
-        name: 'Alice',
-        role: 'voter',
-        vote: null,
-        avatar: 'chicken',
-      };
-      const participant2: Participant = {
-        id: 'user-2',
-        name: 'Bob',
-        role: 'voter',
-        vote: null,
-        avatar: 'dog',
-      };
+    it('hides the cards in the revealed event of an anonymous session', async () => {
       const mockSession: Session = {
         id: 'test-123',
         name: 'Test',
-        participants: [participant1, participant2],
+        participants: [{ id: 'user-1', name: 'Alice', role: 'voter', vote: '5', avatar: 'chicken' }],
         revealed: false,
         story: '',
         storyLocked: false,
+        settings: { facilitatorOnly: false, anonymous: true },
         createdAt: '2024-01-01T00:00:00Z',
         lastActivity: '2024-01-01T00:00:00Z',
       };
       mockRedisClient.get.mockResolvedValue(JSON.stringify(mockSession));
 
-      const result = await removeParticipant('test-123', 'user-1');
+      const event = getRevealedEvent((await reveal('test-123'))!);
 
-      expect(result).toBe(true);
-      const savedData = JSON.parse(mockRedisClient.set.mock.calls[0][1]);
-      expect(savedData.participants).toHaveLength(1);
-      expect(savedData.participants[0].id).toBe('user-2');
+      expect(event.votes).toEqual([{ participantId: 'user-1', vote: null }]);
+      expect(event.savedEntry).toBeUndefined();
     });
   });
 
-  describe('deleteSession', () => {
-    it('deletes session from Redis', async () => {
-      const result = await deleteSession('test-123');
+  describe('reset', () => {
+    it('returns false when session does not exist', async () => {
+      mockRedisClient.get.mockResolvedValue(null);
 
-      expect(result).toBe(true);
-      expect(mockRedisClient.del).toHaveBeenCalledWith('session:test-123');
+      const result = await reset('non-existent');
+
+      expect(result).toBeNull();
+    });
+
+    it('resets revealed, story, storyLocked, and voter votes', async () => {
+      const voter: Participant = {
+        id: 'user-1',
+        name: 'Voter',
+        role: 'voter',
+        vote: '5',
+        avatar: 'chicken',
+      };
+      const observer: Participant = {
+        id: 'user-2',
+        name: 'Observer',
+        role: 'observer',
+        vote: null,
+        avatar: 'dog',
+      };
+      const mockSession: Session = {
+        id: 'test-123',
+        name: 'Test',
+        participants: [voter, observer],
+        revealed: true,
+        story: 'Some story',
+        storyLocked: true,
+        createdAt: '2024-01-01T00:00:00Z',
+        lastActivity: '2024-01-01T00:00:00Z',
+      };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(mockSession));
+
+      const result = await reset('test-123');
+
+      expect(result).not.toBeNull();
+      const savedData = savedSession();
+      expect(savedData.revealed).toBe(false);
+      expect(savedData.story).toBe('');
+      expect(savedData.storyLocked).toBe(false);
+      expect(savedData.participants[0].vote).toBeNull(); // Voter vote cleared
+      expect(savedData.participants[1].vote).toBeNull(); // Observer unchanged (was null)
+    });
+  });
+
+  describe('revote', () => {
+    const revealedSession: Session = {
+      id: 'test-123',
+      name: 'Test',
+      participants: [
+        { id: 'user-1', name: 'Alice', role: 'voter', vote: '3', avatar: 'chicken' },
+        { id: 'user-2', name: 'Bob', role: 'voter', vote: '13', avatar: 'dog' },
+      ],
+      revealed: true,
+      story: 'User Login Feature',
+      storyLocked: true,
+      currentRoundId: 'round-1',
+      createdAt: '2024-01-01T00:00:00Z',
+      lastActivity: '2024-01-01T00:00:00Z',
+    };
+
+    it('clears the votes but keeps the story', async () => {
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(revealedSession));
+
+      const result = await revote('test-123');
+
+      expect(result).not.toBeNull();
+      const savedData = savedSession();
+      expect(savedData.revealed).toBe(false);
+      expect(savedData.currentRoundId).toBeUndefined();
+      expect(savedData.story).toBe('User Login Feature');
+      expect(savedData.storyLocked).toBe(true);
+      expect(savedData.participants.map((p: Participant) => p.vote)).toEqual([null, null]);
+    });
+
+    it('counts another round', async () => {
+      mockRedisClient.get.mockResolvedValue(JSON.stringify({ ...revealedSession, round: 2 }));
+
+      await revote('test-123');
+
+      expect(savedSession().round).toBe(3);
+    });
+
+    it('returns null when the votes are not revealed', async () => {
+      mockRedisClient.get.mockResolvedValue(JSON.stringify({ ...revealedSession, revealed: false }));
+
+      const result = await revote('test-123');
+
+      expect(result).toBeNull();
+      expect(mockRedisClient.eval).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('addVoteNote', () => {
+    const round = {
+      id: 'round-1',
+      story: 'User Login Feature',
+      round: 1,
+      votes: [
+        { participantId: 'user-1', name: 'Alice', vote: '3' },
+        { participantId: 'user-2', name: 'Bob', vote: '5' },
+        { participantId: 'user-3', name: 'Carol', vote: '13' },
+      ],
+      resultType: 'none',
+      revealedAt: 0,
+    };
+    const revealedSession = {
+      id: 'test-123',
+      name: 'Test',
+      participants: [],
+      revealed: true,
+      story: 'User Login Feature',
+      storyLocked: true,
+      rounds: [round],
+      currentRoundId: 'round-1',
+      createdAt: '2024-01-01T00:00:00Z',
+      lastActivity: '2024-01-01T00:00:00Z',
+    };
+
+    it('attaches an outlier\'s note to the revealed round', async () => {
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(revealedSession));
+
+      const result = await addVoteNote('test-123', 'user-3', 'Needs a migration');
+
+      expect(result).not.toBeNull();
+      expect(savedSession().rounds[0].notes).toEqual([
+        { participantId: 'user-3', name: 'Carol', vote: '13', text: 'Needs a migration', createdAt: expect.any(Number) },
+      ]);
+    });
+
+    it('replaces the participant\'s earlier note', async () => {
+      const note = { participantId: 'user-1', name: 'Alice', vote: '3', text: 'Old', createdAt: 0 };
+      const withNote = { ...revealedSession, rounds: [{ ...round, notes: [note] }] };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(withNote));
+
+      await addVoteNote('test-123', 'user-1', 'New');
+
+      expect(savedSession().rounds[0].notes.map((n: { text: string }) => n.text)).toEqual(['New']);
+    });
+
+    it('returns null for voters between the lowest and highest', async () => {
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(revealedSession));
+
+      expect(await addVoteNote('test-123', 'user-2', 'Seems fine')).toBeNull();
+      expect(mockRedisClient.eval).not.toHaveBeenCalled();
+    });
+
+    it('returns null once the round is over', async () => {
+      mockRedisClient.get.mockResolvedValue(JSON.stringify({ ...revealedSession, revealed: false }));
+
+      expect(await addVoteNote('test-123', 'user-1', 'Too late')).toBeNull();
+    });
+  });
+
+  describe('timer', () => {
+    const votingSession: Session = {
+      id: 'test-123',
+      name: 'Test',
+      participants: [
+        { id: 'user-1', name: 'Alice', role: 'voter', vote: '5', avatar: 'chicken' },
+        { id: 'user-2', name: 'Bob', role: 'voter', vote: '8', avatar: 'dog' },
+      ],
+      revealed: false,
+      story: 'User Login Feature',
+      storyLocked: true,
+      createdAt: '2024-01-01T00:00:00Z',
+      lastActivity: '2024-01-01T00:00:00Z',
+    };
+
+    it('starts a timer that ends on the server clock', async () => {
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(votingSession));
+      const before = Date.now();
+
+      await startTimer('test-123', 60, 'bell');
+
+      const { timer } = savedSession();
+      expect(timer).toMatchObject({ duration: 60, onExpire: 'bell' });
+      expect(timer.endsAt).toBeGreaterThanOrEqual(before + 60000);
+    });
+
+    it('stops a running timer', async () => {
+      const running = { ...votingSession, timer: { endsAt: Date.now() + 60000, duration: 60, onExpire: 'bell' } };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(running));
+
+      expect(await stopTimer('test-123')).not.toBeNull();
+      expect(savedSession().timer).toBeUndefined();
+    });
+
+    it('returns null when stopping without a timer', async () => {
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(votingSession));
+
+      expect(await stopTimer('test-123')).toBeNull();
+    });
+
+    it('reveals the votes when a reveal timer runs out', async () => {
+      const timer = { endsAt: Date.now() - 1, duration: 30, onExpire: 'reveal' as const };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify({ ...votingSession, timer }));
+
+      const result = await expireTimer('test-123');
+
+      expect(result?.timer).toEqual(timer);
+      expect(savedSession().revealed).toBe(true);
+      expect(savedSession().timer).toBeUndefined();
+    });
+
+    it('only ends a bell timer (the route rings the bell)', async () => {
+      const timer = { endsAt: Date.now() - 1, duration: 30, onExpire: 'bell' as const };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify({ ...votingSession, timer }));
+
+      const result = await expireTimer('test-123');
+
+      expect(result?.timer.onExpire).toBe('bell');
+      expect(savedSession().revealed).toBe(false);
+      expect(savedSession().timer).toBeUndefined();
+    });
+
+    it('does not end a timer early', async () => {
+      const timer = { endsAt: Date.now() + 30000, duration: 30, onExpire: 'reveal' as const };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify({ ...votingSession, timer }));
+
+      expect(await expireTimer('test-123')).toBeNull();
+      expect(mockRedisClient.eval).not.toHaveBeenCalled();
+    });
+
+    it('stops the timer when the votes are revealed', async () => {
+      const timer = { endsAt: Date.now() + 30000, duration: 30, onExpire: 'bell' as const };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify({ ...votingSession, timer }));
+
+      await reveal('test-123');
+
+      expect(savedSession().timer).toBeUndefined();
+    });
+  });
+
+  describe('updateStory', () => {
+    it('returns false when session does not exist', async () => {
+      mockRedisClient.get.mockResolvedValue(null);
+
+      const result = await updateStory('non-existent', 'Story', true);
+
+      expect(result).toBeNull();
+    });
+
+    it('updates story and storyLocked', async () => {
+      const mockSession: Session = {
+        id: 'test-123',
+        name: 'Test',
+        participants: [],
+        revealed: false,
+        story: '',
+        storyLocked: false,
+        createdAt: '2024-01-01T00:00:00Z',
+        lastActivity: '2024-01-01T00:00:00Z',
+      };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(mockSession));
+
+      const result = await updateStory('test-123', 'User Login Feature', true);
+
+      expect(result).not.toBeNull();
+      const savedData = savedSession();
+      expect(savedData.story).toBe('User Login Feature');
+      expect(savedData.storyLocked).toBe(true);
+    });
+
+    it('starts timing the story when it is set', async () => {
+      const mockSession: Session = {
+        id: 'test-123',
+        name: 'Test',
+        participants: [],
+        revealed: false,
+        story: '',
+        storyLocked: false,
+        createdAt: '2024-01-01T00:00:00Z',
+        lastActivity: '2024-01-01T00:00:00Z',
+      };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(mockSession));
+      const before = Date.now();
+
+      await updateStory('test-123', 'Login', true);
+
+      expect(savedSession().storyStartedAt).toBeGreaterThanOrEqual(before);
+    });
+
+    it('keeps timing the story until it is changed', async () => {
+      const mockSession: Session = {
+        id: 'test-123',
+        name: 'Test',
+        participants: [],
+        revealed: false,
+        story: 'Login',
+        storyLocked: true,
+        storyStartedAt: 1000,
+        createdAt: '2024-01-01T00:00:00Z',
+        lastActivity: '2024-01-01T00:00:00Z',
+      };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(mockSession));
+
+      await updateStory('test-123', 'Login', false);
+      expect(savedSession().storyStartedAt).toBe(1000);
+
+      await updateStory('test-123', 'Signup', false);
+      expect(savedSession(1).storyStartedAt).toBeUndefined();
+    });
+  });
+
+  describe('updateScale', () => {
+    it('returns false when session does not exist', async () => {
+      mockRedisClient.get.mockResolvedValue(null);
+
+      const result = await updateScale('non-existent', 'tshirt');
+
+      expect(result).toBeNull();
+    });
+
+    it('returns false for an unknown scale', async () => {
+      const mockSession: Session = {
+        id: 'test-123',
+        name: 'Test',
+        participants: [],
+        revealed: false,
+        story: '',
+        storyLocked: false,
+        createdAt: '2024-01-01T00:00:00Z',
+        lastActivity: '2024-01-01T00:00:00Z',
+      };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(mockSession));
+
+      const result = await updateScale('test-123', 'custom-missing');
+
+      expect(result).toBeNull();
+      expect(mockRedisClient.eval).not.toHaveBeenCalled();
+    });
+
+    it('switches to a custom scale defined on the session', async () => {
+      const mockSession: Session = {
+        id: 'test-123',
+        name: 'Test',
+        participants: [],
+        revealed: false,
+        story: '',
+        storyLocked: false,
+        customScales: { 'custom-1': { name: 'Hours', values: ['1', '2', '4'] } },
+        createdAt: '2024-01-01T00:00:00Z',
+        lastActivity: '2024-01-01T00:00:00Z',
+      };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(mockSession));
+
+      const result = await updateScale('test-123', 'custom-1');
+
+      expect(result).not.toBeNull();
+      const savedData = savedSession();
+      expect(savedData.votingScale).toBe('custom-1');
+    });
+
+    it('updates scale and clears voter votes', async () => {
+      const voter: Participant = {
+        id: 'user-1',
+        name: 'Voter',
+        role: 'voter',
+        vote: '5',
+        avatar: 'chicken',
+      };
+      const mockSession: Session = {
+        id: 'test-123',
+        name: 'Test',
+        participants: [voter],
+        revealed: true,
+        story: '',
+        storyLocked: false,
+        votingScale: 'fibonacci',
+        createdAt: '2024-01-01T00:00:00Z',
+        lastActivity: '2024-01-01T00:00:00Z',
+      };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(mockSession));
+
+      const result = await updateScale('test-123', 'tshirt');
+
+      expect(result).not.toBeNull();
+      const savedData = savedSession();
+      expect(savedData.votingScale).toBe('tshirt');
+      expect(savedData.revealed).toBe(false);
+      expect(savedData.participants[0].vote).toBeNull();
+    });
+  });
+
+  describe('addCustomScale', () => {
+    it('returns null when session does not exist', async () => {
+      mockRedisClient.get.mockResolvedValue(null);
+
+      const result = await addCustomScale('non-existent', { name: 'Hours', values: ['1', '2'] });
+
+      expect(result).toBeNull();
+    });
+
+    it('stores the scale and switches the session to it', async () => {
+      const voter: Participant = {
+        id: 'user-1',
+        name: 'Voter',
+        role: 'voter',
+        vote: '5',
+        avatar: 'chicken',
+      };
+      const mockSession: Session = {
+        id: 'test-123',
+        name: 'Test',
+        participants: [voter],
+        revealed: false,
+        story: '',
+        storyLocked: false,
+        votingScale: 'fibonacci',
+        createdAt: '2024-01-01T00:00:00Z',
+        lastActivity: '2024-01-01T00:00:00Z',
+      };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(mockSession));
+      const hours = { name: 'Hours', values: ['1', '2', '4', '8'] };
+
+      const result = await addCustomScale('test-123', hours);
+
+      const scaleId = result?.votingScale;
+      expect(scaleId).toMatch(/^custom-/);
+      const savedData = savedSession();
+      expect(savedData.customScales[scaleId!]).toEqual(hours);
+      expect(savedData.votingScale).toBe(scaleId);
+      expect(savedData.participants[0].vote).toBeNull();
+    });
+
+    it('accepts votes on the custom scale once selected', async () => {
+      const voter: Participant = {
+        id: 'user-1',
+        name: 'Voter',
+        role: 'voter',
+        vote: null,
+        avatar: 'chicken',
+      };
+      const mockSession: Session = {
+        id: 'test-123',
+        name: 'Test',
+        participants: [voter],
+        revealed: false,
+        story: '',
+        storyLocked: false,
+        votingScale: 'custom-1',
+        customScales: { 'custom-1': { name: 'Hours', values: ['1', '2', '4', '8'] } },
+        createdAt: '2024-01-01T00:00:00Z',
+        lastActivity: '2024-01-01T00:00:00Z',
+      };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(mockSession));
+
+      expect(await vote('test-123', 'user-1', '4')).not.toBeNull();
+      expect(await vote('test-123', 'user-1', '5')).toBeNull();
+    });
+  });
+
+  describe('history', () => {
+    const entry = { id: 'entry-1', story: 'Login', vote: '5', timestamp: 1704067200000 };
+    const sessionWithHistory: Session = {
+      id: 'test-123',
+      name: 'Test',
+      participants: [],
+      revealed: false,
+      story: '',
+      storyLocked: false,
+      history: [entry],
+      createdAt: '2024-01-01T00:00:00Z',
+      lastActivity: '2024-01-01T00:00:00Z',
+    };
+
+    it('addHistoryEntry returns null when session does not exist', async () => {
+      mockRedisClient.get.mockResolvedValue(null);
+
+      const result = await addHistoryEntry('non-existent', 'Login', '5');
+
+      expect(result).toBeNull();
+    });
+
+    it('addHistoryEntry appends an entry without a length cap', async () => {
+      const longHistory = Array.from({ length: 12 }, (_, i) => ({ ...entry, id: `entry-${i}` }));
+      mockRedisClient.get.mockResolvedValue(JSON.stringify({ ...sessionWithHistory, history: longHistory }));
+
+      const result = await addHistoryEntry('test-123', 'Signup', '8');
+
+      expect(result?.entry).toMatchObject({ story: 'Signup', vote: '8' });
+      const savedData = savedSession();
+      expect(savedData.history).toHaveLength(13);
+      expect(savedData.history[12].id).toBe(result!.entry.id);
+      expect(result?.session.history).toHaveLength(13);
+    });
+
+    it('addHistoryEntry records the revealed votes', async () => {
+      const revealed = {
+        ...sessionWithHistory,
+        revealed: true,
+        participants: [
+          { id: 'user-1', name: 'Alice', role: 'voter', vote: '5', avatar: 'chicken' },
+          { id: 'user-2', name: 'Bob', role: 'voter', vote: '8', avatar: 'dog' },
+        ],
+      };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(revealed));
+
+      const result = await addHistoryEntry('test-123', 'Signup', '8');
+
+      expect(result?.entry).toMatchObject({
+        votes: [
+          { participantId: 'user-1', name: 'Alice', vote: '5' },
+          { participantId: 'user-2', name: 'Bob', vote: '8' },
+        ],
+        resultType: 'joint',
+        roundCount: 1,
+      });
+    });
+
+    it('addHistoryEntry records how long the story took', async () => {
+      const timed = { ...sessionWithHistory, story: 'Signup', storyLocked: true, storyStartedAt: 1000 };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(timed));
+
+      const result = await addHistoryEntry('test-123', 'Signup', '8');
+
+      expect(result!.entry.duration).toBe(result!.entry.timestamp - 1000);
+      expect(savedSession().storyStartedAt).toBeUndefined();
+    });
+
+    it('addHistoryEntry does not time a different story', async () => {
+      const timed = { ...sessionWithHistory, story: 'Login', storyLocked: true, storyStartedAt: 1000 };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(timed));
+
+      const result = await addHistoryEntry('test-123', 'Signup', '8');
+
+      expect(result!.entry.duration).toBeUndefined();
+      expect(savedSession().storyStartedAt).toBe(1000);
+    });
+
+    it('addHistoryEntry records no votes when they are not revealed', async () => {
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(sessionWithHistory));
+
+      const result = await addHistoryEntry('test-123', 'Signup', '8');
+
+      expect(result?.entry.votes).toBeUndefined();
+    });
+
+    it('updateHistoryEntry returns false when entry does not exist', async () => {
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(sessionWithHistory));
+
+      const result = await updateHistoryEntry('test-123', 'non-existent', { vote: '8' });
+
+      expect(result).toBeNull();
+    });
+
+    it('updateHistoryEntry changes only the given fields', async () => {
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(sessionWithHistory));
+
+      const result = await updateHistoryEntry('test-123', 'entry-1', { vote: '8' });
+
+      expect(result).not.toBeNull();
+      const savedData = savedSession();
+      expect(savedData.history[0]).toEqual({ ...entry, vote: '8' });
+    });
+
+    it('deleteHistoryEntry returns false when entry does not exist', async () => {
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(sessionWithHistory));
+
+      const result = await deleteHistoryEntry('test-123', 'non-existent');
+
+      expect(result).toBeNull();
+    });
+
+    it('deleteHistoryEntry removes the entry', async () => {
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(sessionWithHistory));
+
+      const result = await deleteHistoryEntry('test-123', 'entry-1');
+
+      expect(result).not.toBeNull();
+      const savedData = savedSession();
+      expect(savedData.history).toEqual([]);
+    });
+
+    it('addHistoryEntry links the story\'s unsaved rounds', async () => {
+      const round = { id: 'round-1', story: 'Signup', round: 1, votes: [], resultType: 'joint', revealedAt: 0 };
+      const otherStory = { ...round, id: 'round-2', story: 'Logout' };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify({ ...sessionWithHistory, rounds: [round, otherStory] }));
+
+      const result = await addHistoryEntry('test-123', 'Signup', '8');
+
+      const { rounds } = savedSession();
+      expect(rounds[0].historyEntryId).toBe(result!.entry.id);
+      expect(rounds[1].historyEntryId).toBeUndefined();
+    });
+
+    it('deleteHistoryEntry unlinks its rounds', async () => {
+      const round = { id: 'round-1', story: entry.story, round: 1, votes: [], resultType: 'joint', revealedAt: 0, historyEntryId: 'entry-1' };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify({ ...sessionWithHistory, rounds: [round] }));
+
+      await deleteHistoryEntry('test-123', 'entry-1');
+
+      expect(savedSession().rounds[0].historyEntryId).toBeUndefined();
+    });
+  });
+
+  describe('backlog', () => {
+    const voters: Participant[] = [
+      { id: 'user-1', name: 'Alice', role: 'voter', vote: '5', avatar: 'chicken' },
+      { id: 'user-2', name: 'Bob', role: 'voter', vote: '5', avatar: 'dog' },
+    ];
+    const sessionWithBacklog: Session = {
+      id: 'test-123',
+      name: 'Test',
+      participants: voters,
+      revealed: false,
+      story: 'Login',
+      storyLocked: true,
+      backlog: [
+        { id: 'item-1', title: 'Login', status: 'pending' },
+        { id: 'item-2', title: 'Signup', status: 'pending' },
+        { id: 'item-3', title: 'Logout', status: 'pending' },
+      ],
+      currentBacklogItemId: 'item-1',
+      createdAt: '2024-01-01T00:00:00Z',
+      lastActivity: '2024-01-01T00:00:00Z',
+    };
+
+    it('addBacklogItems appends pending items', async () => {
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(sessionWithBacklog));
+
+      const result = await addBacklogItems('test-123', [{ title: 'Profile', key: 'APP-7' }, { title: 'Settings' }]);
+
+      expect(result).not.toBeNull();
+      const savedData = savedSession();
+      expect(savedData.backlog).toHaveLength(5);
+      expect(savedData.backlog[3]).toMatchObject({ title: 'Profile', key: 'APP-7', status: 'pending' });
+      expect(savedData.backlog[4]).toMatchObject({ title: 'Settings', status: 'pending' });
+    });
+
+    it('addBacklogItems refuses to grow the backlog past the limit', async () => {
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(sessionWithBacklog));
+
+      const result = await addBacklogItems('test-123', Array.from({ length: 200 }, (_, i) => ({ title: `Story ${i}` })));
+
+      expect(result).toBeNull();
+      expect(mockRedisClient.eval).not.toHaveBeenCalled();
+    });
+
+    it('moveBacklogItem reorders the backlog', async () => {
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(sessionWithBacklog));
+
+      await moveBacklogItem('test-123', 'item-3', 0);
+
+      expect(savedSession().backlog.map((i: { id: string }) => i.id)).toEqual(['item-3', 'item-1', 'item-2']);
+    });
+
+    it('moveBacklogItem returns null for an unknown item', async () => {
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(sessionWithBacklog));
+
+      expect(await moveBacklogItem('test-123', 'missing', 0)).toBeNull();
+    });
+
+    it('attaches a consensus result to the current backlog item on reveal', async () => {
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(sessionWithBacklog));
+
+      await reveal('test-123');
+
+      const savedData = savedSession();
+      expect(savedData.backlog[0]).toMatchObject({
+        status: 'estimated',
+        estimate: '5',
+        historyEntryId: savedData.history[0].id,
+      });
+    });
+
+    it('attaches a manually saved result to the current backlog item', async () => {
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(sessionWithBacklog));
+
+      const result = await addHistoryEntry('test-123', 'Login', '8');
+
+      expect(savedSession().backlog[0]).toMatchObject({ status: 'estimated', estimate: '8', historyEntryId: result!.entry.id });
+    });
+
+    it('does not attach a result when the story was retyped', async () => {
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(sessionWithBacklog));
+
+      await addHistoryEntry('test-123', 'Something else', '8');
+
+      expect(savedSession().backlog[0].status).toBe('pending');
+    });
+
+    it('reset loads the next pending story', async () => {
+      const estimated = {
+        ...sessionWithBacklog,
+        revealed: true,
+        story: '',
+        storyLocked: false,
+        backlog: [
+          { id: 'item-1', title: 'Login', status: 'estimated', estimate: '5', historyEntryId: 'entry-1' },
+          { id: 'item-2', title: 'Signup', status: 'skipped' },
+          { id: 'item-3', title: 'Logout', status: 'pending' },
+        ],
+      };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(estimated));
+
+      await reset('test-123');
+
+      const savedData = savedSession();
+      expect(savedData.revealed).toBe(false);
+      expect(savedData.story).toBe('Logout');
+      expect(savedData.storyLocked).toBe(true);
+      expect(savedData.currentBacklogItemId).toBe('item-3');
+      expect(savedData.round).toBe(1);
+      expect(savedData.participants[0].vote).toBeNull();
+    });
+
+    it('reset keeps an unsaved story up for a re-vote', async () => {
+      mockRedisClient.get.mockResolvedValue(JSON.stringify({ ...sessionWithBacklog, revealed: true }));
+
+      await reset('test-123');
+
+      const savedData = savedSession();
+      expect(savedData.story).toBe('Login');
+      expect(savedData.currentBacklogItemId).toBe('item-1');
+      expect(savedData.round).toBe(2);
+    });
+
+    it('reset clears the story once the backlog is done', async () => {
+      const done = {
+        ...sessionWithBacklog,
+        backlog: [{ id: 'item-1', title: 'Login', status: 'estimated', estimate: '5' }],
+      };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(done));
+
+      await reset('test-123');
+
+      const savedData = savedSession();
+      expect(savedData.story).toBe('');
+      expect(savedData.storyLocked).toBe(false);
+      expect(savedData.currentBacklogItemId).toBeUndefined();
+    });
+
+    it('skipping the current item moves on to the next one', async () => {
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(sessionWithBacklog));
+
+      await setBacklogItemSkipped('test-123', 'item-1', true);
+
+      const savedData = savedSession();
+      expect(savedData.backlog[0].status).toBe('skipped');
+      expect(savedData.story).toBe('Signup');
+      expect(savedData.currentBacklogItemId).toBe('item-2');
+      expect(savedData.participants[0].vote).toBeNull();
+    });
+
+    it('skipping another item leaves the round alone', async () => {
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(sessionWithBacklog));
+
+      await setBacklogItemSkipped('test-123', 'item-3', true);
+
+      const savedData = savedSession();
+      expect(savedData.backlog[2].status).toBe('skipped');
+      expect(savedData.story).toBe('Login');
+      expect(savedData.participants[0].vote).toBe('5');
+    });
+
+    it('cannot skip an estimated item', async () => {
+      const estimated = {
+        ...sessionWithBacklog,
+        backlog: [{ id: 'item-1', title: 'Login', status: 'estimated', estimate: '5' }],
+      };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(estimated));
+
+      expect(await setBacklogItemSkipped('test-123', 'item-1', true)).toBeNull();
+    });
+
+    it('removeBacklogItem removes the item', async () => {
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(sessionWithBacklog));
+
+      await removeBacklogItem('test-123', 'item-2');
+
+      const savedData = savedSession();
+      expect(savedData.backlog.map((i: { id: string }) => i.id)).toEqual(['item-1', 'item-3']);
+      expect(savedData.story).toBe('Login');
+    });
+
+    it('startBacklogItem starts a round on any item', async () => {
+      const withSkipped = {
+        ...sessionWithBacklog,
+        backlog: [
+          { id: 'item-1', title: 'Login', status: 'pending' },
+          { id: 'item-2', title: 'Signup', status: 'skipped' },
+        ],
+      };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(withSkipped));
+
+      await startBacklogItem('test-123', 'item-2');
+
+      const savedData = savedSession();
+      expect(savedData.backlog[1].status).toBe('pending');
+      expect(savedData.story).toBe('Signup');
+      expect(savedData.currentBacklogItemId).toBe('item-2');
+      expect(savedData.storyStartedAt).toEqual(expect.any(Number));
+    });
+
+    it('deleting a result puts its backlog item back in the queue', async () => {
+      const estimated = {
+        ...sessionWithBacklog,
+        history: [{ id: 'entry-1', story: 'Login', vote: '5', timestamp: 1704067200000 }],
+        backlog: [{ id: 'item-1', title: 'Login', status: 'estimated', estimate: '5', historyEntryId: 'entry-1' }],
+      };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(estimated));
+
+      await deleteHistoryEntry('test-123', 'entry-1');
+
+      expect(savedSession().backlog[0]).toEqual({ id: 'item-1', title: 'Login', status: 'pending' });
+    });
+
+    it('editing a result updates its backlog item estimate', async () => {
+      const estimated = {
+        ...sessionWithBacklog,
+        history: [{ id: 'entry-1', story: 'Login', vote: '5', timestamp: 1704067200000 }],
+        backlog: [{ id: 'item-1', title: 'Login', status: 'estimated', estimate: '5', historyEntryId: 'entry-1' }],
+      };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(estimated));
+
+      await updateHistoryEntry('test-123', 'entry-1', { vote: '8' });
+
+      expect(savedSession().backlog[0].estimate).toBe('8');
+    });
+
+    it('updateStory unlinks the backlog item when the story is retyped', async () => {
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(sessionWithBacklog));
+
+      await updateStory('test-123', 'Something else', true);
+
+      expect(savedSession().currentBacklogItemId).toBeUndefined();
+    });
+  });
+
+  describe('facilitator', () => {
+    const ownerToken = generateToken();
+    const baseSession: Session = {
+      id: 'test-123',
+      name: 'Test',
+      participants: [],
+      revealed: false,
+      story: '',
+      storyLocked: false,
+      ownerTokenHash: hashToken(ownerToken),
+      createdAt: '2024-01-01T00:00:00Z',
+      lastActivity: '2024-01-01T00:00:00Z',
+    };
+
+    it('stores only the hash of the owner token on creation', async () => {
+      const session = await createSession('test-123', 'Sprint Planning', hashToken(ownerToken));
+
+      expect(session.ownerTokenHash).toBe(hashToken(ownerToken));
+      expect(mockRedisClient.set.mock.calls[0][1]).not.toContain(ownerToken);
+    });
+
+    it('starts with facilitator-only, auto-reveal and anonymous voting turned off', async () => {
+      const session = await createSession('test-123', 'Sprint Planning');
+
+      expect(session.settings).toEqual({
+        facilitatorOnly: false,
+        autoReveal: false,
+        autoRevealCountdown: 5,
+        anonymous: false,
+        suggestionBasis: 'median',
+        suggestionRounding: 'nearest',
+      });
+    });
+
+    it('recognises the facilitator by their owner token', () => {
+      expect(isFacilitator(baseSession, ownerToken)).toBe(true);
+      expect(isFacilitator(baseSession, generateToken())).toBe(false);
+      expect(isFacilitator(baseSession, undefined)).toBe(false);
+    });
+
+    it('lets anyone control the round unless the session is facilitator-only', () => {
+      expect(canControlRound(baseSession, undefined)).toBe(true);
+
+      const restricted = { ...baseSession, settings: { facilitatorOnly: true } };
+      expect(canControlRound(restricted, undefined)).toBe(false);
+      expect(canControlRound(restricted, generateToken())).toBe(false);
+      expect(canControlRound(restricted, ownerToken)).toBe(true);
+    });
+
+    it('updates settings', async () => {
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(baseSession));
+
+      const result = await updateSettings('test-123', { facilitatorOnly: true });
+
+      expect(result).not.toBeNull();
+      expect(savedSession().settings).toEqual({
+        facilitatorOnly: true,
+        autoReveal: false,
+        autoRevealCountdown: 5,
+        anonymous: false,
+        suggestionBasis: 'median',
+        suggestionRounding: 'nearest',
+      });
+    });
+
+    it('refuses to turn anonymous voting off once an anonymous round is revealed', async () => {
+      const revealed: Session = {
+        ...baseSession,
+        revealed: true,
+        participants: [{ id: 'user-1', name: 'Alice', role: 'voter', vote: '8', avatar: 'dog' }],
+        settings: { facilitatorOnly: false, anonymous: true },
+      };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(revealed));
+
+      const result = await updateSettings('test-123', { anonymous: false });
+
+      expect(canChangeAnonymity(revealed)).toBe(false);
+      expect(result).toBeNull();
+      expect(mockRedisClient.eval).not.toHaveBeenCalled();
+      expect(toPublicSession(revealed).participants[0].vote).toBeNull();
+    });
+
+    it('only changes anonymous voting between rounds', async () => {
+      const voting = { ...baseSession, participants: [{ id: 'user-1', name: 'Alice', role: 'voter' as const, vote: '8', avatar: 'dog' }] };
+
+      expect(canChangeAnonymity(voting)).toBe(false);
+      expect(canChangeAnonymity({ ...voting, participants: [{ ...voting.participants[0], vote: null }] })).toBe(true);
+
+      // Other settings can still change mid-round
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(voting));
+      await updateSettings('test-123', { facilitatorOnly: true, anonymous: false });
+      expect(savedSession().settings).toMatchObject({ facilitatorOnly: true, anonymous: false });
+    });
+
+    it('stops a running auto-reveal countdown when auto-reveal is turned off', async () => {
+      const counting = { ...baseSession, settings: { facilitatorOnly: false, autoReveal: true }, autoRevealAt: Date.now() + 5000 };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(counting));
+
+      await updateSettings('test-123', { autoReveal: false });
+
+      expect(savedSession().autoRevealAt).toBeUndefined();
+    });
+
+    it('strips the owner token hash from public sessions', async () => {
+      expect(toPublicSession(baseSession)).not.toHaveProperty('ownerTokenHash');
+
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(baseSession));
+      const session = await getPublicSession('test-123');
+
+      expect(session).not.toHaveProperty('ownerTokenHash');
+      expect(session?.id).toBe('test-123');
+    });
+  });
+
+  describe('participant tokens', () => {
+    const token = generateToken();
+    const alice: Participant = {
+      id: 'user-1',
+      name: 'Alice',
+      role: 'voter',
+      vote: '5',
+      avatar: 'dog',
+      tokenHash: hashToken(token),
+    };
+    const mockSession: Session = {
+      id: 'test-123',
+      name: 'Test',
+      participants: [alice],
+      revealed: false,
+      story: '',
+      storyLocked: false,
+      createdAt: '2024-01-01T00:00:00Z',
+      lastActivity: '2024-01-01T00:00:00Z',
+    };
+
+    it('stores the hash of a new participant\'s token', async () => {
+      mockRedisClient.get.mockResolvedValue(JSON.stringify({ ...mockSession, participants: [] }));
+      const newToken = generateToken();
+
+      await addParticipant('test-123', 'user-2', 'Bob', 'voter', 'cat', newToken);
+
+      const saved = savedSession();
+      expect(saved.participants[0].tokenHash).toBe(hashToken(newToken));
+      expect(JSON.stringify(saved)).not.toContain(newToken);
+    });
+
+    it('lets a participant rejoin with their token', async () => {
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(mockSession));
+
+      const session = await addParticipant('test-123', 'user-1', 'Alice', 'voter', 'dog', token);
+      const participant = session?.participants.find(p => p.id === 'user-1');
+
+      expect(participant?.vote).toBe('5');
+      expect(participant?.tokenHash).toBe(hashToken(token));
+    });
+
+    it('refuses to rejoin as someone else without their token', async () => {
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(mockSession));
+
+      const session = await addParticipant('test-123', 'user-1', 'Mallory', 'voter', 'cat', generateToken());
+
+      expect(session).toBeNull();
+      expect(mockRedisClient.eval).not.toHaveBeenCalled();
+    });
+
+    it('lets only the facilitator claim a participant who joined before tokens existed', async () => {
+      const ownerToken = generateToken();
+      const legacy = { ...mockSession, participants: [{ ...alice, tokenHash: undefined }], ownerTokenHash: hashToken(ownerToken) };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(legacy));
+      const newToken = generateToken();
+
+      await addParticipant('test-123', 'user-1', 'Alice', 'voter', 'dog', newToken, ownerToken);
+
+      expect(savedSession().participants[0].tokenHash).toBe(hashToken(newToken));
+    });
+
+    it('refuses to hand a participant who joined before tokens existed to anyone else', async () => {
+      const legacy = { ...mockSession, participants: [{ ...alice, tokenHash: undefined }], ownerTokenHash: hashToken(generateToken()) };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(legacy));
+
+      expect(await addParticipant('test-123', 'user-1', 'Mallory', 'voter', 'dog', generateToken())).toBeNull();
+      expect(await addParticipant('test-123', 'user-1', 'Mallory', 'voter', 'dog', generateToken(), generateToken())).toBeNull();
+      expect(mockRedisClient.eval).not.toHaveBeenCalled();
+    });
+
+    it('checks a participant token against the participant', () => {
+      expect(isParticipant(mockSession, 'user-1', token)).toBe(true);
+      expect(isParticipant(mockSession, 'user-1', generateToken())).toBe(false);
+      expect(isParticipant(mockSession, 'user-1', undefined)).toBe(false);
+      expect(isParticipant(mockSession, 'user-2', token)).toBe(false);
+    });
+
+    it('never shows who voted what in anonymous sessions', () => {
+      const anonymous = {
+        ...mockSession,
+        revealed: true,
+        participants: [{ ...alice, vote: '8' }],
+        settings: { facilitatorOnly: false, anonymous: true },
+      };
+
+      expect(areVotesVisible(anonymous)).toBe(false);
+      expect(toPublicSession(anonymous).participants[0]).toMatchObject({ vote: null, hasVoted: true });
+    });
+
+    it('hides votes from public sessions until they are revealed', () => {
+      const voted = { ...mockSession, participants: [{ ...alice, vote: '8' }] };
+
+      expect(toPublicSession(voted).participants[0]).toMatchObject({ vote: null, hasVoted: true });
+      expect(toPublicSession({ ...voted, revealed: true }).participants[0]).toMatchObject({ vote: '8', hasVoted: true });
+    });
+
+    it('strips token hashes from public sessions', () => {
+      const publicSession = toPublicSession(mockSession);
+
+      expect(publicSession.participants[0]).not.toHaveProperty('tokenHash');
+      expect(toPublicParticipant(alice, false)).not.toHaveProperty('tokenHash');
+      expect(publicSession.participants[0].name).toBe('Alice');
+      // The original session is left untouched
+      expect(mockSession.participants[0].tokenHash).toBe(hashToken(token));
+    });
+  });
+
+  describe('updateAvatar', () => {
+    it('returns false when session does not exist', async () => {
+      mockRedisClient.get.mockResolvedValue(null);
+
+      const result = await updateAvatar('non-existent', 'user-1', 'panda');
+
+      expect(result).toBeNull();
+    });
+
+    it('returns false when participant does not exist', async () => {
+      const mockSession: Session = {
+        id: 'test-123',
+        name: 'Test',
+        participants: [],
+        revealed: false,
+        story: '',
+        storyLocked: false,
+        createdAt: '2024-01-01T00:00:00Z',
+        lastActivity: '2024-01-01T00:00:00Z',
+      };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(mockSession));
+
+      const result = await updateAvatar('test-123', 'non-existent', 'panda');
+
+      expect(result).toBeNull();
+    });
+
+    it('updates participant avatar', async () => {
+      const participant: Participant = {
+        id: 'user-1',
+        name: 'Alice',
+        role: 'voter',
+        vote: null,
+        avatar: 'chicken',
+      };
+      const mockSession: Session = {
+        id: 'test-123',
+        name: 'Test',
+        participants: [participant],
+        revealed: false,
+        story: '',
+        storyLocked: false,
+        createdAt: '2024-01-01T00:00:00Z',
+        lastActivity: '2024-01-01T00:00:00Z',
+      };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(mockSession));
+
+      const result = await updateAvatar('test-123', 'user-1', 'panda');
+
+      expect(result).not.toBeNull();
+      const savedData = savedSession();
+      expect(savedData.participants[0].avatar).toBe('panda');
+    });
+  });
+
+  describe('updateHeartbeat', () => {
+    it('returns false when session does not exist', async () => {
+      mockRedisClient.get.mockResolvedValue(null);
+
+      const result = await updateHeartbeat('non-existent', 'user-1');
+
+      expect(result).toBeNull();
+    });
+
+    it('returns false when participant does not exist', async () => {
+      const mockSession: Session = {
+        id: 'test-123',
+        name: 'Test',
+        participants: [],
+        revealed: false,
+        story: '',
+        storyLocked: false,
+        createdAt: '2024-01-01T00:00:00Z',
+        lastActivity: '2024-01-01T00:00:00Z',
+      };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(mockSession));
+
+      const result = await updateHeartbeat('test-123', 'non-existent');
+
+      expect(result).toBeNull();
+    });
+
+    it('updates participant lastHeartbeat', async () => {
+      const participant: Participant = {
+        id: 'user-1',
+        name: 'Alice',
+        role: 'voter',
+        vote: null,
+        avatar: 'chicken',
+        lastHeartbeat: '2024-01-01T00:00:00Z',
+      };
+      const mockSession: Session = {
+        id: 'test-123',
+        name: 'Test',
+        participants: [participant],
+        revealed: false,
+        story: '',
+        storyLocked: false,
+        createdAt: '2024-01-01T00:00:00Z',
+        lastActivity: '2024-01-01T00:00:00Z',
+      };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(mockSession));
+
+      const result = await updateHeartbeat('test-123', 'user-1');
+
+      expect(result).not.toBeNull();
+      const savedData = savedSession();
+      expect(new Date(savedData.participants[0].lastHeartbeat).getTime()).toBeGreaterThan(
+        new Date('2024-01-01T00:00:00Z').getTime()
+      );
+    });
+  });
+
+  describe('removeParticipant', () => {
+    it('returns false when session does not exist', async () => {
+      mockRedisClient.get.mockResolvedValue(null);
+
+      const result = await removeParticipant('non-existent', 'user-1');
+
+      expect(result).toBeNull();
+    });
+
+    it('returns false when participant does not exist', async () => {
+      const mockSession: Session = {
+        id: 'test-123',
+        name: 'Test',
+        participants: [],
+        revealed: false,
+        story: '',
+        storyLocked: false,
+        createdAt: '2024-01-01T00:00:00Z',
+        lastActivity: '2024-01-01T00:00:00Z',
+      };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(mockSession));
+
+      const result = await removeParticipant('test-123', 'non-existent');
+
+      expect(result).toBeNull();
+    });
+
+    it('removes participant from session', async () => {
+      const participant1: Participant = {
+        id: 'user-1',
+        name: 'Alice',
+        role: 'voter',
+        vote: null,
+        avatar: 'chicken',
+      };
+      const participant2: Participant = {
+        id: 'user-2',
+        name: 'Bob',
+        role: 'voter',
+        vote: null,
+        avatar: 'dog',
+      };
+      const mockSession: Session = {
+        id: 'test-123',
+        name: 'Test',
+        participants: [participant1, participant2],
+        revealed: false,
+        story: '',
+        storyLocked: false,
+        createdAt: '2024-01-01T00:00:00Z',
+        lastActivity: '2024-01-01T00:00:00Z',
+      };
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(mockSession));
+
+      const result = await removeParticipant('test-123', 'user-1');
+
+      expect(result).not.toBeNull();
+      const savedData = savedSession();
+      expect(savedData.participants).toHaveLength(1);
+      expect(savedData.participants[0].id).toBe('user-2');
+    });
+  });
+
+  describe('deleteSession', () => {
+    it('deletes session from Redis', async () => {
+      const result = await deleteSession('test-123');
+
+      expect(result).toBe(true);
+      expect(mockRedisClient.del).toHaveBeenCalledWith('session:test-123');
+    });
+  });
+
+  describe('concurrent mutations', () => {
+    // In-memory stand-in for Redis, so concurrent requests really interleave
+    let store: Map<string, string>;
+
+    beforeEach(() => {
+      store = new Map();
+      mockRedisClient.get.mockImplementation(async (key: string) => store.get(key) ?? null);
+      mockRedisClient.set.mockImplementation(async (key: string, value: string, options?: { NX?: boolean }) => {
+        if (options?.NX && store.has(key)) return null;
+        store.set(key, value);
+        return 'OK';
+      });
+      // Same semantics as the compare-and-set Lua script
+      mockRedisClient.eval.mockImplementation(
+        async (_script: string, { keys: [key], arguments: [expectedVersion, value] }: { keys: string[]; arguments: string[] }) => {
+          const current = store.get(key);
+          if (!current || (JSON.parse(current).version ?? 0) !== Number(expectedVersion)) return 0;
+          store.set(key, value);
+          return 1;
+        }
+      );
+    });
+
+    async function storedSession(): Promise<Session> {
+      return (await getSession('test-123'))!;
+    }
+
+    it('keeps every vote when voters vote at the same time', async () => {
+      await createSession('test-123', 'Test');
+      // More voters than a mutation has attempts, so most have to back off and retry
+      const voterIds = Array.from({ length: MAX_MUTATION_ATTEMPTS + 10 }, (_, i) => `user-${i}`);
+      for (const id of voterIds) {
+        await addParticipant('test-123', id, id);
+      }
+
+      const results = await Promise.all([
+        ...voterIds.map(id => vote('test-123', id, '5')),
+        // Heartbeats racing the votes must not wipe them out either
+        updateHeartbeat('test-123', 'user-0'),
+        updateHeartbeat('test-123', 'user-1'),
+      ]);
+
+      expect(results.every(Boolean)).toBe(true);
+      const session = await storedSession();
+      expect(session.participants.map(p => p.vote)).toEqual(voterIds.map(() => '5'));
+    });
+
+    it('keeps every participant when people join at the same time', async () => {
+      await Promise.all(
+        ['Alice', 'Bob', 'Charlie', 'Dave'].map(name => addParticipant('test-123', name.toLowerCase(), name))
+      );
+
+      const session = await storedSession();
+      expect(session.participants.map(p => p.name).sort()).toEqual(['Alice', 'Bob', 'Charlie', 'Dave']);
+    });
+
+    it('bumps the version on every write', async () => {
+      await createSession('test-123', 'Test');
+      await addParticipant('test-123', 'user-1', 'Alice');
+      await vote('test-123', 'user-1', '3');
+
+      expect((await storedSession()).version).toBe(2);
+    });
+
+    it('retries with fresh data when another write gets in first', async () => {
+      await createSession('test-123', 'Test');
+      await addParticipant('test-123', 'user-1', 'Alice');
+      await addParticipant('test-123', 'user-2', 'Bob');
+
+      // Bob's vote lands between Alice's read and Alice's write
+      const originalEval = mockRedisClient.eval.getMockImplementation()!;
+      mockRedisClient.eval.mockImplementationOnce(async (...args: Parameters<typeof originalEval>) => {
+        await vote('test-123', 'user-2', '8');
+        return originalEval(...args);
+      });
+
+      const result = await vote('test-123', 'user-1', '5');
+
+      expect(result).not.toBeNull();
+      const session = await storedSession();
+      expect(session.participants.map(p => p.vote)).toEqual(['5', '8']);
+    });
+
+    it('gives up with SessionBusyError when every attempt loses the race', async () => {
+      await createSession('test-123', 'Test');
+      await addParticipant('test-123', 'user-1', 'Alice');
+      mockRedisClient.eval.mockClear();
+      mockRedisClient.eval.mockResolvedValue(0);
+      // Skip the backoff between attempts
+      const wait = jest.spyOn(global, 'setTimeout').mockImplementation(((resolve: () => void) => {
+        resolve();
+        return 0;
+      }) as unknown as typeof setTimeout);
+
+      try {
+        await expect(vote('test-123', 'user-1', '5')).rejects.toThrow(SessionBusyError);
+        expect(mockRedisClient.eval).toHaveBeenCalledTimes(MAX_MUTATION_ATTEMPTS);
+      } finally {
+        wait.mockRestore();
+      }
+    });
+
+    it('does not write when the mutation is rejected', async () => {
+      await createSession('test-123', 'Test');
+      mockRedisClient.eval.mockClear();
+
+      const result = await vote('test-123', 'non-existent', '5');
+
+      expect(result).toBeNull();
+      expect(mockRedisClient.eval).not.toHaveBeenCalled();
     });
   });
 });
@@ -1,16 +1,43 @@
-import { kv } from '@vercel/kv';
-import { createClient, RedisClientType } from 'redis';
-
-// Session expiry in seconds (7 days)
-const SESSION_EXPIRY_SECONDS = 7 * 24 * 60 * 60;
+import {
+  DEFAULT_VOTING_SCALE,
+  DEFAULT_SESSION_SETTINGS,
+  type BacklogItem,
+  type HistoryEntry,
+  type NewBacklogItem,
+  type ParticipantRole,
+  type RecordedVote,
+  type RoundRecord,
+  type ScaleDefinition,
+  type SessionEventPayload,
+  type SessionSettings,
+  type TimerExpiryAction,
+  type VoteNote,
+  type VotingScale,
+  type VotingTimer,
+} from '@/types/poker';
+import { getScale, hasScale, CUSTOM_SCALE_PREFIX } from '@/lib/scales';
+import { getConsensusVote, getOutliers, getResultType, getVoteStatistics, haveAllOnlineVotersVoted } from '@/lib/votingUtils';
+import { getNextBacklogItem, moveBacklogItem as reorderBacklog, MAX_BACKLOG_ITEMS } from '@/lib/backlog';
+import { getSessionStore } from '@/lib/stores';
+import { hashToken, verifyToken } from '@/lib/tokens';
+
+// How many times a mutation is retried when another write got in first
+export const MAX_MUTATION_ATTEMPTS = 30;
+
+// Longest wait between two attempts, in ms (the wait doubles up to this)
+const MAX_MUTATION_BACKOFF = 100;
+
+// Round records kept per session (the oldest are dropped first)
+export const MAX_ROUND_RECORDS = 500;
 
 export interface Participant {
   id: string;
   name: string;
-  role: 'voter' | 'observer';
+  role: ParticipantRole;
   vote: string | null;
   avatar: string;
   lastHeartbeat?: string;
+  tokenHash?: string;         // Hash of the participant's secret token (never sent to clients)
 }
 
 export interface Session {
@@ -20,121 +47,298 @@ export interface Session {
   revealed: boolean;
   story: string;
   storyLocked: boolean;
+  votingScale?: VotingScale;  // Missing on sessions created before scales were shared
+  customScales?: Record<string, ScaleDefinition>;
+  history?: HistoryEntry[];   // Estimated stories, oldest first
+  rounds?: RoundRecord[];     // Every revealed round, oldest first
+  backlog?: BacklogItem[];    // Stories queued for the session, in order
+  currentBacklogItemId?: string;  // Backlog item the current story came from
+  round?: number;             // Round of voting on the current story (missing = 1)
+  storyStartedAt?: number;    // When the current story was set (Unix ms), for timing it
+  currentRoundId?: string;    // Record of the revealed round, while revealed (for notes)
+  autoRevealAt?: number;      // When the auto-reveal countdown ends (Unix ms), while one is running
+  timer?: VotingTimer;        // The voting timer, while one is running
+  settings?: SessionSettings;
+  ownerTokenHash?: string;    // Hash of the facilitator's secret token (never sent to clients)
+  version?: number;           // Bumped on every write, for optimistic concurrency
   createdAt: string;
   lastActivity: string;
 }
 
-// Use Vercel KV in production, local Redis in development
-const isProduction = process.env.NODE_ENV === 'production';
-let localRedis: RedisClientType | null = null;
-
-async function getRedisClient(): Promise<RedisClientType | null> {
-  if (isProduction) {
-    return null; // Use Vercel KV directly
-  }
+/**
+ * A session as clients may see it: the same data, minus secrets. Until the
+ * votes are revealed, everyone's card is a secret too.
+ */
+export type PublicParticipant = Omit<Participant, 'tokenHash'>;
+export type PublicSession = Omit<Session, 'ownerTokenHash' | 'participants'> & {
+  participants: PublicParticipant[];
+};
+
+/**
+ * Strips secrets from a participant before it is broadcast.
+ *
+ * @param revealed - Whether the votes are revealed. Before that the vote is
+ *   hidden, so nobody can see a card in the network tab and anchor on it;
+ *   clients only learn whether the participant has voted.
+ */
+export function toPublicParticipant(participant: Participant, revealed: boolean): PublicParticipant {
+  const publicParticipant = {
+    ...participant,
+    vote: revealed ? participant.vote : null,
+    hasVoted: participant.vote !== null,
+  };
+  delete publicParticipant.tokenHash;
+  return publicParticipant;
+}
 
-  if (!localRedis) {
-    const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
-    localRedis = createClient({ url: redisUrl });
-    localRedis.on('error', (err) => console.error('Redis Client Error', err));
-    await localRedis.connect();
-  }
-  return localRedis;
+/**
+ * Strips secrets from a session before it is broadcast or returned by the API.
+ */
+export function toPublicSession(session: Session): PublicSession {
+  const publicSession: Session = {
+    ...session,
+    participants: session.participants.map(p => toPublicParticipant(p, areVotesVisible(session))),
+  };
+  delete publicSession.ownerTokenHash;
+  return publicSession;
 }
 
-function sessionKey(id: string): string {
-  return `session:${id}`;
+/**
+ * The event telling everyone the votes were revealed. It carries only the
+ * cards, the round just recorded and the result it saved (if any), not
+ * every round and result so far, so it stays small however long the
+ * meeting runs.
+ */
+export function getRevealedEvent(session: Session): Extract<SessionEventPayload, { type: 'revealed' }> {
+  const round = session.rounds?.find(r => r.id === session.currentRoundId);
+  const savedEntry = round?.historyEntryId === undefined
+    ? undefined
+    : session.history?.find(e => e.id === round.historyEntryId);
+
+  return {
+    type: 'revealed',
+    votes: session.participants
+      .filter(p => p.vote !== null)
+      .map(p => ({ participantId: p.id, vote: areVotesVisible(session) ? p.vote : null })),
+    story: session.story,
+    storyLocked: session.storyLocked,
+    savedEntry,
+    round,
+  };
 }
 
-export async function createSession(id: string, name: string): Promise<Session> {
+function newSession(id: string, name: string): Session {
   const now = new Date().toISOString();
-  const session: Session = {
+  return {
     id,
     name,
     participants: [],
     revealed: false,
     story: '',
     storyLocked: false,
+    votingScale: DEFAULT_VOTING_SCALE,
+    history: [],
+    settings: { ...DEFAULT_SESSION_SETTINGS },
+    version: 0,
     createdAt: now,
     lastActivity: now,
   };
+}
 
-  const client = await getRedisClient();
-  if (client) {
-    await client.set(sessionKey(id), JSON.stringify(session), { EX: SESSION_EXPIRY_SECONDS });
-  } else {
-    await kv.set(sessionKey(id), session, { ex: SESSION_EXPIRY_SECONDS });
+/**
+ * Applies a change to a session without losing concurrent changes.
+ *
+ * HOW IT WORKS (optimistic concurrency):
+ * 1. Read the session and remember its version
+ * 2. Apply the change to the copy we read
+ * 3. Write it back only if the stored version is unchanged
+ * 4. If someone else wrote first, start over from a fresh read
+ *
+ * So two people voting at the same moment (or a vote racing a heartbeat)
+ * both end up in the stored session instead of one overwriting the other.
+ *
+ * @param mutate - Changes the session in place. Return false to abort without writing.
+ *   May run more than once, so it must not have side effects.
+ * @param createIfMissing - Builds a new session if none exists (otherwise null is returned)
+ * @returns The session as written, or null if it doesn't exist or the mutation was aborted
+ * @throws SessionBusyError if other writes got in first MAX_MUTATION_ATTEMPTS times
+ *
+ * The mutation helpers below (vote, reveal, ...) return the same thing, so
+ * routes know the exact version their change was written as.
+ */
+export async function mutateSession(
+  id: string,
+  mutate: (session: Session) => boolean | void,
+  createIfMissing?: () => Session
+): Promise<Session | null> {
+  for (let attempt = 0; attempt < MAX_MUTATION_ATTEMPTS; attempt++) {
+    const current = await getSession(id);
+    const session = current ?? createIfMissing?.();
+    if (!session) return null;
+
+    const expectedVersion = session.version ?? 0;
+    if (mutate(session) === false) return null;
+
+    session.version = expectedVersion + 1;
+    session.lastActivity = new Date().toISOString();
+
+    const store = getSessionStore();
+    const written = current
+      ? await store.compareAndSet(session, expectedVersion)
+      : await store.setIfMissing(session);
+    if (written) return session;
+
+    // Lost the race: back off, longer each time (with jitter so retries don't collide again)
+    const backoff = Math.min(MAX_MUTATION_BACKOFF, 5 * 2 ** attempt);
+    await new Promise(resolve => setTimeout(resolve, Math.random() * backoff));
   }
 
+  throw new SessionBusyError(id);
+}
+
+/**
+ * Thrown by mutateSession when other writes keep getting in first. Nothing
+ * was written, so the request can safely be retried: routes answer it with
+ * 503 (see handleSessionBusy) and the client tries again.
+ */
+export class SessionBusyError extends Error {
+  constructor(sessionId: string) {
+    super(`Session ${sessionId} is changing too fast to update`);
+    this.name = 'SessionBusyError';
+  }
+}
+
+/**
+ * @param ownerTokenHash - Hash of the creator's owner token (see '@/lib/tokens'),
+ *   which lets them join as the facilitator
+ */
+export async function createSession(id: string, name: string, ownerTokenHash?: string): Promise<Session> {
+  const session = newSession(id, name);
+  if (ownerTokenHash) session.ownerTokenHash = ownerTokenHash;
+  await getSessionStore().set(session);
   return session;
 }
 
 export async function getSession(id: string): Promise<Session | null> {
-  const client = await getRedisClient();
-  if (client) {
-    const data = await client.get(sessionKey(id));
-    return data ? JSON.parse(data) : null;
-  } else {
-    return await kv.get<Session>(sessionKey(id));
-  }
+  return await getSessionStore().get(id);
+}
+
+/**
+ * Whether clients may see who voted what: once the votes are revealed,
+ * unless the session is anonymous (then only the round record has the cards).
+ */
+export function areVotesVisible(session: Session): boolean {
+  return session.revealed && !getSettings(session).anonymous;
+}
+
+/**
+ * Whether anonymous voting can be turned on or off: only between rounds.
+ * Votes are stored with their voters, so turning it off after an anonymous
+ * reveal would show everyone who voted what.
+ */
+export function canChangeAnonymity(session: Session): boolean {
+  return !session.revealed && session.participants.every(p => p.vote === null);
+}
+
+/**
+ * Gets a session without its secrets, ready to broadcast or return to a client.
+ */
+export async function getPublicSession(id: string): Promise<PublicSession | null> {
+  const session = await getSession(id);
+  return session && toPublicSession(session);
 }
 
+/**
+ * Whether a request's owner token belongs to the session's facilitator.
+ */
+export function isFacilitator(session: Session, ownerToken: unknown): boolean {
+  return verifyToken(ownerToken, session.ownerTokenHash);
+}
+
+/**
+ * Whether a request's participant token belongs to the given participant.
+ * Routes that act on behalf of a participant (vote, avatar, heartbeat, leave)
+ * check this, so knowing someone's id isn't enough to impersonate them.
+ */
+export function isParticipant(session: Session, participantId: unknown, participantToken: unknown): boolean {
+  const participant = session.participants.find(p => p.id === participantId);
+  return !!participant && verifyToken(participantToken, participant.tokenHash);
+}
+
+/**
+ * Whether a request may reveal, reset, set the story or change the scale.
+ * Anyone can, unless the facilitator has restricted it to themselves.
+ */
+export function canControlRound(session: Session, ownerToken: unknown): boolean {
+  return !session.settings?.facilitatorOnly || isFacilitator(session, ownerToken);
+}
+
+/**
+ * Overwrites the whole session, regardless of concurrent changes.
+ * Prefer mutateSession(), which can't lose other people's updates.
+ */
 export async function updateSession(session: Session): Promise<void> {
   session.lastActivity = new Date().toISOString();
-
-  const client = await getRedisClient();
-  if (client) {
-    await client.set(sessionKey(session.id), JSON.stringify(session), { EX: SESSION_EXPIRY_SECONDS });
-  } else {
-    await kv.set(sessionKey(session.id), session, { ex: SESSION_EXPIRY_SECONDS });
-  }
+  // Still bump the version so in-flight mutations notice the change
+  session.version = (session.version ?? 0) + 1;
+  await getSessionStore().set(session);
 }
 
+/**
+ * Adds a participant, or updates them when rejoining.
+ *
+ * @param participantToken - The participant's secret token (see '@/lib/tokens').
+ *   A new participant gets its hash stored; a rejoining participant must present
+ *   the same token, otherwise the join is refused (returns null).
+ * @param ownerToken - Participants who joined before tokens existed have none
+ *   to check, so only the facilitator (holding the owner token) may claim one
+ * @returns The session as written (find the participant by id in it)
+ */
 export async function addParticipant(
   sessionId: string,
   participantId: string,
   name: string,
-  role: 'voter' | 'observer' = 'voter',
-  avatar: string = 'chicken'
-): Promise<Participant | null> {
-  let session = await getSession(sessionId);
-
-  // Create session if it doesn't exist
-  if (!session) {
-    session = await createSession(sessionId, 'Planning Session');
-  }
-
+  role: ParticipantRole = 'voter',
+  avatar: string = 'chicken',
+  participantToken?: string,
+  ownerToken?: unknown
+): Promise<Session | null> {
   const now = new Date().toISOString();
-
-  // Check if participant already exists
-  const existingIndex = session.participants.findIndex(p => p.id === participantId);
-  if (existingIndex >= 0) {
-    // Preserve existing vote and avatar when rejoining
-    const existing = session.participants[existingIndex];
-    session.participants[existingIndex] = {
-      id: participantId,
-      name,
-      role,
-      vote: existing.vote,  // Keep existing vote
-      avatar: existing.avatar || avatar,  // Keep existing avatar
-      lastHeartbeat: now,
-    };
-  } else {
-    // New participant
-    session.participants.push({
-      id: participantId,
-      name,
-      role,
-      vote: null,
-      avatar,
-      lastHeartbeat: now,
-    });
-  }
-
-  const participant = session.participants.find(p => p.id === participantId)!;
-
-  await updateSession(session);
-  return participant;
+  const tokenHash = participantToken ? hashToken(participantToken) : undefined;
+
+  return await mutateSession(sessionId, (session) => {
+    // Check if participant already exists
+    const existingIndex = session.participants.findIndex(p => p.id === participantId);
+    if (existingIndex >= 0) {
+      const existing = session.participants[existingIndex];
+      // Someone else's id: refuse rather than let them take over the participant
+      if (existing.tokenHash && !verifyToken(participantToken, existing.tokenHash)) return false;
+      // Without a token, knowing the id is all it would take
+      if (!existing.tokenHash && !isFacilitator(session, ownerToken)) return false;
+
+      // Preserve existing vote and avatar when rejoining
+      session.participants[existingIndex] = {
+        id: participantId,
+        name,
+        role,
+        vote: existing.vote,  // Keep existing vote
+        avatar: existing.avatar || avatar,  // Keep existing avatar
+        lastHeartbeat: now,
+        tokenHash: existing.tokenHash ?? tokenHash,  // A participant from before tokens gets one now
+      };
+    } else {
+      // New participant
+      session.participants.push({
+        id: participantId,
+        name,
+        role,
+        vote: null,
+        avatar,
+        lastHeartbeat: now,
+        tokenHash,
+      });
+    }
+  }, () => newSession(sessionId, 'Planning Session'));  // Create session if it doesn't exist
 }
 
 export async function getParticipant(sessionId: string, participantId: string): Promise<Participant | null> {
@@ -143,95 +347,609 @@ export async function getParticipant(sessionId: string, participantId: string):
   return session.participants.find(p => p.id === participantId) || null;
 }
 
-export async function vote(sessionId: string, participantId: string, voteValue: string | null): Promise<boolean> {
-  const session = await getSession(sessionId);
-  if (!session) return false;
+/**
+ * The session's settings, with defaults for options it was stored without.
+ */
+function getSettings(session: Session): Required<SessionSettings> {
+  return { ...DEFAULT_SESSION_SETTINGS, ...session.settings };
+}
 
-  const participant = session.participants.find(p => p.id === participantId);
-  if (!participant || participant.role !== 'voter') return false;
+/**
+ * @param onlineIds - Who is connected via presence, for auto-reveal (see
+ *   isParticipantOnline). Omit to go by heartbeats; null means presence is
+ *   on but couldn't be read, so the auto-reveal countdown is left alone.
+ */
+export async function vote(
+  sessionId: string,
+  participantId: string,
+  voteValue: string | null,
+  onlineIds?: ReadonlySet<string> | null
+): Promise<Session | null> {
+  // Generated up front in case this vote reveals the round (see updateAutoReveal)
+  const entryId = crypto.randomUUID();
+  const roundId = crypto.randomUUID();
+
+  return await mutateSession(sessionId, (session) => {
+    const participant = session.participants.find(p => p.id === participantId);
+    if (!participant || participant.role !== 'voter') return false;
+
+    // Reject cards that aren't on the session's current scale
+    const scale = getScale(session.votingScale, session.customScales);
+    if (voteValue !== null && !scale.values.includes(voteValue)) return false;
+
+    participant.vote = voteValue;
+    if (onlineIds !== null) updateAutoReveal(session, onlineIds, entryId, roundId);
+  });
+}
 
-  participant.vote = voteValue;
-  await updateSession(session);
-  return true;
+/**
+ * Starts the auto-reveal countdown once every online voter has voted, or
+ * stops it if someone took their card back. Without a countdown the votes
+ * are revealed right away. Only checked when a vote changes.
+ */
+function updateAutoReveal(
+  session: Session,
+  onlineIds: ReadonlySet<string> | undefined,
+  entryId: string,
+  roundId: string
+): void {
+  const settings = getSettings(session);
+  if (!settings.autoReveal || session.revealed) return;
+
+  const now = Date.now();
+  if (!haveAllOnlineVotersVoted(session.participants, now, onlineIds)) {
+    delete session.autoRevealAt;
+  } else if (settings.autoRevealCountdown === 0) {
+    revealRound(session, entryId, roundId);
+  } else if (session.autoRevealAt === undefined) {
+    session.autoRevealAt = now + settings.autoRevealCountdown * 1000;
+  }
 }
 
-export async function reveal(sessionId: string): Promise<boolean> {
-  const session = await getSession(sessionId);
-  if (!session) return false;
+/**
+ * Every voter's card, with their name as it is now (or without names in
+ * anonymous sessions).
+ */
+function getRecordedVotes(session: Session): RecordedVote[] {
+  const votes = session.participants
+    .filter(p => p.role === 'voter' && p.vote !== null)
+    .map(p => ({ participantId: p.id, name: p.name, vote: p.vote! }));
+  if (!getSettings(session).anonymous) return votes;
+
+  // Without names, and in card order so the join order gives nobody away
+  const { values } = getScale(session.votingScale, session.customScales);
+  return votes
+    .map(({ vote }) => ({ vote }))
+    .sort((a, b) => values.indexOf(a.vote) - values.indexOf(b.vote));
+}
 
-  session.revealed = true;
-  await updateSession(session);
-  return true;
+/**
+ * Snapshots the round being revealed, with its statistics on the session's scale.
+ * Rounds nobody voted in aren't recorded.
+ */
+function recordRound(session: Session, id: string): void {
+  const votes = getRecordedVotes(session);
+  if (votes.length === 0) return;
+
+  const scale = getScale(session.votingScale, session.customScales);
+  const stats = getVoteStatistics(votes.map(v => v.vote), scale);
+  const record: RoundRecord = {
+    id,
+    story: session.story.trim(),
+    round: session.round ?? 1,
+    votes,
+    resultType: getResultType(session.participants),
+    ...stats,
+    revealedAt: Date.now(),
+  };
+  session.rounds = [...(session.rounds ?? []), record].slice(-MAX_ROUND_RECORDS);
+  session.currentRoundId = id;
 }
 
-export async function reset(sessionId: string): Promise<boolean> {
-  const session = await getSession(sessionId);
-  if (!session) return false;
+/**
+ * Creates a history entry.
+ *
+ * @param session - Pass the session while its votes are revealed to record
+ *   every voter's card, the result type and the round count with the entry
+ */
+function createHistoryEntry(id: string, story: string, vote: string, session?: Session): HistoryEntry {
+  const entry: HistoryEntry = {
+    id,
+    story,
+    vote,
+    timestamp: Date.now(),
+  };
+
+  if (session) {
+    entry.votes = getRecordedVotes(session);
+    entry.resultType = getResultType(session.participants);
+    entry.roundCount = session.round ?? 1;
+  }
+  return entry;
+}
+
+function getCurrentBacklogItem(session: Session): BacklogItem | undefined {
+  return session.currentBacklogItemId === undefined
+    ? undefined
+    : session.backlog?.find(item => item.id === session.currentBacklogItemId);
+}
+
+/**
+ * Saves a result to history, marking the backlog item it was for as estimated
+ * and linking the story's rounds to it.
+ */
+function saveResult(session: Session, entry: HistoryEntry): void {
+  // Time the story from when it was set, if this is its result
+  if (session.storyStartedAt !== undefined && entry.story === session.story.trim()) {
+    entry.duration = entry.timestamp - session.storyStartedAt;
+    delete session.storyStartedAt;
+  }
+  session.history = [...(session.history ?? []), entry];
 
+  session.rounds?.forEach(round => {
+    if (round.historyEntryId === undefined && round.story === entry.story) {
+      round.historyEntryId = entry.id;
+    }
+  });
+
+  // Only if the story is still the item's (it may have been retyped since)
+  const item = getCurrentBacklogItem(session);
+  if (item && item.title === entry.story) {
+    item.status = 'estimated';
+    item.estimate = entry.vote;
+    item.historyEntryId = entry.id;
+  }
+}
+
+/**
+ * Makes a story (or nothing) the one being estimated.
+ * Backlog items are loaded as the story, already set (locked).
+ */
+function loadStory(session: Session, item: BacklogItem | undefined): void {
+  // Voting on the same item again is another round of it (and its timing goes on)
+  const isSameItem = !!item && item.id === session.currentBacklogItemId;
+  session.round = isSameItem ? (session.round ?? 1) + 1 : 1;
+  if (!item) {
+    delete session.storyStartedAt;
+  } else if (!isSameItem || session.storyStartedAt === undefined) {
+    session.storyStartedAt = Date.now();
+  }
+
+  session.story = item?.title ?? '';
+  session.storyLocked = !!item;
+  if (item) {
+    session.currentBacklogItemId = item.id;
+  } else {
+    delete session.currentBacklogItemId;
+  }
+}
+
+/**
+ * Hides the results and clears voters' votes (observers never have one).
+ */
+function clearVotes(session: Session): void {
   session.revealed = false;
-  session.story = '';
-  session.storyLocked = false;
+  delete session.currentRoundId;
+  delete session.autoRevealAt;
+  delete session.timer;
   session.participants.forEach(p => {
     if (p.role === 'voter') {
       p.vote = null;
     }
   });
-  await updateSession(session);
-  return true;
 }
 
-export async function updateStory(sessionId: string, story: string, storyLocked: boolean): Promise<boolean> {
-  const session = await getSession(sessionId);
-  if (!session) return false;
+/**
+ * Clears the votes and loads the next story from the backlog (if any).
+ */
+function startNextRound(session: Session, item = getNextBacklogItem(session.backlog)): void {
+  clearVotes(session);
+  loadStory(session, item);
+}
 
-  session.story = story;
-  session.storyLocked = storyLocked;
-  await updateSession(session);
-  return true;
+/**
+ * Reveals the votes, recording the round and auto-saving a consensus.
+ * Revealing an already revealed round changes nothing.
+ */
+function revealRound(session: Session, entryId: string, roundId: string): void {
+  delete session.autoRevealAt;
+  delete session.timer;  // Voting is over
+  if (session.revealed) return;
+
+  recordRound(session, roundId);
+
+  // Auto-save to history on consensus if a story is set.
+  // Done here (not in the browser) so the entry is saved exactly once.
+  const consensusVote = getConsensusVote(session.participants);
+  const story = session.story.trim();
+  if (consensusVote && story) {
+    saveResult(session, createHistoryEntry(entryId, story, consensusVote, session));
+    session.story = '';
+    session.storyLocked = false;
+  }
+
+  session.revealed = true;
 }
 
-export async function updateAvatar(sessionId: string, participantId: string, avatar: string): Promise<boolean> {
-  const session = await getSession(sessionId);
-  if (!session) return false;
+export async function reveal(sessionId: string): Promise<Session | null> {
+  // Generated up front so a retried mutation saves the same entry and round
+  const entryId = crypto.randomUUID();
+  const roundId = crypto.randomUUID();
 
-  const participant = session.participants.find(p => p.id === participantId);
-  if (!participant) return false;
+  return await mutateSession(sessionId, (session) => {
+    revealRound(session, entryId, roundId);
+  });
+}
 
-  participant.avatar = avatar;
-  await updateSession(session);
-  return true;
+/**
+ * Reveals the votes once the auto-reveal countdown has run out.
+ *
+ * Every browser calls this when its countdown reaches zero, so the server's
+ * clock decides: calls that come too early (or after another browser got
+ * there first) change nothing.
+ *
+ * @returns The session as written, or null if it doesn't exist, no
+ *   countdown is running or it hasn't ended yet
+ */
+export async function revealWhenDue(sessionId: string): Promise<Session | null> {
+  // Generated up front so a retried mutation saves the same entry and round
+  const entryId = crypto.randomUUID();
+  const roundId = crypto.randomUUID();
+
+  return await mutateSession(sessionId, (session) => {
+    if (session.autoRevealAt === undefined || Date.now() < session.autoRevealAt) return false;
+    revealRound(session, entryId, roundId);
+  });
 }
 
-export async function updateHeartbeat(sessionId: string, participantId: string): Promise<boolean> {
-  const session = await getSession(sessionId);
-  if (!session) return false;
+/**
+ * Stops the auto-reveal countdown (anyone in the session may).
+ *
+ * @returns The session as written, or null if it doesn't exist or no
+ *   countdown is running
+ */
+export async function cancelAutoReveal(sessionId: string): Promise<Session | null> {
+  return await mutateSession(sessionId, (session) => {
+    if (session.autoRevealAt === undefined) return false;
+    delete session.autoRevealAt;
+  });
+}
 
-  const participant = session.participants.find(p => p.id === participantId);
-  if (!participant) return false;
+/**
+ * Starts a new round. If the session has a backlog, its next pending story
+ * becomes the current one (a story that wasn't saved is still pending, so
+ * it comes up again for a re-vote).
+ */
+export async function reset(sessionId: string): Promise<Session | null> {
+  return await mutateSession(sessionId, (session) => {
+    startNextRound(session);
+  });
+}
 
-  participant.lastHeartbeat = new Date().toISOString();
-  await updateSession(session);
-  return true;
+/**
+ * Votes on the same story again (e.g. after a split vote and a discussion).
+ * Clears the votes but keeps the story, and counts another round. The
+ * revealed round stays in rounds, to compare with the next one.
+ *
+ * @returns The session as written, or null if it doesn't exist or the
+ *   votes aren't revealed
+ */
+export async function revote(sessionId: string): Promise<Session | null> {
+  return await mutateSession(sessionId, (session) => {
+    if (!session.revealed) return false;
+    clearVotes(session);
+    session.round = (session.round ?? 1) + 1;
+  });
 }
 
-export async function removeParticipant(sessionId: string, participantId: string): Promise<boolean> {
-  const session = await getSession(sessionId);
-  if (!session) return false;
+/**
+ * Attaches a voter's note explaining their card to the revealed round.
+ * Only voters who held the lowest or highest card at reveal can explain
+ * it; posting again replaces their note.
+ *
+ * @param text - The note, already trimmed and length-checked
+ * @returns The session as written, or null if it doesn't exist, the votes
+ *   aren't revealed, or the participant wasn't an outlier
+ */
+export async function addVoteNote(sessionId: string, participantId: string, text: string): Promise<Session | null> {
+  const createdAt = Date.now();
+
+  return await mutateSession(sessionId, (session) => {
+    const record = session.revealed ? session.rounds?.find(r => r.id === session.currentRoundId) : undefined;
+    if (!record) return false;
+
+    const recorded = record.votes.find(v => v.participantId === participantId);
+    const scale = getScale(session.votingScale, session.customScales);
+    // Anonymous rounds record nobody's card, so there's nothing to explain
+    if (recorded?.name === undefined || !getOutliers(record.votes, scale).has(participantId)) return false;
+
+    const note: VoteNote = { participantId, name: recorded.name, vote: recorded.vote, text, createdAt };
+    record.notes = [...(record.notes ?? []).filter(n => n.participantId !== participantId), note];
+  });
+}
 
-  const index = session.participants.findIndex(p => p.id === participantId);
-  if (index === -1) return false;
+/**
+ * Starts the voting timer (replacing one that is already running).
+ *
+ * @param duration - Length in seconds
+ * @param onExpire - What happens when it runs out (see expireTimer)
+ */
+export async function startTimer(sessionId: string, duration: number, onExpire: TimerExpiryAction): Promise<Session | null> {
+  return await mutateSession(sessionId, (session) => {
+    session.timer = { endsAt: Date.now() + duration * 1000, duration, onExpire };
+  });
+}
 
-  session.participants.splice(index, 1);
-  await updateSession(session);
-  return true;
+/**
+ * Stops the voting timer early.
+ *
+ * @returns The session as written, or null if it doesn't exist or no timer is running
+ */
+export async function stopTimer(sessionId: string): Promise<Session | null> {
+  return await mutateSession(sessionId, (session) => {
+    if (!session.timer) return false;
+    delete session.timer;
+  });
+}
+
+/**
+ * Ends the voting timer once it has run out, revealing the votes if it was
+ * set to. (Ringing the bell is a broadcast, so that's left to the caller.)
+ *
+ * Like revealWhenDue, every browser calls this when its countdown reaches
+ * zero: calls that come too early, or after the timer was already ended,
+ * change nothing.
+ *
+ * @returns The session as written and the timer that ran out, or null if
+ *   the session doesn't exist, no timer is running or it hasn't ended yet
+ */
+export async function expireTimer(sessionId: string): Promise<{ session: Session; timer: VotingTimer } | null> {
+  // Generated up front so a retried mutation saves the same entry and round
+  const entryId = crypto.randomUUID();
+  const roundId = crypto.randomUUID();
+  let expired: VotingTimer | undefined;
+
+  const session = await mutateSession(sessionId, (session) => {
+    expired = session.timer;
+    if (!expired || Date.now() < expired.endsAt) return false;
+
+    delete session.timer;
+    if (expired.onExpire === 'reveal') revealRound(session, entryId, roundId);
+  });
+  return session && expired ? { session, timer: expired } : null;
+}
+
+export async function updateStory(sessionId: string, story: string, storyLocked: boolean): Promise<Session | null> {
+  return await mutateSession(sessionId, (session) => {
+    // A different story starts over from the first round
+    if (story !== session.story) {
+      session.round = 1;
+      delete session.storyStartedAt;
+    }
+    session.story = story;
+    session.storyLocked = storyLocked;
+    // The story's clock starts when it's set
+    if (storyLocked && story.trim() && session.storyStartedAt === undefined) {
+      session.storyStartedAt = Date.now();
+    }
+    // A retyped story is no longer the backlog item's
+    if (getCurrentBacklogItem(session)?.title !== story) {
+      delete session.currentBacklogItemId;
+    }
+  });
+}
+
+function selectScale(session: Session, scale: VotingScale): void {
+  session.votingScale = scale;
+  // Votes from the previous scale don't mean anything on the new one
+  clearVotes(session);
+}
+
+export async function updateScale(sessionId: string, scale: VotingScale): Promise<Session | null> {
+  return await mutateSession(sessionId, (session) => {
+    if (!hasScale(scale, session.customScales)) return false;
+    selectScale(session, scale);
+  });
+}
+
+/**
+ * Adds a custom scale to the session and switches everyone to it.
+ * The definition should already be validated (see validateScaleDefinition).
+ *
+ * @returns The session as written (its votingScale is the new scale's id),
+ *   or null if the session doesn't exist
+ */
+export async function addCustomScale(sessionId: string, scale: ScaleDefinition): Promise<Session | null> {
+  const scaleId = `${CUSTOM_SCALE_PREFIX}${crypto.randomUUID().slice(0, 8)}`;
+
+  return await mutateSession(sessionId, (session) => {
+    session.customScales = { ...session.customScales, [scaleId]: scale };
+    selectScale(session, scaleId);
+  });
+}
+
+/**
+ * Saves a result to history by hand (e.g. the team picked a value after a split vote).
+ * If the votes are still revealed, they're recorded with the entry.
+ *
+ * @returns The session as written and the new entry, or null if the session doesn't exist
+ */
+export async function addHistoryEntry(
+  sessionId: string,
+  story: string,
+  vote: string
+): Promise<{ session: Session; entry: HistoryEntry } | null> {
+  // Generated up front so a retried mutation saves the same entry
+  const entryId = crypto.randomUUID();
+  let entry: HistoryEntry | undefined;
+
+  const session = await mutateSession(sessionId, (session) => {
+    entry = createHistoryEntry(entryId, story, vote, session.revealed ? session : undefined);
+    saveResult(session, entry);
+  });
+  return session && entry ? { session, entry } : null;
+}
+
+export async function updateHistoryEntry(
+  sessionId: string,
+  entryId: string,
+  changes: Partial<Pick<HistoryEntry, 'story' | 'vote'>>
+): Promise<Session | null> {
+  return await mutateSession(sessionId, (session) => {
+    const entry = session.history?.find(e => e.id === entryId);
+    if (!entry) return false;
+
+    if (changes.story !== undefined) entry.story = changes.story;
+    if (changes.vote !== undefined) entry.vote = changes.vote;
+
+    // Keep the backlog item's estimate in step
+    const item = session.backlog?.find(i => i.historyEntryId === entryId);
+    if (item) item.estimate = entry.vote;
+  });
+}
+
+export async function deleteHistoryEntry(sessionId: string, entryId: string): Promise<Session | null> {
+  return await mutateSession(sessionId, (session) => {
+    const index = session.history?.findIndex(e => e.id === entryId) ?? -1;
+    if (index === -1) return false;
+
+    session.history!.splice(index, 1);
+
+    // Its rounds are kept, but no longer count as saved
+    session.rounds?.forEach(round => {
+      if (round.historyEntryId === entryId) delete round.historyEntryId;
+    });
+
+    // The backlog item no longer has a result, so it goes back in the queue
+    const item = session.backlog?.find(i => i.historyEntryId === entryId);
+    if (item) {
+      item.status = 'pending';
+      delete item.estimate;
+      delete item.historyEntryId;
+    }
+  });
+}
+
+/**
+ * Adds stories to the end of the backlog.
+ * Stories should already be trimmed and validated (see '@/lib/backlogImport').
+ *
+ * @returns The session as written, or null if it doesn't exist or the
+ *   backlog would grow past MAX_BACKLOG_ITEMS
+ */
+export async function addBacklogItems(sessionId: string, stories: NewBacklogItem[]): Promise<Session | null> {
+  // Generated up front so a retried mutation adds the same items
+  const items: BacklogItem[] = stories.map(story => ({
+    ...story,
+    id: crypto.randomUUID(),
+    status: 'pending',
+  }));
+
+  return await mutateSession(sessionId, (session) => {
+    const backlog = session.backlog ?? [];
+    if (backlog.length + items.length > MAX_BACKLOG_ITEMS) return false;
+
+    session.backlog = [...backlog, ...items];
+  });
+}
+
+export async function moveBacklogItem(sessionId: string, itemId: string, toIndex: number): Promise<Session | null> {
+  return await mutateSession(sessionId, (session) => {
+    const backlog = reorderBacklog(session.backlog ?? [], itemId, toIndex);
+    if (!backlog) return false;
+
+    session.backlog = backlog;
+  });
+}
+
+/**
+ * Skips a backlog item, or puts a skipped one back in the queue.
+ * Skipping the story being estimated starts a round on the next one.
+ */
+export async function setBacklogItemSkipped(sessionId: string, itemId: string, skipped: boolean): Promise<Session | null> {
+  return await mutateSession(sessionId, (session) => {
+    const item = session.backlog?.find(i => i.id === itemId);
+    if (!item || item.status === 'estimated') return false;
+
+    item.status = skipped ? 'skipped' : 'pending';
+    if (skipped && session.currentBacklogItemId === itemId) {
+      startNextRound(session);
+    }
+  });
+}
+
+/**
+ * Removes an item from the backlog. Its history entry (if any) is kept.
+ * Removing the story being estimated starts a round on the next one.
+ */
+export async function removeBacklogItem(sessionId: string, itemId: string): Promise<Session | null> {
+  return await mutateSession(sessionId, (session) => {
+    const index = session.backlog?.findIndex(i => i.id === itemId) ?? -1;
+    if (index === -1) return false;
+
+    session.backlog!.splice(index, 1);
+    if (session.currentBacklogItemId === itemId) {
+      startNextRound(session);
+    }
+  });
+}
+
+/**
+ * Starts a new round on a particular backlog item, out of queue order.
+ * A skipped item goes back to pending; an estimated one is re-estimated.
+ */
+export async function startBacklogItem(sessionId: string, itemId: string): Promise<Session | null> {
+  return await mutateSession(sessionId, (session) => {
+    const item = session.backlog?.find(i => i.id === itemId);
+    if (!item) return false;
+
+    if (item.status === 'skipped') item.status = 'pending';
+    startNextRound(session, item);
+  });
+}
+
+export async function updateSettings(sessionId: string, settings: Partial<SessionSettings>): Promise<Session | null> {
+  return await mutateSession(sessionId, (session) => {
+    if (settings.anonymous !== undefined
+      && settings.anonymous !== getSettings(session).anonymous
+      && !canChangeAnonymity(session)) {
+      return false;
+    }
+
+    session.settings = { ...getSettings(session), ...settings };
+    // Turning auto-reveal off stops a running countdown
+    if (!session.settings.autoReveal) delete session.autoRevealAt;
+  });
+}
+
+export async function updateAvatar(sessionId: string, participantId: string, avatar: string): Promise<Session | null> {
+  return await mutateSession(sessionId, (session) => {
+    const participant = session.participants.find(p => p.id === participantId);
+    if (!participant) return false;
+
+    participant.avatar = avatar;
+  });
+}
+
+export async function updateHeartbeat(sessionId: string, participantId: string): Promise<Session | null> {
+  return await mutateSession(sessionId, (session) => {
+    const participant = session.participants.find(p => p.id === participantId);
+    if (!participant) return false;
+
+    participant.lastHeartbeat = new Date().toISOString();
+  });
+}
+
+export async function removeParticipant(sessionId: string, participantId: string): Promise<Session | null> {
+  return await mutateSession(sessionId, (session) => {
+    const index = session.participants.findIndex(p => p.id === participantId);
+    if (index === -1) return false;
+
+    session.participants.splice(index, 1);
+  });
 }
 
 export async function deleteSession(id: string): Promise<boolean> {
-  const client = await getRedisClient();
-  if (client) {
-    await client.del(sessionKey(id));
-  } else {
-    await kv.del(sessionKey(id));
-  }
+  await getSessionStore().delete(id);
   return true;
 }
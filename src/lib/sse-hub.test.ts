@@ -0,0 +1,102 @@
+import { getPresentMembers, publish, subscribe, trackPresence } from './sse-hub';
+
+describe('sse-hub', () => {
+  it('delivers events to subscribers of the channel', () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribe('session-a', listener);
+
+    publish('session-a', 'bell', { from: 'Alice' });
+
+    expect(listener).toHaveBeenCalledWith('bell', { from: 'Alice' });
+    unsubscribe();
+  });
+
+  it('does not deliver events from other channels', () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribe('session-a', listener);
+
+    publish('session-b', 'bell', { from: 'Alice' });
+
+    expect(listener).not.toHaveBeenCalled();
+    unsubscribe();
+  });
+
+  it('delivers to every subscriber on a channel', () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    const unsubscribeFirst = subscribe('session-a', first);
+    const unsubscribeSecond = subscribe('session-a', second);
+
+    publish('session-a', 'session-state', { id: 'a' });
+
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(1);
+    unsubscribeFirst();
+    unsubscribeSecond();
+  });
+
+  it('stops delivering after unsubscribe', () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribe('session-a', listener);
+
+    unsubscribe();
+    publish('session-a', 'bell', { from: 'Alice' });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('ignores publishes to channels with no subscribers', () => {
+    expect(() => publish('session-empty', 'bell', {})).not.toThrow();
+  });
+});
+
+describe('sse-hub presence', () => {
+  it('lists members while they are connected', () => {
+    const untrack = trackPresence('presence-a', 'alice');
+
+    expect(getPresentMembers('presence-a')).toEqual(['alice']);
+    untrack();
+    expect(getPresentMembers('presence-a')).toEqual([]);
+  });
+
+  it('publishes the online list when a member joins and leaves', () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribe('presence-a', listener);
+
+    const untrack = trackPresence('presence-a', 'alice');
+    expect(listener).toHaveBeenLastCalledWith('presence', { online: ['alice'] });
+
+    untrack();
+    expect(listener).toHaveBeenLastCalledWith('presence', { online: [] });
+    unsubscribe();
+  });
+
+  it('keeps a member online until their last connection closes', () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribe('presence-a', listener);
+
+    const untrackFirstTab = trackPresence('presence-a', 'alice');
+    const untrackSecondTab = trackPresence('presence-a', 'alice');
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    untrackFirstTab();
+    expect(getPresentMembers('presence-a')).toEqual(['alice']);
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    untrackSecondTab();
+    expect(getPresentMembers('presence-a')).toEqual([]);
+    expect(listener).toHaveBeenCalledTimes(2);
+    unsubscribe();
+  });
+
+  it('ignores a connection being released twice', () => {
+    const untrackFirstTab = trackPresence('presence-a', 'alice');
+    const untrackSecondTab = trackPresence('presence-a', 'alice');
+
+    untrackFirstTab();
+    untrackFirstTab();
+
+    expect(getPresentMembers('presence-a')).toEqual(['alice']);
+    untrackSecondTab();
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * In-process publish/subscribe hub for the Server-Sent Events transport.
+ *
+ * API routes publish events here, and each open /events stream subscribes
+ * to its session's channel. Everything lives in this server process's memory.
+ */
+
+type Listener = (event: string, data: unknown) => void;
+
+// Kept on globalThis so every route (and dev-server module reloads) shares one hub
+const globalForHub = globalThis as typeof globalThis & {
+  __sseChannels?: Map<string, Set<Listener>>;
+};
+
+function getChannels(): Map<string, Set<Listener>> {
+  return globalForHub.__sseChannels ??= new Map();
+}
+
+/**
+ * Starts listening to a channel.
+ * @returns A function that stops listening
+ */
+export function subscribe(channel: string, listener: Listener): () => void {
+  const channels = getChannels();
+  const listeners = channels.get(channel) ?? new Set<Listener>();
+  listeners.add(listener);
+  channels.set(channel, listeners);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) channels.delete(channel);
+  };
+}
+
+/**
+ * Sends an event to everyone listening on a channel.
+ */
+export function publish(channel: string, event: string, data: unknown): void {
+  getChannels().get(channel)?.forEach(listener => listener(event, data));
+}
+
+// Open presence connections per channel: member ID -> number of connections
+// (the same participant can have the session open in several tabs)
+const globalForPresence = globalThis as typeof globalThis & {
+  __ssePresence?: Map<string, Map<string, number>>;
+};
+
+function getPresence(): Map<string, Map<string, number>> {
+  return globalForPresence.__ssePresence ??= new Map();
+}
+
+/**
+ * IDs of the members with at least one open connection on a channel.
+ */
+export function getPresentMembers(channel: string): string[] {
+  return [...(getPresence().get(channel)?.keys() ?? [])];
+}
+
+/**
+ * Records that a member connected to a channel. Publishes a 'presence'
+ * event with everyone online whenever a member comes or goes.
+ * @returns A function to call when the connection closes
+ */
+export function trackPresence(channel: string, memberId: string): () => void {
+  const presence = getPresence();
+  const members = presence.get(channel) ?? new Map<string, number>();
+  const connections = members.get(memberId) ?? 0;
+  members.set(memberId, connections + 1);
+  presence.set(channel, members);
+  if (connections === 0) {
+    publish(channel, 'presence', { online: getPresentMembers(channel) });
+  }
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+
+    const remaining = (members.get(memberId) ?? 1) - 1;
+    if (remaining > 0) {
+      members.set(memberId, remaining);
+      return;
+    }
+    members.delete(memberId);
+    if (members.size === 0) presence.delete(channel);
+    publish(channel, 'presence', { online: getPresentMembers(channel) });
+  };
+}
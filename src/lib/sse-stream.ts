@@ -0,0 +1,64 @@
+/**
+ * Builds Server-Sent Events responses for the self-hosted transport.
+ *
+ * Shared by the /events and /presence routes so both handle keepalives and
+ * browser disconnects the same way.
+ */
+
+// Comment line sent periodically so proxies don't close an idle stream
+const KEEPALIVE_INTERVAL = 25000;
+
+/**
+ * Sends one named event down the stream.
+ */
+export type SendEvent = (event: string, data: unknown) => void;
+
+/**
+ * Opens an SSE stream.
+ *
+ * @param signal - The request's abort signal (fires when the browser disconnects)
+ * @param start - Sets up the stream's subscriptions; returns a cleanup function
+ */
+export function createEventStream(
+  signal: AbortSignal,
+  start: (send: SendEvent) => () => void
+): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const write = (text: string) => {
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch {
+          // Stream already closed - cleanup below will unsubscribe
+        }
+      };
+
+      write(': connected\n\n');
+      const cleanup = start((event, data) => {
+        write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      });
+      const keepalive = setInterval(() => write(': keepalive\n\n'), KEEPALIVE_INTERVAL);
+
+      // Stop sending when the browser disconnects
+      signal.addEventListener('abort', () => {
+        clearInterval(keepalive);
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
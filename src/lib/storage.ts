@@ -46,6 +46,7 @@ export function getStoredParticipant(sessionId: string): StoredParticipant | nul
 /**
  * Saves participant info to localStorage for automatic rejoin.
  * Called when a user successfully joins a session.
+ * Includes the participant token, which is needed to rejoin as the same person.
  */
 export function storeParticipant(sessionId: string, participant: StoredParticipant): void {
   localStorage.setItem(getStorageKey(sessionId), JSON.stringify(participant));
@@ -58,3 +59,29 @@ export function storeParticipant(sessionId: string, participant: StoredParticipa
 export function removeStoredParticipant(sessionId: string): void {
   localStorage.removeItem(getStorageKey(sessionId));
 }
+
+/**
+ * localStorage key for the facilitator's owner token.
+ * Kept apart from the participant data so leaving the session
+ * doesn't throw away ownership.
+ */
+function getOwnerTokenKey(sessionId: string): string {
+  return `poker-owner-${sessionId}`;
+}
+
+/**
+ * Retrieves the owner token for a session this browser created.
+ *
+ * @returns The token, or null if this browser didn't create the session
+ */
+export function getOwnerToken(sessionId: string): string | null {
+  if (typeof window === 'undefined') return null;
+  return localStorage.getItem(getOwnerTokenKey(sessionId));
+}
+
+/**
+ * Saves the owner token returned when creating a session.
+ */
+export function storeOwnerToken(sessionId: string, token: string): void {
+  localStorage.setItem(getOwnerTokenKey(sessionId), token);
+}
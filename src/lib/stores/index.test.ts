@@ -0,0 +1,58 @@
+/**
+ * Tests for picking a session store from configuration.
+ * Each test loads a fresh copy of the module, since the store is cached.
+ */
+
+jest.mock('redis', () => ({ createClient: jest.fn() }));
+jest.mock('@vercel/kv', () => ({ kv: {} }));
+
+describe('getSessionStore', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    jest.resetModules();
+    process.env = { ...originalEnv };
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  function loadStores() {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    return require('./index') as typeof import('./index');
+  }
+
+  it('uses the in-memory store when SESSION_STORE=memory', async () => {
+    process.env.SESSION_STORE = 'memory';
+    const { getSessionStore } = loadStores();
+
+    const store = getSessionStore();
+    await store.set({
+      id: 'test-123',
+      name: 'Test',
+      participants: [],
+      revealed: false,
+      story: '',
+      storyLocked: false,
+      createdAt: '2024-01-01T00:00:00Z',
+      lastActivity: '2024-01-01T00:00:00Z',
+    });
+
+    expect((await store.get('test-123'))?.name).toBe('Test');
+  });
+
+  it('returns the same store on every call', () => {
+    process.env.SESSION_STORE = 'memory';
+    const { getSessionStore } = loadStores();
+
+    expect(getSessionStore()).toBe(getSessionStore());
+  });
+
+  it('throws for an unknown store type', () => {
+    process.env.SESSION_STORE = 'postgres';
+    const { getSessionStore } = loadStores();
+
+    expect(() => getSessionStore()).toThrow('Unknown SESSION_STORE "postgres"');
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Session storage backends.
+ *
+ * sessionManager talks to storage only through the SessionStore interface,
+ * so the backend can be picked by configuration:
+ *
+ *   SESSION_STORE=redis      Local/self-hosted Redis (REDIS_URL), default in development
+ *   SESSION_STORE=vercel-kv  Vercel KV, default in production
+ *   SESSION_STORE=memory     In-process memory, no external services (dev and e2e tests only:
+ *                            data is lost on restart and isn't shared between server instances)
+ *
+ * ADDING A BACKEND (e.g. Postgres or SQLite):
+ * Implement SessionStore in a new file and register it in STORE_FACTORIES.
+ * The one hard requirement is that compareAndSet() is atomic - that's what
+ * keeps concurrent votes from overwriting each other.
+ */
+
+import type { SessionStore } from './sessionStore';
+import { createRedisStore } from './redis';
+import { createVercelKvStore } from './vercelKv';
+import { createMemoryStore } from './memory';
+
+export type { SessionStore } from './sessionStore';
+
+export type SessionStoreType = 'redis' | 'vercel-kv' | 'memory';
+
+const STORE_FACTORIES: Record<SessionStoreType, () => SessionStore> = {
+  redis: createRedisStore,
+  'vercel-kv': createVercelKvStore,
+  memory: createMemoryStore,
+};
+
+let store: SessionStore | null = null;
+
+/**
+ * Returns the configured store (created on first use).
+ * Without SESSION_STORE, keeps the original behavior: Vercel KV in production,
+ * local Redis everywhere else.
+ */
+export function getSessionStore(): SessionStore {
+  if (!store) {
+    const type = process.env.SESSION_STORE
+      || (process.env.NODE_ENV === 'production' ? 'vercel-kv' : 'redis');
+    if (!Object.prototype.hasOwnProperty.call(STORE_FACTORIES, type)) {
+      throw new Error(`Unknown SESSION_STORE "${type}" (expected one of: ${Object.keys(STORE_FACTORIES).join(', ')})`);
+    }
+    store = STORE_FACTORIES[type as SessionStoreType]();
+  }
+  return store;
+}
@@ -0,0 +1,77 @@
+import { createMemoryStore } from './memory';
+import type { Session } from '@/lib/sessionManager';
+
+function makeSession(overrides: Partial<Session> = {}): Session {
+  return {
+    id: 'test-123',
+    name: 'Test',
+    participants: [],
+    revealed: false,
+    story: '',
+    storyLocked: false,
+    version: 0,
+    createdAt: '2024-01-01T00:00:00Z',
+    lastActivity: '2024-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('memory session store', () => {
+  const store = createMemoryStore();
+
+  beforeEach(async () => {
+    await store.delete('test-123');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('returns null for unknown sessions', async () => {
+    expect(await store.get('test-123')).toBeNull();
+  });
+
+  it('stores and returns a copy of the session', async () => {
+    const session = makeSession();
+    await store.set(session);
+
+    const loaded = await store.get('test-123');
+    expect(loaded).toEqual(session);
+
+    // Mutating what we got back must not change what's stored
+    loaded!.name = 'Changed';
+    expect((await store.get('test-123'))!.name).toBe('Test');
+  });
+
+  it('shares sessions between store instances', async () => {
+    await store.set(makeSession());
+
+    expect(await createMemoryStore().get('test-123')).not.toBeNull();
+  });
+
+  it('setIfMissing only writes new sessions', async () => {
+    expect(await store.setIfMissing(makeSession())).toBe(true);
+    expect(await store.setIfMissing(makeSession({ name: 'Other' }))).toBe(false);
+    expect((await store.get('test-123'))!.name).toBe('Test');
+  });
+
+  it('compareAndSet writes only when the version matches', async () => {
+    await store.set(makeSession({ version: 3 }));
+
+    expect(await store.compareAndSet(makeSession({ name: 'Stale', version: 3 }), 2)).toBe(false);
+    expect(await store.compareAndSet(makeSession({ name: 'Fresh', version: 4 }), 3)).toBe(true);
+    expect(await store.get('test-123')).toMatchObject({ name: 'Fresh', version: 4 });
+  });
+
+  it('compareAndSet fails when the session is gone', async () => {
+    expect(await store.compareAndSet(makeSession(), 0)).toBe(false);
+  });
+
+  it('expires sessions after 7 days', async () => {
+    await store.set(makeSession());
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 7 * 24 * 60 * 60 * 1000 + 1);
+
+    expect(await store.get('test-123')).toBeNull();
+  });
+});
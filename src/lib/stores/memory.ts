@@ -0,0 +1,69 @@
+import type { Session } from '@/lib/sessionManager';
+import { SESSION_EXPIRY_SECONDS, type SessionStore } from './sessionStore';
+
+interface StoredSession {
+  json: string;       // Serialized, so callers can't mutate stored data in place
+  expiresAt: number;  // Unix ms
+}
+
+// Kept on globalThis so sessions survive Next.js dev-server module reloads
+const globalForStore = globalThis as typeof globalThis & {
+  __memorySessionStore?: Map<string, StoredSession>;
+};
+
+/**
+ * Session store that keeps everything in server memory.
+ *
+ * Useful for running the app (and the Playwright suite) without Redis.
+ * Not for production: data is lost on restart and each server instance
+ * has its own copy.
+ */
+export function createMemoryStore(): SessionStore {
+  const sessions = globalForStore.__memorySessionStore ??= new Map();
+
+  function read(id: string): Session | null {
+    const stored = sessions.get(id);
+    if (!stored) return null;
+    if (stored.expiresAt <= Date.now()) {
+      sessions.delete(id);
+      return null;
+    }
+    return JSON.parse(stored.json);
+  }
+
+  function write(session: Session): void {
+    sessions.set(session.id, {
+      json: JSON.stringify(session),
+      expiresAt: Date.now() + SESSION_EXPIRY_SECONDS * 1000,
+    });
+  }
+
+  // Every method completes synchronously, so compare-and-set is atomic
+  // (nothing else can run between the version check and the write).
+  return {
+    async get(id) {
+      return read(id);
+    },
+
+    async set(session) {
+      write(session);
+    },
+
+    async setIfMissing(session) {
+      if (read(session.id)) return false;
+      write(session);
+      return true;
+    },
+
+    async compareAndSet(session, expectedVersion) {
+      const current = read(session.id);
+      if (!current || (current.version ?? 0) !== expectedVersion) return false;
+      write(session);
+      return true;
+    },
+
+    async delete(id) {
+      sessions.delete(id);
+    },
+  };
+}
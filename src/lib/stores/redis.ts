@@ -0,0 +1,52 @@
+import { createClient, RedisClientType } from 'redis';
+import { COMPARE_AND_SET_SCRIPT, SESSION_EXPIRY_SECONDS, sessionKey, type SessionStore } from './sessionStore';
+
+/**
+ * Session store backed by a Redis server (REDIS_URL, default localhost).
+ * Sessions are stored as JSON strings that expire after 7 days.
+ */
+export function createRedisStore(): SessionStore {
+  let client: RedisClientType | null = null;
+
+  async function getClient(): Promise<RedisClientType> {
+    if (!client) {
+      const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
+      client = createClient({ url: redisUrl });
+      client.on('error', (err) => console.error('Redis Client Error', err));
+      await client.connect();
+    }
+    return client;
+  }
+
+  return {
+    async get(id) {
+      const data = await (await getClient()).get(sessionKey(id));
+      return data ? JSON.parse(data) : null;
+    },
+
+    async set(session) {
+      await (await getClient()).set(sessionKey(session.id), JSON.stringify(session), { EX: SESSION_EXPIRY_SECONDS });
+    },
+
+    async setIfMissing(session) {
+      const result = await (await getClient()).set(
+        sessionKey(session.id),
+        JSON.stringify(session),
+        { EX: SESSION_EXPIRY_SECONDS, NX: true }
+      );
+      return result === 'OK';
+    },
+
+    async compareAndSet(session, expectedVersion) {
+      const result = await (await getClient()).eval(COMPARE_AND_SET_SCRIPT, {
+        keys: [sessionKey(session.id)],
+        arguments: [String(expectedVersion), JSON.stringify(session), String(SESSION_EXPIRY_SECONDS)],
+      });
+      return Number(result) === 1;
+    },
+
+    async delete(id) {
+      await (await getClient()).del(sessionKey(id));
+    },
+  };
+}
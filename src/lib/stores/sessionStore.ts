@@ -0,0 +1,54 @@
+/**
+ * The SessionStore interface and the pieces shared by its implementations.
+ * See ./index.ts for how a store is selected.
+ */
+
+import type { Session } from '@/lib/sessionManager';
+
+// Session expiry in seconds (7 days)
+export const SESSION_EXPIRY_SECONDS = 7 * 24 * 60 * 60;
+
+export interface SessionStore {
+  /** Returns the session, or null if it doesn't exist (or has expired). */
+  get(id: string): Promise<Session | null>;
+
+  /** Writes the session unconditionally, replacing any existing one. */
+  set(session: Session): Promise<void>;
+
+  /** Writes the session only if none with the same ID exists. Returns whether it was written. */
+  setIfMissing(session: Session): Promise<boolean>;
+
+  /**
+   * Writes the session only if the stored one still has expectedVersion
+   * (a missing version counts as 0). Must be atomic.
+   * Returns false if the session changed or disappeared in the meantime.
+   */
+  compareAndSet(session: Session, expectedVersion: number): Promise<boolean>;
+
+  /** Removes the session. */
+  delete(id: string): Promise<void>;
+}
+
+export function sessionKey(id: string): string {
+  return `session:${id}`;
+}
+
+/**
+ * Writes the session only if the stored version still matches the one we read.
+ * Shared by the Redis and Vercel KV stores.
+ *
+ * WHY A LUA SCRIPT?
+ * The script runs atomically on the Redis server. Unlike WATCH/MULTI it doesn't
+ * need a dedicated connection per transaction, so it works the same for the
+ * shared node-redis client and for Vercel KV (stateless HTTP requests).
+ *
+ * Returns 1 if written, 0 if the session changed (or disappeared) in the meantime.
+ */
+export const COMPARE_AND_SET_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if not current then return 0 end
+local version = cjson.decode(current).version or 0
+if version ~= tonumber(ARGV[1]) then return 0 end
+redis.call('SET', KEYS[1], ARGV[2], 'EX', tonumber(ARGV[3]))
+return 1
+`;
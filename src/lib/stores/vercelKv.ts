@@ -0,0 +1,37 @@
+import { kv } from '@vercel/kv';
+import type { Session } from '@/lib/sessionManager';
+import { COMPARE_AND_SET_SCRIPT, SESSION_EXPIRY_SECONDS, sessionKey, type SessionStore } from './sessionStore';
+
+/**
+ * Session store backed by Vercel KV (configured through the KV_* env vars).
+ * The KV client serializes sessions to JSON itself.
+ */
+export function createVercelKvStore(): SessionStore {
+  return {
+    async get(id) {
+      return await kv.get<Session>(sessionKey(id));
+    },
+
+    async set(session) {
+      await kv.set(sessionKey(session.id), session, { ex: SESSION_EXPIRY_SECONDS });
+    },
+
+    async setIfMissing(session) {
+      const result = await kv.set(sessionKey(session.id), session, { ex: SESSION_EXPIRY_SECONDS, nx: true });
+      return result === 'OK';
+    },
+
+    async compareAndSet(session, expectedVersion) {
+      const result = await kv.eval(
+        COMPARE_AND_SET_SCRIPT,
+        [sessionKey(session.id)],
+        [String(expectedVersion), JSON.stringify(session), String(SESSION_EXPIRY_SECONDS)]
+      );
+      return Number(result) === 1;
+    },
+
+    async delete(id) {
+      await kv.del(sessionKey(id));
+    },
+  };
+}
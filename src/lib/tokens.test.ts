@@ -0,0 +1,37 @@
+import { generateToken, hashToken, verifyToken } from './tokens';
+
+describe('tokens', () => {
+  it('generates a different token every time', () => {
+    expect(generateToken()).not.toBe(generateToken());
+  });
+
+  it('hashes tokens deterministically without exposing them', () => {
+    const token = generateToken();
+
+    expect(hashToken(token)).toBe(hashToken(token));
+    expect(hashToken(token)).not.toContain(token);
+  });
+
+  describe('verifyToken', () => {
+    const token = generateToken();
+    const hash = hashToken(token);
+
+    it('accepts the matching token', () => {
+      expect(verifyToken(token, hash)).toBe(true);
+    });
+
+    it('rejects a different token', () => {
+      expect(verifyToken(generateToken(), hash)).toBe(false);
+    });
+
+    it('rejects missing or non-string tokens', () => {
+      expect(verifyToken(undefined, hash)).toBe(false);
+      expect(verifyToken('', hash)).toBe(false);
+      expect(verifyToken(42, hash)).toBe(false);
+    });
+
+    it('rejects everything when there is no stored hash', () => {
+      expect(verifyToken(token, undefined)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Secret tokens for proving who you are to the API.
+ *
+ * HOW IT WORKS:
+ * - The server generates a random token and gives it to the browser once
+ * - Only a SHA-256 hash of the token is stored on the session
+ * - Later requests send the token back, and we compare hashes
+ *
+ * Storing just the hash means a leaked session (e.g. a broadcast or a
+ * database dump) can't be used to act as someone else.
+ *
+ * Server-only: uses Node's crypto module.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * Creates a new random token (256 bits, URL-safe).
+ */
+export function generateToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * Hashes a token for storage.
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Checks a token from a request against a stored hash.
+ * Accepts unknown input so request bodies can be passed straight in.
+ *
+ * @returns false if either is missing or they don't match
+ */
+export function verifyToken(token: unknown, hash: string | undefined): boolean {
+  if (typeof token !== 'string' || !token || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = Buffer.from(hashToken(token), 'hex');
+  // Constant-time comparison so response timing doesn't leak the hash
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -1,10 +1,27 @@
 import {
+  hasVoted,
   getResultType,
   getConsensusVote,
   isParticipantOnline,
   getLastOccurrenceIds,
+  getNumericVotes,
+  getVoteStatistics,
+  getMedian,
+  getStandardDeviation,
+  getScaleStepSpread,
+  getAgreement,
+  isNearConsensus,
+  getConsensusMetrics,
+  getOrdinalStatistics,
+  suggestEstimate,
+  getOutliers,
+  formatRecordedVote,
+  getVoteHistogram,
+  getPreviousRounds,
+  haveAllOnlineVotersVoted,
   OFFLINE_THRESHOLD,
 } from './votingUtils';
+import { VOTING_SCALES } from '@/types/poker';
 
 describe('getResultType', () => {
   it('returns "none" when no participants', () => {
@@ -166,6 +183,344 @@ describe('isParticipantOnline', () => {
     const boundaryHeartbeat = new Date(now - OFFLINE_THRESHOLD).toISOString();
     expect(isParticipantOnline({ lastHeartbeat: boundaryHeartbeat }, now)).toBe(false);
   });
+
+  it('returns true for a participant connected via presence, even without a heartbeat', () => {
+    const onlineIds = new Set(['1']);
+    expect(isParticipantOnline({ id: '1' }, Date.now(), onlineIds)).toBe(true);
+  });
+
+  it('returns false for a participant not connected via presence with an old heartbeat', () => {
+    const now = Date.now();
+    const oldHeartbeat = new Date(now - OFFLINE_THRESHOLD - 1000).toISOString();
+    expect(isParticipantOnline({ id: '1', lastHeartbeat: oldHeartbeat }, now, new Set(['2']))).toBe(false);
+  });
+
+  it('falls back to a recent heartbeat when not connected via presence', () => {
+    const now = Date.now();
+    const recentHeartbeat = new Date(now - 1000).toISOString();
+    expect(isParticipantOnline({ id: '1', lastHeartbeat: recentHeartbeat }, now, new Set())).toBe(true);
+  });
+});
+
+describe('getNumericVotes', () => {
+  it('keeps numeric cards without a scale', () => {
+    expect(getNumericVotes(['3', '5', '?', '☕'])).toEqual([3, 5]);
+  });
+
+  it('drops non-numeric cards on the fibonacci scale', () => {
+    expect(getNumericVotes(['0', '8', '☕'], VOTING_SCALES.fibonacci)).toEqual([0, 8]);
+  });
+
+  it('uses the scale weights and drops abstain cards', () => {
+    const scale = { name: 'Sizes', values: ['S', 'L', '?'], abstain: ['?'], weights: { S: 1, L: 5 } };
+    expect(getNumericVotes(['S', 'L', '?'], scale)).toEqual([1, 5]);
+  });
+});
+
+describe('getVoteStatistics', () => {
+  it('calculates average, min and max', () => {
+    expect(getVoteStatistics(['3', '5', '13', '?'])).toEqual({ average: 7, min: 3, max: 13 });
+  });
+
+  it('returns null when no card is numeric', () => {
+    expect(getVoteStatistics(['?', '☕'])).toBeNull();
+    expect(getVoteStatistics([])).toBeNull();
+  });
+});
+
+describe('hasVoted', () => {
+  it('uses the flag sent while votes are hidden', () => {
+    expect(hasVoted({ vote: null, hasVoted: true })).toBe(true);
+    expect(hasVoted({ vote: null, hasVoted: false })).toBe(false);
+  });
+
+  it('falls back to the vote', () => {
+    expect(hasVoted({ vote: '5' })).toBe(true);
+    expect(hasVoted({ vote: null })).toBe(false);
+  });
+});
+
+describe('getMedian', () => {
+  it('returns the middle value, or the mean of the two middle values', () => {
+    expect(getMedian([8, 1, 3])).toBe(3);
+    expect(getMedian([8, 1, 3, 5])).toBe(4);
+  });
+
+  it('returns null for no values', () => {
+    expect(getMedian([])).toBeNull();
+  });
+});
+
+describe('getStandardDeviation', () => {
+  it('calculates the population standard deviation', () => {
+    expect(getStandardDeviation([2, 4, 4, 4, 5, 5, 7, 9])).toBe(2);
+    expect(getStandardDeviation([5, 5])).toBe(0);
+  });
+
+  it('returns null for no values', () => {
+    expect(getStandardDeviation([])).toBeNull();
+  });
+});
+
+describe('getScaleStepSpread', () => {
+  const fibonacci = VOTING_SCALES.fibonacci;
+
+  it('counts cards between the lowest and highest vote', () => {
+    expect(getScaleStepSpread(['3', '8'], fibonacci)).toBe(2);
+    expect(getScaleStepSpread(['5', '5'], fibonacci)).toBe(0);
+  });
+
+  it('works for cards that are not numbers', () => {
+    expect(getScaleStepSpread(['S', 'XL'], VOTING_SCALES.tshirt)).toBe(3);
+  });
+
+  it('leaves out abstain cards', () => {
+    expect(getScaleStepSpread(['3', '?', '☕'], fibonacci)).toBe(0);
+    expect(getScaleStepSpread(['?'], fibonacci)).toBeNull();
+  });
+});
+
+describe('getAgreement', () => {
+  it('is the share of estimates on the most common card', () => {
+    expect(getAgreement(['5', '5', '8', '13'])).toBe(50);
+    expect(getAgreement(['5', '5'])).toBe(100);
+  });
+
+  it('leaves out abstain cards', () => {
+    expect(getAgreement(['5', '5', '8', '?', '?', '?'], VOTING_SCALES.fibonacci)).toBeCloseTo(66.67, 2);
+    expect(getAgreement(['?'], VOTING_SCALES.fibonacci)).toBeNull();
+  });
+});
+
+describe('isNearConsensus', () => {
+  const fibonacci = VOTING_SCALES.fibonacci;
+
+  it('is true when every estimate is on one of two adjacent cards', () => {
+    expect(isNearConsensus(['5', '8', '8', '?'], fibonacci)).toBe(true);
+  });
+
+  it('is false for consensus, wider spreads and single votes', () => {
+    expect(isNearConsensus(['5', '5'], fibonacci)).toBe(false);
+    expect(isNearConsensus(['3', '8'], fibonacci)).toBe(false);
+    expect(isNearConsensus(['5'], fibonacci)).toBe(false);
+  });
+});
+
+describe('getOrdinalStatistics', () => {
+  const tshirt = VOTING_SCALES.tshirt;
+
+  it('gives min, max, median and spread as cards', () => {
+    expect(getOrdinalStatistics(['XL', 'S', 'M', '?'], tshirt)).toEqual({
+      min: 'S',
+      max: 'XL',
+      median: 'M',
+      stepSpread: 3,
+    });
+  });
+
+  it('rounds up between the two middle cards', () => {
+    expect(getOrdinalStatistics(['S', 'M', 'L', 'XXL'], tshirt)?.median).toBe('L');
+  });
+
+  it('works for numeric scales too, on the card between', () => {
+    expect(getOrdinalStatistics(['3', '13'], VOTING_SCALES.fibonacci)).toEqual({
+      min: '3',
+      max: '13',
+      median: '8',
+      stepSpread: 3,
+    });
+  });
+
+  it('returns null without estimates on the scale', () => {
+    expect(getOrdinalStatistics(['?', '☕', 'XXXL'], tshirt)).toBeNull();
+  });
+});
+
+describe('getConsensusMetrics', () => {
+  it('combines the metrics', () => {
+    expect(getConsensusMetrics(['5', '8', '8', '?'], VOTING_SCALES.fibonacci)).toEqual({
+      median: 8,
+      standardDeviation: Math.sqrt(2),
+      stepSpread: 1,
+      agreement: expect.closeTo(66.67, 2),
+      nearConsensus: true,
+    });
+  });
+
+  it('leaves out the scale-based metrics without a scale', () => {
+    expect(getConsensusMetrics(['5', '8'])).toMatchObject({ stepSpread: null, nearConsensus: false });
+  });
+});
+
+describe('suggestEstimate', () => {
+  const fibonacci = VOTING_SCALES.fibonacci;
+
+  it('snaps the median to the nearest card, ties going up', () => {
+    expect(suggestEstimate(['3', '5', '8', '?'], fibonacci)).toBe('5');
+    expect(suggestEstimate(['3', '5', '8', '13'], fibonacci)).toBe('8');
+  });
+
+  it('can use the mean instead', () => {
+    expect(suggestEstimate(['2', '3', '13'], fibonacci, 'median')).toBe('3');
+    expect(suggestEstimate(['2', '3', '13'], fibonacci, 'mean')).toBe('5');
+  });
+
+  it('can round up to the next card', () => {
+    expect(suggestEstimate(['3', '5', '8'], fibonacci, 'mean', 'nearest')).toBe('5');
+    expect(suggestEstimate(['3', '5', '8'], fibonacci, 'mean', 'up')).toBe('8');
+    expect(suggestEstimate(['5', '8'], fibonacci, 'median', 'up')).toBe('8');
+  });
+
+  it('gives the highest card for values above the scale', () => {
+    const hours = { name: 'Hours', values: ['1', '2', '4'] };
+
+    expect(suggestEstimate(['4', '40'], hours, 'mean', 'up')).toBe('4');
+  });
+
+  it('uses weights for non-numeric cards', () => {
+    const sizes = { name: 'Sizes', values: ['S', 'M', 'L'], weights: { S: 1, M: 3, L: 5 } };
+
+    expect(suggestEstimate(['M', 'L', 'L'], sizes, 'mean')).toBe('L');
+  });
+
+  it('returns null without numeric votes or cards', () => {
+    expect(suggestEstimate(['?', '☕'], fibonacci)).toBeNull();
+    expect(suggestEstimate(['M', 'L'], VOTING_SCALES.tshirt)).toBeNull();
+  });
+});
+
+describe('getOutliers', () => {
+  const votes = (...cards: (string | null)[]) => cards.map((vote, i) => ({ participantId: `p${i}`, vote }));
+
+  it('marks the lowest and highest voters, ties included', () => {
+    expect(getOutliers(votes('3', '13', '5', '3', '?', null))).toEqual(new Map([
+      ['p0', 'low'],
+      ['p1', 'high'],
+      ['p3', 'low'],
+    ]));
+  });
+
+  it('marks nobody when the numeric cards agree', () => {
+    expect(getOutliers(votes('5', '5', '?')).size).toBe(0);
+    expect(getOutliers(votes('?', null)).size).toBe(0);
+  });
+
+  it('leaves out cards recorded anonymously', () => {
+    expect(getOutliers([{ vote: '1' }, { vote: '13' }]).size).toBe(0);
+  });
+
+  it('uses the scale\'s weights', () => {
+    const sizes = { name: 'Sizes', values: ['S', 'M', 'L'], weights: { S: 1, M: 2, L: 3 } };
+
+    expect(getOutliers(votes('L', 'M', 'S'), sizes)).toEqual(new Map([['p0', 'high'], ['p2', 'low']]));
+  });
+});
+
+describe('formatRecordedVote', () => {
+  it('names the voter unless the card was recorded anonymously', () => {
+    expect(formatRecordedVote({ participantId: 'p1', name: 'Alice', vote: '5' })).toBe('Alice: 5');
+    expect(formatRecordedVote({ vote: '5' })).toBe('5');
+  });
+});
+
+describe('getVoteHistogram', () => {
+  it('has a bar for every estimate card on the scale, in order', () => {
+    const { estimates } = getVoteHistogram(['8', '5', '8'], VOTING_SCALES.fibonacci);
+
+    expect(estimates.map(b => b.vote)).toEqual(['0', '1', '2', '3', '5', '8', '13', '21']);
+    expect(estimates.find(b => b.vote === '8')?.count).toBe(2);
+    expect(estimates.find(b => b.vote === '13')?.count).toBe(0);
+  });
+
+  it('keeps the abstain cards that were picked apart', () => {
+    const { estimates, other } = getVoteHistogram(['☕', '5', '?', '?'], VOTING_SCALES.fibonacci);
+
+    expect(estimates.map(b => b.vote)).not.toContain('?');
+    expect(other).toEqual([{ vote: '?', count: 2 }, { vote: '☕', count: 1 }]);
+  });
+
+  it('puts cards that are not on the scale after it', () => {
+    expect(getVoteHistogram(['XL', '5'], VOTING_SCALES.fibonacci).estimates.map(b => b.vote).slice(-2)).toEqual(['21', 'XL']);
+  });
+
+  it('orders numbers without a scale', () => {
+    expect(getVoteHistogram(['8', '?', '3'])).toEqual({
+      estimates: [{ vote: '3', count: 1 }, { vote: '8', count: 1 }],
+      other: [{ vote: '?', count: 1 }],
+    });
+  });
+});
+
+describe('getPreviousRounds', () => {
+  const record = (id: string, story: string, round: number, historyEntryId?: string) => ({
+    id, story, round, votes: [], resultType: 'joint' as const, revealedAt: 0, historyEntryId,
+  });
+
+  it('returns the earlier rounds of the story, oldest first', () => {
+    const rounds = [record('a', 'Login', 1), record('b', 'Login', 2), record('c', 'Login', 3)];
+
+    expect(getPreviousRounds(rounds, 'Login', 3).map(r => r.id)).toEqual(['a', 'b']);
+  });
+
+  it('leaves out other stories and saved attempts', () => {
+    const rounds = [
+      record('a', 'Login', 1, 'entry-1'),
+      record('b', 'Signup', 1),
+      record('c', 'Login', 1),
+    ];
+
+    expect(getPreviousRounds(rounds, 'Login', 2).map(r => r.id)).toEqual(['c']);
+  });
+
+  it('returns nothing in the first round', () => {
+    expect(getPreviousRounds([record('a', 'Login', 1)], 'Login', 1)).toEqual([]);
+  });
+});
+
+describe('haveAllOnlineVotersVoted', () => {
+  const now = Date.now();
+  const online = new Date(now - 1000).toISOString();
+  const offline = new Date(now - OFFLINE_THRESHOLD - 1000).toISOString();
+
+  it('is true when every online voter has voted', () => {
+    const participants = [
+      { id: '1', name: 'Alice', role: 'voter' as const, vote: '5', avatar: 'dog', lastHeartbeat: online },
+      { id: '2', name: 'Bob', role: 'voter' as const, vote: '8', avatar: 'cat', lastHeartbeat: online },
+      { id: '3', name: 'Carol', role: 'observer' as const, vote: null, avatar: 'fox', lastHeartbeat: online },
+    ];
+    expect(haveAllOnlineVotersVoted(participants, now)).toBe(true);
+  });
+
+  it('waits for online voters without a vote', () => {
+    const participants = [
+      { id: '1', name: 'Alice', role: 'voter' as const, vote: '5', avatar: 'dog', lastHeartbeat: online },
+      { id: '2', name: 'Bob', role: 'voter' as const, vote: null, avatar: 'cat', lastHeartbeat: online },
+    ];
+    expect(haveAllOnlineVotersVoted(participants, now)).toBe(false);
+  });
+
+  it('does not wait for offline voters', () => {
+    const participants = [
+      { id: '1', name: 'Alice', role: 'voter' as const, vote: '5', avatar: 'dog', lastHeartbeat: online },
+      { id: '2', name: 'Bob', role: 'voter' as const, vote: null, avatar: 'cat', lastHeartbeat: offline },
+    ];
+    expect(haveAllOnlineVotersVoted(participants, now)).toBe(true);
+  });
+
+  it('counts voters connected via presence as online', () => {
+    const participants = [
+      { id: '1', name: 'Alice', role: 'voter' as const, vote: '5', avatar: 'dog' },
+      { id: '2', name: 'Bob', role: 'voter' as const, vote: null, avatar: 'cat' },
+    ];
+    expect(haveAllOnlineVotersVoted(participants, now, new Set(['1', '2']))).toBe(false);
+  });
+
+  it('is false when nobody has voted', () => {
+    const participants = [
+      { id: '1', name: 'Alice', role: 'voter' as const, vote: null, avatar: 'dog', lastHeartbeat: offline },
+    ];
+    expect(haveAllOnlineVotersVoted(participants, now)).toBe(false);
+  });
 });
 
 describe('getLastOccurrenceIds', () => {
@@ -10,7 +10,17 @@
  * 3. Keeps the main page component focused on UI logic
  */
 
-import type { Participant, HistoryEntry } from '@/types/poker';
+import type {
+  Participant,
+  HistoryEntry,
+  RecordedVote,
+  ResultType,
+  RoundRecord,
+  ScaleDefinition,
+  SuggestionBasis,
+  SuggestionRounding,
+} from '@/types/poker';
+import { getNumericValue, isAbstainVote } from '@/lib/scales';
 
 /**
  * How long (in ms) before we consider a participant offline.
@@ -19,14 +29,18 @@ import type { Participant, HistoryEntry } from '@/types/poker';
  */
 export const OFFLINE_THRESHOLD = 30000;
 
+// Defined with the other shared types (history entries store it too)
+export type { ResultType } from '@/types/poker';
+
 /**
- * The possible outcomes when votes are revealed:
- * - 'none': Nobody voted yet
- * - 'consensus': Everyone agreed on the same value (the ideal outcome!)
- * - 'majority': One value got the most votes
- * - 'joint': Multiple values tied for most votes (need discussion)
+ * Whether a participant has voted.
+ *
+ * Until the votes are revealed, clients get a hasVoted flag instead of the
+ * card (see toPublicSession), so that's checked first.
  */
-export type ResultType = 'consensus' | 'majority' | 'joint' | 'none';
+export function hasVoted(participant: Pick<Participant, 'vote' | 'hasVoted'>): boolean {
+  return participant.hasVoted ?? participant.vote !== null;
+}
 
 /**
  * Analyzes votes to determine the result type.
@@ -108,12 +122,372 @@ export function getConsensusVote(participants: Participant[]): string | null {
   return null;
 }
 
+/**
+ * Average, min and max of the numeric cards in a round.
+ */
+export interface VoteStatistics {
+  average: number;
+  min: number;
+  max: number;
+}
+
+/**
+ * Turns cards into numbers for statistics, dropping the ones that aren't.
+ *
+ * With a scale, weighted cards (e.g. 'XS' on t-shirt sizes) count and abstain
+ * cards don't. Without one, any card that parses as a number counts.
+ *
+ * @example
+ * getNumericVotes(['3', '5', '?', '☕']) // [3, 5]
+ */
+export function getNumericVotes(votes: string[], scale?: ScaleDefinition): number[] {
+  return scale
+    ? votes
+        .map((v) => getNumericValue(scale, v))
+        .filter((v): v is number => v !== null)
+    : votes
+        .filter((v) => v.trim() !== '' && !isNaN(Number(v)))
+        .map(Number);
+}
+
+/**
+ * Calculates the statistics shown after a reveal (and recorded with each round).
+ *
+ * @returns The statistics, or null if no card was numeric
+ */
+export function getVoteStatistics(votes: string[], scale?: ScaleDefinition): VoteStatistics | null {
+  const numericVotes = getNumericVotes(votes, scale);
+  if (numericVotes.length === 0) return null;
+
+  return {
+    average: numericVotes.reduce((a, b) => a + b, 0) / numericVotes.length,
+    min: Math.min(...numericVotes),
+    max: Math.max(...numericVotes),
+  };
+}
+
+/**
+ * How strongly the team agrees, beyond the result type.
+ * Each is null when it can't be worked out from the cards (see below).
+ */
+export interface ConsensusMetrics {
+  median: number | null;             // Of the numeric cards
+  standardDeviation: number | null;  // Of the numeric cards (population)
+  stepSpread: number | null;         // Cards between the lowest and highest vote on the scale
+  agreement: number | null;          // Percentage of estimates on the most common card
+  nearConsensus: boolean;            // Every estimate on one of two adjacent cards
+}
+
+/**
+ * The middle value (or the mean of the two middle values).
+ *
+ * @returns The median, or null for no values
+ */
+export function getMedian(values: number[]): number | null {
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Population standard deviation - how far the values are from their average.
+ *
+ * @returns The standard deviation, or null for no values
+ */
+export function getStandardDeviation(values: number[]): number | null {
+  if (values.length === 0) return null;
+
+  const average = values.reduce((a, b) => a + b, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - average) ** 2, 0) / values.length;
+  return Math.sqrt(variance);
+}
+
+/**
+ * Positions of the cards on the scale, counting only estimate cards
+ * (abstain cards and cards that aren't on the scale are left out).
+ */
+function getScaleSteps(votes: string[], scale: ScaleDefinition): number[] {
+  const cards = scale.values.filter(v => !isAbstainVote(scale, v));
+  return votes.map(v => cards.indexOf(v)).filter(step => step !== -1);
+}
+
+/**
+ * How many cards apart the lowest and highest votes are on the scale.
+ * Unlike max - min, this means the same on every scale, and works for
+ * cards that aren't numbers.
+ *
+ * @returns The spread, or null if no vote is an estimate card on the scale
+ *
+ * @example
+ * getScaleStepSpread(['3', '8'], VOTING_SCALES.fibonacci) // 2 (3, 5, 8)
+ */
+export function getScaleStepSpread(votes: string[], scale: ScaleDefinition): number | null {
+  const steps = getScaleSteps(votes, scale);
+  return steps.length > 0 ? Math.max(...steps) - Math.min(...steps) : null;
+}
+
+/**
+ * Percentage of the estimates that are on the most common card.
+ * Abstain cards aren't estimates, so they don't count either way.
+ *
+ * @returns 0-100, or null if there are no estimates
+ *
+ * @example
+ * getAgreement(['5', '5', '8', '?'], VOTING_SCALES.fibonacci) // 66.6... (2 of 3 estimates)
+ */
+export function getAgreement(votes: string[], scale?: ScaleDefinition): number | null {
+  const estimates = scale ? votes.filter(v => !isAbstainVote(scale, v)) : votes;
+  if (estimates.length === 0) return null;
+
+  const counts = new Map<string, number>();
+  estimates.forEach(v => counts.set(v, (counts.get(v) ?? 0) + 1));
+  return (Math.max(...counts.values()) / estimates.length) * 100;
+}
+
+/**
+ * Whether the estimates all fall on two adjacent cards of the scale
+ * (e.g. 5s and 8s on Fibonacci). Stricter than a majority, and only
+ * short of consensus, so a quick chat usually settles it.
+ * Needs 2+ estimates, all on the scale; exact consensus isn't "near".
+ */
+export function isNearConsensus(votes: string[], scale: ScaleDefinition): boolean {
+  const estimates = votes.filter(v => !isAbstainVote(scale, v));
+  const steps = getScaleSteps(estimates, scale);
+  if (estimates.length < 2 || steps.length !== estimates.length) return false;
+
+  return Math.max(...steps) - Math.min(...steps) === 1;
+}
+
+/**
+ * Statistics for scales whose cards are ordered but aren't numbers
+ * (e.g. t-shirt sizes), given as cards rather than numbers.
+ */
+export interface OrdinalStatistics {
+  min: string;         // Lowest card voted
+  max: string;         // Highest card voted
+  median: string;      // Card in the middle of the votes (rounded up when between two cards)
+  stepSpread: number;  // Cards between min and max on the scale
+}
+
+/**
+ * Works out min, max, median and spread from where the cards sit on the
+ * scale, so they make sense for any ordered scale, numeric or not.
+ * Abstain cards and cards that aren't on the scale are left out.
+ *
+ * @returns The statistics, or null if no vote is an estimate card on the scale
+ *
+ * @example
+ * getOrdinalStatistics(['S', 'M', 'XL', '?'], VOTING_SCALES.tshirt)
+ * // { min: 'S', max: 'XL', median: 'M', stepSpread: 3 }
+ */
+export function getOrdinalStatistics(votes: string[], scale: ScaleDefinition): OrdinalStatistics | null {
+  const steps = getScaleSteps(votes, scale);
+  const median = getMedian(steps);
+  if (median === null) return null;
+
+  const cards = scale.values.filter(v => !isAbstainVote(scale, v));
+  const min = Math.min(...steps);
+  const max = Math.max(...steps);
+  return {
+    min: cards[min],
+    max: cards[max],
+    median: cards[Math.ceil(median)],
+    stepSpread: max - min,
+  };
+}
+
+/**
+ * All the consensus strength metrics for a round, as shown after a reveal.
+ * Step spread and near consensus need the scale.
+ */
+export function getConsensusMetrics(votes: string[], scale?: ScaleDefinition): ConsensusMetrics {
+  const numericVotes = getNumericVotes(votes, scale);
+  return {
+    median: getMedian(numericVotes),
+    standardDeviation: getStandardDeviation(numericVotes),
+    stepSpread: scale ? getScaleStepSpread(votes, scale) : null,
+    agreement: getAgreement(votes, scale),
+    nearConsensus: scale ? isNearConsensus(votes, scale) : false,
+  };
+}
+
+/**
+ * Suggests an estimate that is a real card, unlike the average (6.3 isn't
+ * on any scale): the median or mean of the numeric votes, snapped to the
+ * nearest card on the scale, or the next card up.
+ *
+ * Only estimate cards with a numeric value can be suggested. A tie between
+ * two nearest cards goes to the higher one, and with 'up' a value above
+ * every card gets the highest card.
+ *
+ * @returns The suggested card, or null if no vote (or no card) is numeric
+ *
+ * @example
+ * suggestEstimate(['3', '5', '8', '13'], VOTING_SCALES.fibonacci, 'mean', 'nearest') // '8' (7.25)
+ * suggestEstimate(['3', '5', '8', '13'], VOTING_SCALES.fibonacci, 'median', 'up')    // '8' (6.5)
+ */
+export function suggestEstimate(
+  votes: string[],
+  scale: ScaleDefinition,
+  basis: SuggestionBasis = 'median',
+  rounding: SuggestionRounding = 'nearest'
+): string | null {
+  const numericVotes = getNumericVotes(votes, scale);
+  const target = basis === 'median'
+    ? getMedian(numericVotes)
+    : getVoteStatistics(votes, scale)?.average ?? null;
+  if (target === null) return null;
+
+  const cards = scale.values
+    .map(card => ({ card, value: getNumericValue(scale, card) }))
+    .filter((c): c is { card: string; value: number } => c.value !== null)
+    .sort((a, b) => a.value - b.value);
+  if (cards.length === 0) return null;
+
+  if (rounding === 'up') {
+    return (cards.find(c => c.value >= target) ?? cards[cards.length - 1]).card;
+  }
+  // Sorted ascending, so <= lets the higher card win a tie
+  return cards.reduce((best, c) =>
+    Math.abs(c.value - target) <= Math.abs(best.value - target) ? c : best
+  ).card;
+}
+
+/**
+ * Whether a voter holds the lowest or the highest card of a round.
+ */
+export type VoteOutlier = 'low' | 'high';
+
+/**
+ * Finds who voted the lowest and the highest numeric cards, so they can be
+ * highlighted and asked to explain their vote. Ties all count, and nobody
+ * is an outlier when every numeric card is the same. Cards recorded
+ * anonymously (without a participant) are nobody's.
+ *
+ * @returns Participant IDs mapped to 'low' or 'high'
+ *
+ * @example
+ * getOutliers([{ participantId: 'a', vote: '2' }, { participantId: 'b', vote: '13' }])
+ * // Map { 'a' => 'low', 'b' => 'high' }
+ */
+export function getOutliers(
+  votes: { participantId?: string; vote: string | null }[],
+  scale?: ScaleDefinition
+): Map<string, VoteOutlier> {
+  const numeric = votes
+    .map(({ participantId, vote }) => ({
+      participantId,
+      value: vote === null ? undefined : getNumericVotes([vote], scale)[0],
+    }))
+    .filter((v): v is { participantId: string; value: number } => v.participantId !== undefined && v.value !== undefined);
+
+  const outliers = new Map<string, VoteOutlier>();
+  if (numeric.length === 0) return outliers;
+
+  const min = Math.min(...numeric.map(v => v.value));
+  const max = Math.max(...numeric.map(v => v.value));
+  if (min === max) return outliers;
+
+  numeric.forEach(({ participantId, value }) => {
+    if (value === min) outliers.set(participantId, 'low');
+    else if (value === max) outliers.set(participantId, 'high');
+  });
+  return outliers;
+}
+
+/**
+ * A recorded card for display: "Alice: 5", or just "5" when recorded anonymously.
+ */
+export function formatRecordedVote(vote: RecordedVote): string {
+  return vote.name !== undefined ? `${vote.name}: ${vote.vote}` : vote.vote;
+}
+
+/**
+ * One bar of the results histogram: a card and how many voters picked it.
+ */
+export interface HistogramBar {
+  vote: string;
+  count: number;
+}
+
+/**
+ * The results histogram, split into estimates and cards that aren't.
+ */
+export interface VoteHistogram {
+  estimates: HistogramBar[];  // Every estimate card on the scale in order, picked or not
+  other: HistogramBar[];      // Abstain cards ('?', '☕'), only the ones picked
+}
+
+/**
+ * Counts the votes for the results histogram.
+ *
+ * Every estimate card on the scale gets a bar, so the gaps show too; cards
+ * that aren't on the scale (e.g. voted before it changed) come after them.
+ * Abstain cards - or, without a scale, cards that aren't numbers - are
+ * kept apart, since they don't say anything about the size.
+ *
+ * @example
+ * getVoteHistogram(['8', '5', '8', '?'], VOTING_SCALES.fibonacci)
+ * // estimates: 0, 1, 2, 3 and 5 (1 vote), 8 (2 votes), 13 and 21
+ * // other: ? (1 vote)
+ */
+export function getVoteHistogram(votes: string[], scale?: ScaleDefinition): VoteHistogram {
+  const counts = new Map<string, number>();
+  votes.forEach(v => counts.set(v, (counts.get(v) ?? 0) + 1));
+
+  const isOther = (vote: string) =>
+    scale ? isAbstainVote(scale, vote) : vote.trim() === '' || isNaN(Number(vote));
+  const bar = (vote: string): HistogramBar => ({ vote, count: counts.get(vote) ?? 0 });
+
+  const scaleCards = scale?.values ?? [];
+  const voted = [...counts.keys()];
+  const offScale = voted.filter(v => !scaleCards.includes(v) && !isOther(v));
+  // Without a scale, numbers are the only thing to order by
+  if (!scale) offScale.sort((a, b) => Number(a) - Number(b));
+
+  return {
+    estimates: [...scaleCards.filter(v => !isOther(v)), ...offScale].map(bar),
+    other: [...scaleCards.filter(v => isOther(v) && counts.has(v)), ...voted.filter(v => isOther(v) && !scaleCards.includes(v))]
+      .map(bar),
+  };
+}
+
+/**
+ * Finds the earlier rounds of the story being voted on, to compare with the
+ * current round after a re-vote.
+ *
+ * Walks back from the newest record for rounds round-1, round-2, ... 1 of
+ * the story that haven't been saved, so an older, finished attempt at a
+ * story with the same name isn't mixed in.
+ *
+ * @param story - The current story (trimmed, as rounds store it)
+ * @param round - The current round number
+ * @returns The earlier rounds, oldest first
+ */
+export function getPreviousRounds(rounds: RoundRecord[], story: string, round: number): RoundRecord[] {
+  const previous: RoundRecord[] = [];
+  let expected = round - 1;
+
+  for (let i = rounds.length - 1; i >= 0 && expected >= 1; i--) {
+    const record = rounds[i];
+    if (record.story === story && record.historyEntryId === undefined && record.round === expected) {
+      previous.unshift(record);
+      expected--;
+    }
+  }
+
+  return previous;
+}
+
 /**
  * Minimal interface for heartbeat checking.
  * Using a separate interface (not full Participant) makes the function
  * more flexible and easier to test.
  */
 interface ParticipantWithHeartbeat {
+  id?: string;
   lastHeartbeat?: string;
 }
 
@@ -125,6 +499,12 @@ interface ParticipantWithHeartbeat {
  * - The server stores the timestamp of the last heartbeat
  * - If we haven't heard from them in 30+ seconds, they're offline
  *
+ * WITH PRESENCE (NEXT_PUBLIC_REALTIME_PRESENCE=true):
+ * - The realtime transport tells us exactly who is connected, so anyone in
+ *   `onlineIds` is online immediately, and drops off as soon as they leave
+ * - Participants whose presence connection failed still send heartbeats,
+ *   so a recent heartbeat keeps counting as online
+ *
  * WHY THIS MATTERS:
  * - Shows other participants who has disconnected
  * - Offline participants appear grayed out in the UI
@@ -132,8 +512,15 @@ interface ParticipantWithHeartbeat {
  *
  * @param participant - Object with lastHeartbeat timestamp
  * @param now - Current time (injectable for testing)
+ * @param onlineIds - IDs connected via presence (omit when presence isn't in use)
  */
-export function isParticipantOnline(participant: ParticipantWithHeartbeat, now: number = Date.now()): boolean {
+export function isParticipantOnline(
+  participant: ParticipantWithHeartbeat,
+  now: number = Date.now(),
+  onlineIds?: ReadonlySet<string> | null
+): boolean {
+  if (onlineIds && participant.id && onlineIds.has(participant.id)) return true;
+
   // No heartbeat ever recorded = offline (new participant or never connected)
   if (!participant.lastHeartbeat) return false;
 
@@ -144,6 +531,25 @@ export function isParticipantOnline(participant: ParticipantWithHeartbeat, now:
   return now - lastHeartbeat < OFFLINE_THRESHOLD;
 }
 
+/**
+ * Checks whether every online voter has a card down (for auto-reveal).
+ *
+ * Offline voters aren't waited for, but their votes still count, and at
+ * least one vote is needed: a round nobody voted in is never "done".
+ *
+ * @param now - Current time (injectable for testing)
+ * @param onlineIds - IDs connected via presence (see isParticipantOnline)
+ */
+export function haveAllOnlineVotersVoted(
+  participants: Participant[],
+  now: number = Date.now(),
+  onlineIds?: ReadonlySet<string> | null
+): boolean {
+  const voters = participants.filter((p) => p.role === 'voter');
+  return voters.some((p) => p.vote !== null)
+    && voters.every((p) => p.vote !== null || !isParticipantOnline(p, now, onlineIds));
+}
+
 /**
  * Finds which history entries should be highlighted.
  *
@@ -6,25 +6,28 @@
  */
 
 /**
- * A participant can either vote or just watch.
+ * A participant can vote, just watch, or run the session.
  * - 'voter': Can select cards and their vote counts toward the result
  * - 'observer': Can see everything but cannot vote (good for PMs, stakeholders)
+ * - 'facilitator': The session owner. Cannot vote, but can always reveal,
+ *   reset, set the story and change the scale (see SessionSettings)
  */
-export type ParticipantRole = 'voter' | 'observer';
+export type ParticipantRole = 'voter' | 'observer' | 'facilitator';
 
 /**
  * A person in a poker session.
  *
- * This is the "live" version sent over Pusher and used in the UI.
+ * This is the "live" version broadcast to clients and used in the UI.
  * Contains everything needed to render the participant card.
  */
 export interface Participant {
   id: string;              // Unique ID (UUID) - generated when joining
   name: string;            // Display name chosen by user
   role: ParticipantRole;   // Whether they can vote
-  vote: string | null;     // Their current vote, null if not voted yet
+  vote: string | null;     // Their current vote, null if not voted yet (or hidden, see hasVoted)
   avatar: string;          // Animal avatar name (e.g., 'chicken', 'dog')
   lastHeartbeat?: string;  // ISO timestamp of last heartbeat (for online status)
+  hasVoted?: boolean;      // Set in everything sent to clients, where the vote is null until reveal
 }
 
 /**
@@ -39,6 +42,27 @@ export interface StoredParticipant {
   role: ParticipantRole;
   participantId: string;  // Note: called 'participantId' not 'id' for clarity
   avatar: string;
+  participantToken?: string;  // Secret from /join that proves we are this participant (missing in older data)
+}
+
+/**
+ * The possible outcomes when votes are revealed:
+ * - 'none': Nobody voted yet
+ * - 'consensus': Everyone agreed on the same value (the ideal outcome!)
+ * - 'majority': One value got the most votes
+ * - 'joint': Multiple values tied for most votes (need discussion)
+ */
+export type ResultType = 'consensus' | 'majority' | 'joint' | 'none';
+
+/**
+ * One voter's card in a saved result.
+ * The name is copied so the record still reads right after they leave.
+ * In anonymous sessions, cards are recorded without who voted them.
+ */
+export interface RecordedVote {
+  participantId?: string;   // Missing when recorded anonymously
+  name?: string;            // Missing when recorded anonymously
+  vote: string;
 }
 
 /**
@@ -46,14 +70,116 @@ export interface StoredParticipant {
  *
  * When votes are revealed and the team agrees on an estimate,
  * the story gets saved to history for reference.
+ * History is stored on the session, so everyone sees the same list
+ * and it survives page refreshes.
+ *
+ * The votes, result type and round count are missing on entries saved
+ * before they were recorded, and on entries saved without revealed votes.
+ * The duration is missing when the story was never set (locked) before saving.
  */
 export interface HistoryEntry {
-  id: string;        // Unique ID for React key prop
+  id: string;        // Unique ID (used by the edit/delete APIs and as React key)
   story: string;     // The story/ticket name that was estimated
   vote: string;      // The final agreed-upon estimate
   timestamp: number; // When it was saved (Unix ms)
+  votes?: RecordedVote[];   // Every voter's card in the final round
+  resultType?: ResultType;  // Outcome of the final round (see getResultType)
+  roundCount?: number;      // How many rounds the story was voted on
+  duration?: number;        // How long the story took, from being set to being saved (ms)
+}
+
+/**
+ * A snapshot of one round of voting, taken when the votes are revealed.
+ *
+ * History only keeps the final estimate; rounds keep every reveal, so the
+ * team can look back at how divided they were and who voted differently.
+ * The average, min and max are missing when no card was numeric.
+ */
+export interface RoundRecord {
+  id: string;
+  story: string;            // The story at reveal ('' if none was set)
+  round: number;            // Which round of voting on the story it was (from 1)
+  votes: RecordedVote[];    // Every voter's card
+  resultType: ResultType;   // See getResultType
+  average?: number;
+  min?: number;
+  max?: number;
+  revealedAt: number;       // Unix ms
+  historyEntryId?: string;  // The result the story was saved with, once saved
+  notes?: VoteNote[];       // Why the lowest and highest voters chose their cards
+}
+
+/**
+ * A voter's note explaining their card, attached to a revealed round.
+ * Only the voters holding the lowest and highest cards can post one
+ * (see getOutliers), and each can post one per round.
+ */
+export interface VoteNote {
+  participantId: string;
+  name: string;
+  vote: string;             // Their card in the round
+  text: string;
+  createdAt: number;        // Unix ms
+}
+
+/** Longest note a voter can post to explain their card. */
+export const MAX_NOTE_LENGTH = 280;
+
+/**
+ * Where a backlog item is in the meeting.
+ * - 'pending': Still to be estimated (in queue order)
+ * - 'estimated': Has a result - see estimate and historyEntryId
+ * - 'skipped': Passed over for now; can be put back in the queue
+ */
+export type BacklogStatus = 'pending' | 'estimated' | 'skipped';
+
+/**
+ * A story queued up for the session.
+ *
+ * The backlog is an ordered list stored on the session. Starting a new round
+ * loads the first pending item as the story, and when that story is saved
+ * to history the result is attached to the item, so the queue shows how far
+ * through the meeting we are.
+ */
+export interface BacklogItem {
+  id: string;               // Unique ID (used by the backlog APIs and as React key)
+  title: string;            // Becomes the story when the item is estimated
+  key?: string;             // Ticket key from the tracker, e.g. 'PROJ-123'
+  description?: string;
+  link?: string;            // URL of the ticket in the tracker
+  status: BacklogStatus;
+  estimate?: string;        // The saved estimate, once estimated
+  historyEntryId?: string;  // The history entry holding the result
+}
+
+/**
+ * What's needed to add a story to the backlog (typed in or imported).
+ */
+export type NewBacklogItem = Pick<BacklogItem, 'title' | 'key' | 'description' | 'link'>;
+
+/**
+ * What happens when the voting timer runs out:
+ * - 'reveal': The votes are revealed
+ * - 'bell': The bell rings for everyone, to wrap up the discussion
+ */
+export type TimerExpiryAction = 'reveal' | 'bell';
+
+/**
+ * A running voting timer, started by the facilitator.
+ * The end time is set by the server, so everyone counts down to the same moment.
+ */
+export interface VotingTimer {
+  endsAt: number;               // Unix ms
+  duration: number;             // Seconds it was started with
+  onExpire: TimerExpiryAction;
 }
 
+/** Timer lengths offered in the UI, in seconds. */
+export const TIMER_DURATIONS = [30, 60, 120];
+
+/** Longest timer the API accepts, in seconds. */
+export const MAX_TIMER_DURATION = 600;
+
 /**
  * Server-side representation of a poker session.
  *
@@ -83,38 +209,184 @@ export interface SessionState {
   revealed: boolean;
   story?: string;               // Current story being estimated
   storyLocked?: boolean;        // Whether story is "set" vs being edited
+  votingScale?: VotingScale;    // Scale everyone votes on (shared across the session)
+  customScales?: Record<string, ScaleDefinition>;  // Scales defined for this session, by id
+  history?: HistoryEntry[];     // Estimated stories, oldest first
+  rounds?: RoundRecord[];       // Every revealed round, oldest first
+  backlog?: BacklogItem[];      // Stories queued for this session, in order
+  currentBacklogItemId?: string;  // Backlog item being estimated (if the story came from the backlog)
+  round?: number;               // Which round of voting on the current story this is (from 1)
+  currentRoundId?: string;      // Record of the revealed round (see RoundRecord), while revealed
+  autoRevealAt?: number;        // When the auto-reveal countdown ends (Unix ms), while one is running
+  timer?: VotingTimer;          // The voting timer, while one is running
+  settings?: SessionSettings;   // Missing on sessions created before settings existed
+  version?: number;             // Server version this state reflects (see SessionEvent)
 }
 
 /**
- * Available voting scales.
- * Users can switch between these during a session.
+ * What changed in a session, without the session's other data.
+ * See SessionEvent for how these are delivered.
  */
-export type VotingScale = 'fibonacci' | 'tshirt';
+export type SessionEventPayload =
+  | { type: 'participant-joined'; participant: Participant }   // Also sent on rejoin
+  | { type: 'participant-left'; participantId: string }
+  | { type: 'vote-cast'; participantId: string; hasVoted: boolean; vote?: string | null; autoRevealAt?: number }  // The vote is only sent once revealed; may start or stop the auto-reveal countdown
+  | { type: 'heartbeat'; participantId: string; lastHeartbeat?: string }
+  | { type: 'revealed'; votes: RevealedVote[]; story: string; storyLocked: boolean; savedEntry?: HistoryEntry; round?: RoundRecord }  // Carries the votes and the new round record; savedEntry if a consensus was auto-saved
+  | { type: 'reset'; story: string; storyLocked: boolean; currentBacklogItemId?: string; round: number }  // May load the next backlog item
+  | { type: 'revote'; round: number }                            // Same story, votes cleared
+  | { type: 'auto-reveal-cancelled' }
+  | { type: 'timer-changed'; timer?: VotingTimer }              // Started, stopped or ran out
+  | { type: 'note-added'; roundId: string; notes: VoteNote[] }   // A voter explained their card
+  | { type: 'story-changed'; story: string; storyLocked: boolean; currentBacklogItemId?: string; round: number }
+  | { type: 'history-entry-saved'; entry: HistoryEntry }         // Saved by hand
+  | { type: 'history-entry-updated'; entry: HistoryEntry }
+  | { type: 'history-entry-deleted'; entryId: string }
+  | { type: 'avatar-changed'; participantId: string; avatar: string }
+  | { type: 'settings-changed'; settings: SessionSettings }
+  | { type: 'scale-changed'; votingScale: VotingScale; customScale?: ScaleDefinition }  // Clears the votes; customScale if a new one was defined
+  | { type: 'backlog-items-added'; items: Omit<BacklogItem, 'description'>[] }  // Typed in by hand (imports send 'resync')
+  | { type: 'backlog-item-moved'; itemId: string; index: number }
+  | { type: 'backlog-item-skipped'; itemId: string; skipped: boolean }  // Skipping the current story starts a round on the next one
+  | { type: 'backlog-item-removed'; itemId: string }             // Removing the current story starts a round on the next one
+  | { type: 'backlog-item-started'; itemId: string }             // A new round on this item, out of queue order
+  | { type: 'resync' };                                          // Too much changed to send: fetch the whole session
 
 /**
- * Configuration for each voting scale.
+ * A card shown by the 'revealed' event. In anonymous sessions the card
+ * stays hidden (null), so clients only learn who voted.
+ */
+export interface RevealedVote {
+  participantId: string;
+  vote: string | null;
+}
+
+/**
+ * An incremental update broadcast to everyone in a session.
+ *
+ * WHY NOT SEND THE WHOLE SESSION?
+ * Heartbeats alone change the session every 10 seconds per participant.
+ * Sending the full state each time quickly runs into message rate and
+ * size limits, so every change is sent as a small event instead. An event
+ * that would still be too big goes out as 'resync' (see broadcastSessionEvent).
+ *
+ * seq is the session's version after the change. Clients apply events in
+ * order and fetch the whole session again when they spot a gap
+ * (see applySessionEvent in '@/lib/sessionEvents').
+ */
+export type SessionEvent = SessionEventPayload & { seq: number };
+
+/**
+ * Options the facilitator can change for their session.
+ *
+ * - facilitatorOnly: Only the facilitator may reveal, reset, set the story
+ *   or change the scale. When off (the default), anyone can.
+ * - autoReveal: Reveal the votes once every online voter has voted, instead
+ *   of waiting for someone to click "Reveal Votes"
+ * - autoRevealCountdown: Seconds to count down before an auto-reveal, so
+ *   anyone can still cancel it (0 reveals straight away)
+ * - anonymous: Revealed votes are shown without names (only how many voted
+ *   each card), and rounds and history record them without names, to reduce
+ *   seniority bias
+ * - suggestionBasis, suggestionRounding: How the suggested estimate shown
+ *   after a reveal is picked (see SuggestionBasis and SuggestionRounding)
+ *
+ * Options added later are missing on sessions stored before they existed.
+ */
+export interface SessionSettings {
+  facilitatorOnly: boolean;
+  autoReveal?: boolean;
+  autoRevealCountdown?: number;
+  anonymous?: boolean;
+  suggestionBasis?: SuggestionBasis;
+  suggestionRounding?: SuggestionRounding;
+}
+
+export const DEFAULT_SESSION_SETTINGS: Required<SessionSettings> = {
+  facilitatorOnly: false,
+  autoReveal: false,
+  autoRevealCountdown: 5,
+  anonymous: false,
+  suggestionBasis: 'median',
+  suggestionRounding: 'nearest',
+};
+
+/**
+ * What the suggested estimate is worked out from: the median of the numeric
+ * votes (not pulled around by one outlier) or their mean.
+ */
+export type SuggestionBasis = 'median' | 'mean';
+
+/**
+ * How the median or mean is snapped to a card: the nearest card, or the next
+ * card up (the cautious choice, since estimates tend to run low).
+ */
+export type SuggestionRounding = 'nearest' | 'up';
+
+export const SUGGESTION_BASES: SuggestionBasis[] = ['median', 'mean'];
+export const SUGGESTION_ROUNDINGS: SuggestionRounding[] = ['nearest', 'up'];
+
+/** Longest auto-reveal countdown the facilitator can pick, in seconds. */
+export const MAX_AUTO_REVEAL_COUNTDOWN = 30;
+
+/**
+ * The voting scales every session starts with.
+ */
+export type BuiltInScale = 'fibonacci' | 'tshirt';
+
+/**
+ * Identifies a scale within a session.
+ * Either a built-in scale or the id of a custom scale stored on the session.
+ * The active scale is stored on the session, so switching it changes
+ * the cards for everyone at once.
+ */
+export type VotingScale = BuiltInScale | string;
+
+/**
+ * Definition of a voting scale.
  *
- * Each scale has:
  * - name: Display name shown in the UI
- * - values: The voting options available
+ * - values: The voting options available, in order
+ * - weights: Numeric value for cards that aren't numbers themselves
+ *   (e.g. 'XS' -> 1) so they can be used in statistics
+ * - abstain: Cards that mean "no estimate" and are left out of statistics
+ */
+export interface ScaleDefinition {
+  name: string;
+  values: string[];
+  weights?: Record<string, number>;
+  abstain?: string[];
+}
+
+/**
+ * Configuration for each built-in voting scale.
  *
  * Note: '?' means "I don't know" and '☕' means "I need a break"
  */
-export const VOTING_SCALES: Record<VotingScale, { name: string; values: string[] }> = {
+export const VOTING_SCALES: Record<BuiltInScale, ScaleDefinition> = {
   fibonacci: {
     name: 'Story Points',
     values: ['0', '1', '2', '3', '5', '8', '13', '21', '?', '☕'],
+    abstain: ['?', '☕'],
   },
   tshirt: {
     name: 'T-Shirt Sizes',
     values: ['XS', 'S', 'M', 'L', 'XL', 'XXL', '?', '☕'],
+    abstain: ['?', '☕'],
   },
 };
 
 /**
- * Order for cycling through scales with the up/down arrows.
+ * Order for cycling through the built-in scales with the up/down arrows.
+ * Custom scales are cycled after these (see getScaleOrder).
+ */
+export const SCALE_ORDER: BuiltInScale[] = ['fibonacci', 'tshirt'];
+
+/**
+ * Scale used for new sessions (and for sessions stored before the
+ * scale was kept on the server).
  */
-export const SCALE_ORDER: VotingScale[] = ['fibonacci', 'tshirt'];
+export const DEFAULT_VOTING_SCALE: BuiltInScale = 'fibonacci';
 
 /**
  * @deprecated Use VOTING_SCALES.fibonacci.values instead.
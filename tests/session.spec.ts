@@ -412,8 +412,8 @@ test.describe('Planning Poker Session', () => {
     await estimator2.click('button[type="submit"]');
     await expect(estimator2.getByText('Voter1')).toBeVisible({ timeout: 10000 });
 
-    // Voter 2 also switches to T-Shirt sizes
-    await estimator2.locator('button[title="Next scale"]').click();
+    // Voter 2 sees the scale Voter 1 picked without switching
+    await expect(estimator2.getByText('T-Shirt Sizes')).toBeVisible({ timeout: 10000 });
 
     // Both vote for 'L'
     await estimator1.getByRole('button', { name: 'L', exact: true }).click();